@@ -0,0 +1,152 @@
+import path from "node:path";
+import ts from "typescript";
+
+import { InvalidQueryError, PositionOutOfRangeError } from "./errors.js";
+import { BaseQuery, condenseSnippet, loadQueryFile, TYPE_STRING_FORMAT_FLAGS } from "./picker.js";
+import { ProjectRegistry } from "./project.js";
+import { resolveSymbolPath } from "./symbol-path.js";
+
+export interface AnnotateQuery extends BaseQuery {
+  /** 1-based, inclusive line range to annotate. Defaults to the whole file. */
+  range?: {
+    startLine: number;
+    endLine: number;
+  };
+  /** Symbol path whose declaration is annotated instead of a line range, e.g. `UserService.create`. */
+  symbol?: string;
+}
+
+export interface AnnotationInfo {
+  kind: "variable" | "parameter" | "property" | "call" | "return";
+  line: number;
+  column: number;
+  offset: number;
+  /** Name of the declaration, the call expression, or the function whose return type is shown. */
+  text: string;
+  typeString: string;
+  /** The type is written in the source rather than inferred. Always false for calls. */
+  annotated: boolean;
+}
+
+export interface AnnotateResult {
+  file: string;
+  project?: string;
+  range: {
+    startLine: number;
+    endLine: number;
+  };
+  symbol?: string;
+  annotations: AnnotationInfo[];
+}
+
+/**
+ * Lists the types of the declarations, parameters, call results and function
+ * return types in a line range or a symbol's declaration, in source order —
+ * the information an editor shows as inlay hints, from one program build.
+ */
+export function annotateFile(query: AnnotateQuery, projects = new ProjectRegistry()): AnnotateResult {
+  if (query.range && query.symbol) {
+    throw new InvalidQueryError("--range cannot be combined with --symbol");
+  }
+
+  const { context, sourceFile: querySourceFile } = loadQueryFile(query, projects);
+  const checker = context.program.getTypeChecker();
+
+  let sourceFile = querySourceFile;
+  let root: ts.Node = querySourceFile;
+  if (query.symbol) {
+    const { declaration } = resolveSymbolPath(querySourceFile, checker, query.symbol);
+    sourceFile = declaration.getSourceFile();
+    root = declaration;
+  }
+
+  const lineCount = sourceFile.getLineStarts().length;
+  const range = query.range ?? {
+    startLine: sourceFile.getLineAndCharacterOfPosition(root.getStart(sourceFile)).line + 1,
+    endLine: sourceFile.getLineAndCharacterOfPosition(root.getEnd()).line + 1,
+  };
+  if (range.startLine < 1 || range.endLine < range.startLine) {
+    throw new InvalidQueryError(`Invalid range: ${range.startLine}:${range.endLine}`, { ...range });
+  }
+  if (range.startLine > lineCount) {
+    throw new PositionOutOfRangeError(`Line ${range.startLine} is past the end of ${sourceFile.fileName}, which has ${lineCount} lines`, {
+      line: range.startLine,
+      column: 1,
+      lineCount,
+      file: path.normalize(sourceFile.fileName),
+    });
+  }
+
+  const start = sourceFile.getPositionOfLineAndCharacter(range.startLine - 1, 0);
+  const end = range.endLine >= lineCount ? sourceFile.getEnd() : sourceFile.getPositionOfLineAndCharacter(range.endLine, 0);
+
+  const annotations: AnnotationInfo[] = [];
+  const add = (kind: AnnotationInfo["kind"], at: ts.Node, text: string, type: ts.Type, annotated: boolean) => {
+    const offset = at.getStart(sourceFile);
+    if (offset < start || offset >= end) {
+      return;
+    }
+    const { line, character } = sourceFile.getLineAndCharacterOfPosition(offset);
+    annotations.push({
+      kind,
+      line: line + 1,
+      column: character + 1,
+      offset,
+      text: condenseSnippet(text, 80),
+      typeString: checker.typeToString(type, at, TYPE_STRING_FORMAT_FLAGS),
+      annotated,
+    });
+  };
+
+  const visit = (node: ts.Node) => {
+    if (node.getEnd() <= start || node.getStart(sourceFile) >= end) {
+      return;
+    }
+
+    if ((ts.isVariableDeclaration(node) || ts.isBindingElement(node)) && ts.isIdentifier(node.name)) {
+      const annotated = ts.isVariableDeclaration(node) && node.type !== undefined;
+      add("variable", node.name, node.name.text, checker.getTypeAtLocation(node.name), annotated);
+    } else if (ts.isParameter(node) && ts.isIdentifier(node.name)) {
+      add("parameter", node.name, node.name.text, checker.getTypeAtLocation(node.name), node.type !== undefined);
+    } else if (ts.isPropertyDeclaration(node) && ts.getNameOfDeclaration(node)) {
+      const name = ts.getNameOfDeclaration(node)!;
+      add("property", name, name.getText(sourceFile), checker.getTypeAtLocation(name), node.type !== undefined);
+    } else if (ts.isCallExpression(node) || ts.isNewExpression(node)) {
+      add("call", node, node.getText(sourceFile), checker.getTypeAtLocation(node), false);
+    }
+
+    if (ts.isFunctionLike(node) && "body" in node && node.body) {
+      const signature = checker.getSignatureFromDeclaration(node);
+      if (signature) {
+        const name = ts.getNameOfDeclaration(node);
+        add(
+          "return",
+          name ?? node,
+          name ? name.getText(sourceFile) : describeAnonymousFunction(node),
+          checker.getReturnTypeOfSignature(signature),
+          node.type !== undefined,
+        );
+      }
+    }
+
+    node.forEachChild(visit);
+  };
+  visit(root);
+
+  return {
+    file: path.normalize(sourceFile.fileName),
+    project: context.configPath,
+    range: { startLine: range.startLine, endLine: Math.min(range.endLine, lineCount) },
+    symbol: query.symbol,
+    annotations: annotations.sort((a, b) => a.offset - b.offset),
+  };
+}
+
+/** Names an anonymous function after what it is assigned to, e.g. `handler` for `const handler = () => …`. */
+function describeAnonymousFunction(node: ts.SignatureDeclaration): string {
+  const parent = node.parent;
+  if ((ts.isVariableDeclaration(parent) || ts.isPropertyAssignment(parent) || ts.isPropertyDeclaration(parent)) && parent.name) {
+    return parent.name.getText();
+  }
+  return ts.isArrowFunction(node) ? "(arrow function)" : "(function)";
+}
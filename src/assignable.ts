@@ -0,0 +1,232 @@
+import path from "node:path";
+import ts from "typescript";
+
+import { InvalidQueryError } from "./errors.js";
+import {
+  BaseQuery,
+  loadQueryFile,
+  PositionQuery,
+  RegexQuery,
+  resolveOverlays,
+  resolveQueryTarget,
+  SymbolQuery,
+  TYPE_STRING_FORMAT_FLAGS,
+  TypeQuery,
+} from "./picker.js";
+import { ProjectRegistry } from "./project.js";
+
+/**
+ * One side of an assignability check: a type expression evaluated at the end
+ * of the query file (e.g. `Partial<User>`), or the type at a position, regex
+ * match or symbol path in that file.
+ */
+export type AssignableOperand =
+  | { type: string }
+  | Omit<PositionQuery, keyof BaseQuery>
+  | Omit<RegexQuery, keyof BaseQuery>
+  | Omit<SymbolQuery, keyof BaseQuery>;
+
+export interface AssignableQuery extends BaseQuery {
+  source: AssignableOperand;
+  target: AssignableOperand;
+}
+
+export interface AssignableOperandInfo {
+  kind: "type" | "position";
+  /** The type expression, or the text matched at the position. */
+  text: string;
+  typeString: string;
+  line?: number;
+  column?: number;
+}
+
+/** One level of the compiler's elaboration, outermost first; `depth` is the nesting level. */
+export interface AssignabilityErrorInfo {
+  depth: number;
+  code?: number;
+  message: string;
+}
+
+export interface AssignableResult {
+  file: string;
+  project?: string;
+  source: AssignableOperandInfo;
+  target: AssignableOperandInfo;
+  assignable: boolean;
+  /** Why the source is not assignable, as the compiler would report it for `const t: Target = source`. Empty when assignable. */
+  errors: AssignabilityErrorInfo[];
+}
+
+const SOURCE_NAME = "__tspAssignableSource";
+const TARGET_NAME = "__tspAssignableTarget";
+
+/** Codes the checker reports for `const target: Target = source` when the types are not assignable. */
+const ASSIGNABILITY_CODES = new Set([2322, 2375, 2559, 2719, 2739, 2740, 2741, 4104]);
+
+const PROBE_TYPE_NODE_FLAGS =
+  ts.NodeBuilderFlags.NoTruncation |
+  ts.NodeBuilderFlags.UseFullyQualifiedType |
+  ts.NodeBuilderFlags.IgnoreErrors;
+
+/**
+ * Reports whether the source type is assignable to the target type. The verdict
+ * comes from the checker; the error chain from checking
+ * `const target: Target = source` appended to the query file as an overlay, so
+ * it reads exactly like the diagnostic an assignment would produce.
+ */
+export function checkAssignable(query: AssignableQuery, projects = new ProjectRegistry()): AssignableResult {
+  const { sourceFile: original } = loadQueryFile(query, projects);
+  const sourceText = describeOperandForProbe(query, query.source, projects);
+  const targetText = describeOperandForProbe(query, query.target, projects);
+
+  const probeStart = original.text.length;
+  const probe = [
+    "",
+    `declare const ${SOURCE_NAME}: ${sourceText};`,
+    `const ${TARGET_NAME}: ${targetText} = ${SOURCE_NAME};`,
+    "",
+  ].join("\n");
+  const overlays = Object.fromEntries(resolveOverlays(query.overlays));
+  overlays[path.resolve(query.file)] = original.text + probe;
+  const probeQuery: BaseQuery = { ...query, overlays };
+
+  const { context, sourceFile } = loadQueryFile(probeQuery, projects);
+  const checker = context.program.getTypeChecker();
+  const sourceTypeNode = findProbeDeclaration(sourceFile, SOURCE_NAME, probeStart).type!;
+  const targetDeclaration = findProbeDeclaration(sourceFile, TARGET_NAME, probeStart);
+  const targetTypeNode = targetDeclaration.type!;
+
+  const probeDiagnostics = [
+    ...context.program.getSyntacticDiagnostics(sourceFile),
+    ...context.program.getSemanticDiagnostics(sourceFile),
+  ].filter((diagnostic) => diagnostic.start !== undefined && diagnostic.start >= probeStart);
+  const within = (node: ts.Node) => (diagnostic: ts.Diagnostic) =>
+    diagnostic.start! >= node.getStart(sourceFile) && diagnostic.start! < node.getEnd();
+  const sourceErrors = probeDiagnostics.filter(within(sourceTypeNode));
+  const targetErrors = probeDiagnostics.filter(within(targetTypeNode));
+  rejectInvalidTypeExpression("source", query.source, sourceErrors);
+  rejectInvalidTypeExpression("target", query.target, targetErrors);
+
+  const source = resolveOperand(probeQuery, query.source, sourceTypeNode, checker, projects);
+  const target = resolveOperand(probeQuery, query.target, targetTypeNode, checker, projects);
+  const assignable = checker.isTypeAssignableTo(source.type, target.type);
+
+  let errors: AssignabilityErrorInfo[] = [];
+  if (!assignable) {
+    // Broken code before the probe can leave other errors in it, so only an assignability error on the assignment counts.
+    const isAssignmentError = (diagnostic: ts.Diagnostic) =>
+      ASSIGNABILITY_CODES.has(diagnostic.code) &&
+      (within(targetDeclaration.name)(diagnostic) || within(targetDeclaration.initializer!)(diagnostic));
+    // The probe only explains the verdict when both printed types resolved; otherwise fall back to a one-line reason.
+    const assignment = sourceErrors.length === 0 && targetErrors.length === 0
+      ? probeDiagnostics.find(isAssignmentError)
+      : undefined;
+    errors = assignment
+      ? flattenMessageChain(assignment.messageText, assignment.code)
+      : [{ depth: 0, code: 2322, message: `Type '${source.info.typeString}' is not assignable to type '${target.info.typeString}'.` }];
+  }
+
+  return {
+    file: path.normalize(sourceFile.fileName),
+    project: context.configPath,
+    source: source.info,
+    target: target.info,
+    assignable,
+    errors,
+  };
+}
+
+/** Type text written into the probe: the expression itself, or the printed type at the position. */
+function describeOperandForProbe(query: BaseQuery, operand: AssignableOperand, projects: ProjectRegistry): string {
+  if (isTypeOperand(operand)) {
+    return `(${operand.type})`;
+  }
+  const { checker, node, sourceFile } = resolveQueryTarget(toTypeQuery(query, operand), projects);
+  const type = checker.getTypeAtLocation(node);
+  const typeNode = checker.typeToTypeNode(type, sourceFile, PROBE_TYPE_NODE_FLAGS);
+  if (!typeNode) {
+    return "unknown";
+  }
+  return `(${ts.createPrinter({ removeComments: true }).printNode(ts.EmitHint.Unspecified, typeNode, sourceFile)})`;
+}
+
+function resolveOperand(
+  query: BaseQuery,
+  operand: AssignableOperand,
+  probeTypeNode: ts.TypeNode,
+  checker: ts.TypeChecker,
+  projects: ProjectRegistry,
+): { type: ts.Type; info: AssignableOperandInfo } {
+  if (isTypeOperand(operand)) {
+    const type = checker.getTypeFromTypeNode(probeTypeNode);
+    return {
+      type,
+      info: { kind: "type", text: operand.type, typeString: checker.typeToString(type, probeTypeNode, TYPE_STRING_FORMAT_FLAGS) },
+    };
+  }
+
+  const { node, resolution } = resolveQueryTarget(toTypeQuery(query, operand), projects);
+  const type = checker.getTypeAtLocation(node);
+  return {
+    type,
+    info: {
+      kind: "position",
+      text: resolution.matchedText.length > 0 ? resolution.matchedText : node.getText(),
+      typeString: checker.typeToString(type, node, TYPE_STRING_FORMAT_FLAGS),
+      line: resolution.line,
+      column: resolution.column,
+    },
+  };
+}
+
+function rejectInvalidTypeExpression(role: "source" | "target", operand: AssignableOperand, diagnostics: ts.Diagnostic[]): void {
+  if (!isTypeOperand(operand) || diagnostics.length === 0) {
+    return;
+  }
+  const messages = diagnostics.map((diagnostic) => ts.flattenDiagnosticMessageText(diagnostic.messageText, " "));
+  throw new InvalidQueryError(`Invalid ${role} type expression "${operand.type}": ${messages[0]}`, {
+    operand: role,
+    type: operand.type,
+    messages,
+  });
+}
+
+function findProbeDeclaration(sourceFile: ts.SourceFile, name: string, probeStart: number): ts.VariableDeclaration {
+  for (const statement of sourceFile.statements) {
+    if (statement.getStart(sourceFile) < probeStart || !ts.isVariableStatement(statement)) {
+      continue;
+    }
+    const declaration = statement.declarationList.declarations.find(
+      (candidate) => ts.isIdentifier(candidate.name) && candidate.name.text === name,
+    );
+    if (declaration?.type) {
+      return declaration;
+    }
+  }
+  throw new Error(`Assignability probe for ${name} was not parsed`);
+}
+
+function flattenMessageChain(
+  messageText: string | ts.DiagnosticMessageChain,
+  code: number,
+  depth = 0,
+  levels: AssignabilityErrorInfo[] = [],
+): AssignabilityErrorInfo[] {
+  if (typeof messageText === "string") {
+    levels.push({ depth, code, message: messageText });
+    return levels;
+  }
+  levels.push({ depth, code: messageText.code, message: messageText.messageText });
+  for (const next of messageText.next ?? []) {
+    flattenMessageChain(next, next.code, depth + 1, levels);
+  }
+  return levels;
+}
+
+function toTypeQuery(query: BaseQuery, operand: Exclude<AssignableOperand, { type: string }>): TypeQuery {
+  return { file: query.file, project: query.project, overlays: query.overlays, ...operand } as TypeQuery;
+}
+
+function isTypeOperand(operand: AssignableOperand): operand is { type: string } {
+  return typeof (operand as { type?: unknown }).type === "string";
+}
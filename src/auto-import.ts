@@ -0,0 +1,188 @@
+import path from "node:path";
+import ts from "typescript";
+
+import { describeChanges, FORMAT_SETTINGS, getAutoImportSpecifier, TextEditInfo } from "./code-fixes.js";
+import { InvalidQueryError } from "./errors.js";
+import { loadQueryFile, resolveOverlays, TYPE_STRING_FORMAT_FLAGS } from "./picker.js";
+import { ProjectRegistry } from "./project.js";
+
+export interface ImportQuery {
+  /** Identifier to import, e.g. `z` or `useQuery`. */
+  name: string;
+  /** File the import is added to; its location, project and compiler options decide the module specifier. */
+  from: string;
+  project?: string;
+  overlays?: Record<string, string>;
+}
+
+export interface ImportCandidateInfo {
+  /** 1-based position in the ranking. */
+  rank: number;
+  moduleSpecifier: string;
+  /** Name the module exports it under: the identifier, `default`, or `export=`. */
+  exportName: string;
+  kind: string;
+  /** Where the export comes from: a project file, a package in node_modules, or an ambient `declare module`. */
+  origin: "project" | "package" | "ambient";
+  /** Declaring file, when the export is not an ambient module. */
+  file?: string;
+  type?: string;
+  deprecated: boolean;
+  /** The import declaration as it reads once the edits are applied: a new statement, or the updated existing one. */
+  statement: string;
+  /** Edits to `from` that add the import, as `tsp fix` would apply them. */
+  edits: TextEditInfo[];
+}
+
+export interface ImportCandidatesResult {
+  name: string;
+  file: string;
+  project?: string;
+  candidates: ImportCandidateInfo[];
+}
+
+const IMPORT_PREFERENCES: ts.UserPreferences = {
+  includeCompletionsForModuleExports: true,
+  importModuleSpecifierEnding: "auto",
+  allowIncompleteCompletions: false,
+};
+
+/**
+ * Lists the modules that export `query.name` and can be imported from
+ * `query.from`, with the edits that add the import. Candidates are the
+ * language service's auto-imports for the name written at the end of the file,
+ * so module specifiers follow the project's `paths`, `baseUrl`,
+ * `moduleResolution` and extension rules. They are ranked non-deprecated
+ * first, then by the fewest specifier path segments, then the shortest
+ * specifier — `zod` before `zod/lib/types`.
+ */
+export function findImportCandidates(query: ImportQuery, projects = new ProjectRegistry()): ImportCandidatesResult {
+  if (!isIdentifierName(query.name)) {
+    throw new InvalidQueryError(`"${query.name}" is not an identifier`, { name: query.name });
+  }
+
+  const fileQuery = { file: query.from, project: query.project, overlays: query.overlays };
+  const { sourceFile: original } = loadQueryFile(fileQuery, projects);
+
+  // Write the name on a line of its own after the existing code, where an editor would offer the auto-imports.
+  const probeText = `${original.text}\n${query.name}\n`;
+  const position = original.text.length + 1 + query.name.length;
+  const overlays = Object.fromEntries(resolveOverlays(query.overlays));
+  overlays[path.resolve(query.from)] = probeText;
+
+  const { context, sourceFile } = loadQueryFile({ ...fileQuery, overlays }, projects);
+  const { languageService, program } = context;
+  const checker = program.getTypeChecker();
+  const completions = languageService.getCompletionsAtPosition(sourceFile.fileName, position, IMPORT_PREFERENCES);
+
+  const seen = new Set<string>();
+  const candidates: Omit<ImportCandidateInfo, "rank">[] = [];
+  for (const entry of completions?.entries ?? []) {
+    const moduleSpecifier = getAutoImportSpecifier(entry);
+    if (entry.name !== query.name || !moduleSpecifier) {
+      continue;
+    }
+    const exportName = entry.data?.exportName ?? entry.name;
+    const key = `${moduleSpecifier}\0${exportName}`;
+    if (seen.has(key)) {
+      continue;
+    }
+    seen.add(key);
+
+    const details = languageService.getCompletionEntryDetails(
+      sourceFile.fileName,
+      position,
+      entry.name,
+      FORMAT_SETTINGS,
+      entry.source,
+      IMPORT_PREFERENCES,
+      entry.data,
+    );
+    const changes = (details?.codeActions ?? []).flatMap((action) => action.changes);
+    const ownChanges = changes.filter((change) => path.resolve(change.fileName) === path.resolve(sourceFile.fileName));
+    if (ownChanges.length === 0) {
+      continue;
+    }
+
+    const symbol = findExportedSymbol(entry.data, exportName, program);
+    const modifiers = new Set((entry.kindModifiers ?? "").split(",").filter(Boolean));
+    const declaringFile = entry.data?.fileName;
+    const candidate: Omit<ImportCandidateInfo, "rank"> = {
+      moduleSpecifier,
+      exportName,
+      kind: entry.kind,
+      origin: !declaringFile ? "ambient" : /[\\/]node_modules[\\/]/.test(declaringFile) ? "package" : "project",
+      deprecated: modifiers.has(ts.ScriptElementKindModifier.deprecatedModifier),
+      statement: describeImportStatement(probeText, ownChanges),
+      edits: ownChanges.flatMap((change) => describeChanges(change, program)),
+    };
+    if (declaringFile) {
+      candidate.file = path.normalize(declaringFile);
+    }
+    if (symbol) {
+      const target = (symbol.flags & ts.SymbolFlags.Alias) !== 0 ? checker.getAliasedSymbol(symbol) : symbol;
+      candidate.type = checker.typeToString(checker.getTypeOfSymbol(target), undefined, TYPE_STRING_FORMAT_FLAGS);
+    }
+    candidates.push(candidate);
+  }
+
+  candidates.sort(
+    (a, b) =>
+      Number(a.deprecated) - Number(b.deprecated) ||
+      a.moduleSpecifier.split("/").length - b.moduleSpecifier.split("/").length ||
+      a.moduleSpecifier.length - b.moduleSpecifier.length ||
+      a.moduleSpecifier.localeCompare(b.moduleSpecifier),
+  );
+
+  return {
+    name: query.name,
+    file: path.normalize(sourceFile.fileName),
+    project: context.configPath,
+    candidates: candidates.map((candidate, index) => ({ rank: index + 1, ...candidate })),
+  };
+}
+
+/** Applies the changes to the probe text and prints the import declaration they add or update. */
+function describeImportStatement(text: string, changes: readonly ts.FileTextChanges[]): string {
+  const textChanges = changes
+    .flatMap((change) => change.textChanges)
+    .sort((a, b) => b.span.start - a.span.start);
+  let updated = text;
+  for (const change of textChanges) {
+    updated = updated.slice(0, change.span.start) + change.newText + updated.slice(change.span.start + change.span.length);
+  }
+
+  // Edits are applied from the end, so the earliest one still starts at its original offset.
+  const editStart = textChanges[textChanges.length - 1].span.start;
+  const updatedFile = ts.createSourceFile("import.ts", updated, ts.ScriptTarget.Latest, true);
+  const declaration = updatedFile.statements.find(
+    (statement) =>
+      (ts.isImportDeclaration(statement) || ts.isImportEqualsDeclaration(statement)) &&
+      statement.getFullStart() <= editStart &&
+      editStart <= statement.getEnd(),
+  );
+  return declaration
+    ? declaration.getText(updatedFile)
+    : textChanges.map((change) => change.newText.trim()).reverse().join("\n");
+}
+
+/** The export the completion entry refers to, looked up in its declaring file or ambient module. */
+function findExportedSymbol(
+  data: ts.CompletionEntryData | undefined,
+  exportName: string,
+  program: ts.Program,
+): ts.Symbol | undefined {
+  const checker = program.getTypeChecker();
+  const declaringFile = data?.fileName ? program.getSourceFile(data.fileName) : undefined;
+  const moduleSymbol = declaringFile
+    ? checker.getSymbolAtLocation(declaringFile)
+    : checker.getAmbientModules().find((candidate) => candidate.getName() === `"${data?.ambientModuleName}"`);
+  return moduleSymbol ? checker.tryGetMemberInModuleExports(exportName, moduleSymbol) : undefined;
+}
+
+function isIdentifierName(name: string): boolean {
+  const [first, ...rest] = Array.from(name, (char) => char.codePointAt(0)!);
+  return first !== undefined &&
+    ts.isIdentifierStart(first, ts.ScriptTarget.Latest) &&
+    rest.every((code) => ts.isIdentifierPart(code, ts.ScriptTarget.Latest));
+}
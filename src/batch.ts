@@ -0,0 +1,134 @@
+import { ErrorInfo, InvalidQueryError, toErrorInfo } from "./errors.js";
+import { BaseQuery, PickOptions, pickType, TypeInfo, TypeQuery } from "./picker.js";
+import { SCHEMA_VERSION } from "./schema.js";
+import { ProjectRegistry } from "./project.js";
+
+export interface BatchError {
+  schemaVersion: typeof SCHEMA_VERSION;
+  index: number;
+  error: ErrorInfo;
+}
+
+export type BatchResult = TypeInfo | BatchError;
+
+/**
+ * Answers one query per non-empty input line, in input order. All queries share
+ * a project registry, so each tsconfig is loaded once for the whole batch, and a
+ * failing query yields an error entry instead of aborting the rest.
+ */
+export async function* runBatch(
+  lines: AsyncIterable<string>,
+  options: PickOptions = {},
+  projects = new ProjectRegistry(),
+): AsyncGenerator<BatchResult> {
+  let index = 0;
+  try {
+    for await (const line of lines) {
+      if (line.trim().length === 0) {
+        continue;
+      }
+      const current = index;
+      index += 1;
+      try {
+        yield pickType(parseBatchQuery(line), projects, options);
+      } catch (error) {
+        yield { schemaVersion: SCHEMA_VERSION, index: current, error: toErrorInfo(error) };
+      }
+    }
+  } finally {
+    projects.dispose();
+  }
+}
+
+export function isBatchError(result: BatchResult): result is BatchError {
+  return (result as BatchError).error !== undefined;
+}
+
+function parseBatchQuery(line: string): TypeQuery {
+  let value: unknown;
+  try {
+    value = JSON.parse(line);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new InvalidQueryError(`Invalid query JSON: ${message}`);
+  }
+
+  return toTypeQuery(value);
+}
+
+/**
+ * Validates a decoded JSON value as a `TypeQuery`, throwing a message that names
+ * the offending field. Unknown fields are dropped.
+ */
+export function toTypeQuery(value: unknown): TypeQuery {
+  const base = toBaseQuery(value);
+  const query = value as Record<string, unknown>;
+
+  if (query.symbol !== undefined) {
+    if (typeof query.symbol !== "string" || query.symbol.length === 0) {
+      throw new InvalidQueryError("Query \"symbol\" must be a non-empty string");
+    }
+    return { ...base, symbol: query.symbol };
+  }
+
+  if (query.regex !== undefined) {
+    if (typeof query.regex !== "string" || query.regex.length === 0) {
+      throw new InvalidQueryError("Query \"regex\" must be a non-empty string");
+    }
+    if (query.regexFlags !== undefined && typeof query.regexFlags !== "string") {
+      throw new InvalidQueryError("Query \"regexFlags\" must be a string");
+    }
+    if (query.matchIndex !== undefined && !Number.isInteger(query.matchIndex)) {
+      throw new InvalidQueryError("Query \"matchIndex\" must be an integer");
+    }
+    return {
+      ...base,
+      regex: query.regex,
+      regexFlags: query.regexFlags as string | undefined,
+      matchIndex: query.matchIndex as number | undefined,
+    };
+  }
+
+  if (!Number.isInteger(query.line) || !Number.isInteger(query.column)) {
+    throw new InvalidQueryError("Query needs \"symbol\", \"regex\", or integer \"line\" and \"column\"");
+  }
+
+  return {
+    ...base,
+    line: query.line as number,
+    column: query.column as number,
+  };
+}
+
+/** Validates the `file`, `project` and `overlays` fields shared by every query. */
+export function toBaseQuery(value: unknown): BaseQuery {
+  if (typeof value !== "object" || value === null || Array.isArray(value)) {
+    throw new InvalidQueryError("Query must be a JSON object");
+  }
+
+  const query = value as Record<string, unknown>;
+  if (typeof query.file !== "string" || query.file.length === 0) {
+    throw new InvalidQueryError("Query is missing a \"file\" string");
+  }
+  if (query.project !== undefined && typeof query.project !== "string") {
+    throw new InvalidQueryError("Query \"project\" must be a string");
+  }
+  if (query.overlays !== undefined && !isStringRecord(query.overlays)) {
+    throw new InvalidQueryError("Query \"overlays\" must map file paths to strings");
+  }
+
+  return {
+    file: query.file,
+    project: query.project as string | undefined,
+    overlays: query.overlays as Record<string, string> | undefined,
+  };
+}
+
+function isStringRecord(value: unknown): value is Record<string, string> {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    !Array.isArray(value) &&
+    Object.values(value).every((entry) => typeof entry === "string")
+  );
+}
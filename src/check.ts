@@ -0,0 +1,293 @@
+import fs from "node:fs";
+import path from "node:path";
+import ts from "typescript";
+
+import { toTypeQuery } from "./batch.js";
+import { ErrorInfo, FileNotFoundError, InvalidQueryError, toErrorInfo } from "./errors.js";
+import {
+  collectProperties,
+  DiagnosticInfo,
+  resolveQueryTarget,
+  transformDiagnostic,
+  TYPE_STRING_FORMAT_FLAGS,
+  TypeQuery,
+} from "./picker.js";
+import { ProjectRegistry } from "./project.js";
+import { parseYaml, stringifyYaml } from "./yaml.js";
+
+export interface TypeExpectations {
+  /** Exact `typeString`, as `pickType` reports it. */
+  typeString?: string;
+  /** Property names of the type, in any order. */
+  properties?: string[];
+  /** `true` expects no diagnostics in the file, `false` expects at least one. */
+  noDiagnostics?: boolean;
+}
+
+/** One entry of an assertions file: a query (`file` relative to the assertions file) and its expectations. */
+export type TypeAssertion = TypeQuery & TypeExpectations & { name?: string };
+
+/** An assertions file holds this object, or just the `assertions` array. */
+export interface AssertionsDocument {
+  /** Default `project` for every assertion, relative to the assertions file. */
+  project?: string;
+  assertions: TypeAssertion[];
+}
+
+export interface CheckOptions {
+  /** Rewrite the expectations from the current compiler output instead of comparing, like a snapshot update. */
+  update?: boolean;
+  /** Default project when neither the assertion nor the assertions file names one. */
+  project?: string;
+}
+
+export interface AssertionFailureInfo {
+  expectation: keyof TypeExpectations;
+  expected: string | string[] | boolean;
+  actual: string | string[] | boolean;
+  /** `- expected` and `+ actual` lines, for `typeString`. */
+  diff?: string;
+  /** Expected property names the type does not have. */
+  missing?: string[];
+  /** Property names the type has beyond the expected ones. */
+  unexpected?: string[];
+  /** The file's diagnostics, when `noDiagnostics: true` failed. */
+  diagnostics?: DiagnosticInfo[];
+}
+
+export interface AssertionResultInfo {
+  /** Zero-based position in the assertions file. */
+  index: number;
+  name?: string;
+  file: string;
+  /** The query in short form: `symbol UserService.create`, `regex /createUser/ #0` or `12:5`. */
+  query: string;
+  passed: boolean;
+  /** With `update`, whether the entry's expectations were rewritten. */
+  updated?: boolean;
+  failures: AssertionFailureInfo[];
+  /** Set when the query itself failed, e.g. the symbol no longer exists. */
+  error?: ErrorInfo;
+}
+
+export interface CheckResult {
+  file: string;
+  total: number;
+  passed: number;
+  failed: number;
+  /** Number of assertions whose expectations were rewritten, with `update`. */
+  updated?: number;
+  results: AssertionResultInfo[];
+}
+
+const EXPECTATION_KEYS = ["typeString", "properties", "noDiagnostics"] as const;
+
+/**
+ * Runs every assertion in a JSON or YAML assertions file against the compiler
+ * and reports each one's failures with the expected and actual values. With
+ * `update`, the expectations are rewritten from the current output instead
+ * and the file is saved (YAML comments are not preserved); an assertion
+ * without expectations gets a `typeString`.
+ */
+export function runAssertions(
+  assertionsFile: string,
+  projects = new ProjectRegistry(),
+  options: CheckOptions = {},
+): CheckResult {
+  const file = path.resolve(assertionsFile);
+  if (!fs.existsSync(file)) {
+    throw new FileNotFoundError(file);
+  }
+  const format = /\.ya?ml$/i.test(file) ? "yaml" : "json";
+  const document = parseAssertionsFile(fs.readFileSync(file, "utf8"), format, file);
+  const entries = Array.isArray(document) ? document : document.assertions;
+  const directory = path.dirname(file);
+  const defaultProject = !Array.isArray(document) && typeof document.project === "string"
+    ? path.resolve(directory, document.project)
+    : options.project;
+
+  const results = entries.map((entry, index) =>
+    checkAssertion(entry, index, directory, defaultProject, projects, options.update ?? false),
+  );
+
+  const updated = results.filter((result) => result.updated).length;
+  if (options.update && updated > 0) {
+    fs.writeFileSync(file, format === "yaml" ? stringifyYaml(document) : `${JSON.stringify(document, null, 2)}\n`);
+  }
+
+  const passed = results.filter((result) => result.passed).length;
+  return {
+    file,
+    total: results.length,
+    passed,
+    failed: results.length - passed,
+    updated: options.update ? updated : undefined,
+    results,
+  };
+}
+
+function parseAssertionsFile(
+  text: string,
+  format: "json" | "yaml",
+  file: string,
+): Record<string, unknown>[] | { project?: unknown; assertions: Record<string, unknown>[] } {
+  let value: unknown;
+  if (format === "yaml") {
+    value = parseYaml(text);
+  } else {
+    try {
+      value = JSON.parse(text);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      throw new InvalidQueryError(`Invalid assertions JSON in ${file}: ${message}`, { file });
+    }
+  }
+
+  const entries = Array.isArray(value) ? value : (value as { assertions?: unknown } | null)?.assertions;
+  if (!Array.isArray(entries)) {
+    throw new InvalidQueryError(`${file} must contain an array of assertions or an object with an "assertions" array`, { file });
+  }
+  if (entries.some((entry) => typeof entry !== "object" || entry === null || Array.isArray(entry))) {
+    throw new InvalidQueryError(`Every assertion in ${file} must be an object`, { file });
+  }
+  return value as Record<string, unknown>[] | { project?: unknown; assertions: Record<string, unknown>[] };
+}
+
+/** Checks (or, with `update`, rewrites) one entry in place. */
+function checkAssertion(
+  entry: Record<string, unknown>,
+  index: number,
+  directory: string,
+  defaultProject: string | undefined,
+  projects: ProjectRegistry,
+  update: boolean,
+): AssertionResultInfo {
+  const result: AssertionResultInfo = {
+    index,
+    name: typeof entry.name === "string" ? entry.name : undefined,
+    file: typeof entry.file === "string" ? path.resolve(directory, entry.file) : "",
+    query: describeQuery(entry),
+    passed: false,
+    failures: [],
+  };
+
+  try {
+    const query = toTypeQuery({
+      ...entry,
+      file: result.file,
+      project: typeof entry.project === "string" ? path.resolve(directory, entry.project) : defaultProject,
+    });
+    const expectations = readExpectations(entry);
+    if (EXPECTATION_KEYS.every((key) => expectations[key] === undefined)) {
+      if (!update) {
+        throw new InvalidQueryError("Assertion has no typeString, properties or noDiagnostics expectation; run with --update to record one");
+      }
+      expectations.typeString = "";
+    }
+
+    const actual = evaluateQuery(query, projects, expectations);
+    result.failures = compareExpectations(expectations, actual);
+    if (update) {
+      for (const key of EXPECTATION_KEYS) {
+        if (expectations[key] !== undefined) {
+          entry[key] = actual[key];
+        }
+      }
+      result.updated = result.failures.length > 0;
+      result.failures = [];
+    }
+    result.passed = result.failures.length === 0;
+  } catch (error) {
+    result.error = toErrorInfo(error);
+  }
+  return result;
+}
+
+function readExpectations(entry: Record<string, unknown>): TypeExpectations {
+  const { properties, noDiagnostics } = entry;
+  let { typeString } = entry;
+  // Literal types such as `1`, `true` and `null` read as YAML scalars; they are the type strings as written.
+  if (typeString === null || typeof typeString === "number" || typeof typeString === "boolean") {
+    typeString = String(typeString);
+  }
+  if (typeString !== undefined && typeof typeString !== "string") {
+    throw new InvalidQueryError("Assertion \"typeString\" must be a string");
+  }
+  if (properties !== undefined && (!Array.isArray(properties) || properties.some((name) => typeof name !== "string"))) {
+    throw new InvalidQueryError("Assertion \"properties\" must be an array of property names");
+  }
+  if (noDiagnostics !== undefined && typeof noDiagnostics !== "boolean") {
+    throw new InvalidQueryError("Assertion \"noDiagnostics\" must be a boolean");
+  }
+  return { typeString, properties: properties as string[] | undefined, noDiagnostics };
+}
+
+/** Computes only what the assertion expects; the values match `pickType`'s, without its property limit. */
+function evaluateQuery(
+  query: TypeQuery,
+  projects: ProjectRegistry,
+  expectations: TypeExpectations,
+): Required<TypeExpectations> & { diagnostics: DiagnosticInfo[] } {
+  const { context, checker, sourceFile, node } = resolveQueryTarget(query, projects);
+  const type = checker.getTypeAtLocation(node);
+  const diagnostics = expectations.noDiagnostics !== undefined
+    ? ts.getPreEmitDiagnostics(context.program, sourceFile).map(transformDiagnostic)
+    : [];
+
+  return {
+    typeString: checker.typeToString(type, node, TYPE_STRING_FORMAT_FLAGS),
+    properties: expectations.properties !== undefined
+      ? collectProperties(type, checker, node, Number.POSITIVE_INFINITY).map((property) => property.name)
+      : [],
+    noDiagnostics: diagnostics.length === 0,
+    diagnostics,
+  };
+}
+
+function compareExpectations(
+  expected: TypeExpectations,
+  actual: Required<TypeExpectations> & { diagnostics: DiagnosticInfo[] },
+): AssertionFailureInfo[] {
+  const failures: AssertionFailureInfo[] = [];
+
+  if (expected.typeString !== undefined && expected.typeString !== actual.typeString) {
+    failures.push({
+      expectation: "typeString",
+      expected: expected.typeString,
+      actual: actual.typeString,
+      diff: `- ${expected.typeString}\n+ ${actual.typeString}`,
+    });
+  }
+
+  if (expected.properties !== undefined) {
+    const missing = expected.properties.filter((name) => !actual.properties.includes(name));
+    const unexpected = actual.properties.filter((name) => !expected.properties!.includes(name));
+    if (missing.length > 0 || unexpected.length > 0) {
+      failures.push({ expectation: "properties", expected: expected.properties, actual: actual.properties, missing, unexpected });
+    }
+  }
+
+  if (expected.noDiagnostics !== undefined && expected.noDiagnostics !== actual.noDiagnostics) {
+    const failure: AssertionFailureInfo = {
+      expectation: "noDiagnostics",
+      expected: expected.noDiagnostics,
+      actual: actual.noDiagnostics,
+    };
+    if (expected.noDiagnostics) {
+      failure.diagnostics = actual.diagnostics;
+    }
+    failures.push(failure);
+  }
+
+  return failures;
+}
+
+function describeQuery(entry: Record<string, unknown>): string {
+  if (typeof entry.symbol === "string") {
+    return `symbol ${entry.symbol}`;
+  }
+  if (typeof entry.regex === "string") {
+    return `regex /${entry.regex}/${typeof entry.regexFlags === "string" ? entry.regexFlags : ""} #${entry.matchIndex ?? 0}`;
+  }
+  return `${String(entry.line)}:${String(entry.column)}`;
+}
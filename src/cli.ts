@@ -1,46 +1,270 @@
 #!/usr/bin/env node
-import { readFileSync } from "node:fs";
+import { existsSync, readFileSync } from "node:fs";
 import path from "node:path";
 import process from "node:process";
+import readline from "node:readline";
 import { parseArgs } from "node:util";
 
-import { pickType, PositionQuery, RegexQuery, TypeInfo, TypeQuery } from "./picker.js";
+import { defaultSocketPath, requestFromDaemon } from "./daemon-client.js";
+import { EXIT_CODES, exitCodeFor, InvalidQueryError, toErrorInfo } from "./errors.js";
+import { CHARS_PER_TOKEN, FormatOptions, formatTypeInfo, OUTPUT_FORMATS, OutputFormat } from "./format.js";
+import { readRevisionOverlays } from "./git.js";
+import { SCHEMA_VERSION } from "./schema.js";
+import type { AnnotateQuery } from "./annotate.js";
+import type { AssignableOperand, AssignableQuery } from "./assignable.js";
+import type { ImportQuery } from "./auto-import.js";
+import type { CheckOptions, CheckResult } from "./check.js";
+import type { FileFixes, FixesQuery } from "./code-fixes.js";
+import type { CompletionsOptions } from "./completions.js";
+import type { ExportsQuery } from "./exports.js";
+import type { SearchOptions, SearchQuery } from "./search.js";
+import type { TypeDiffQuery } from "./type-diff.js";
+import type { BaseQuery, PickOptions, PositionQuery, RegexQuery, SymbolQuery, TypeInfo, TypeQuery } from "./picker.js";
+
+type PositionOptionKeys = "line" | "column" | "regex" | "symbol" | "regex-flags" | "index";
+
+/** The project and unsaved contents a query reads `<file>` with. */
+type SourceOptionKeys = "project" | "stdin" | "overlays";
+
+type QueryOptionKeys = PositionOptionKeys | SourceOptionKeys;
+
+type DaemonOptionKeys = "socket" | "no-daemon";
+
+type OutputOptionKeys = "pretty" | "compact" | "help";
 
 type CliOptionKeys =
-  | "line"
-  | "column"
-  | "regex"
-  | "regex-flags"
-  | "index"
-  | "project"
-  | "pretty"
-  | "compact"
-  | "help"
+  | QueryOptionKeys
+  | DaemonOptionKeys
+  | OutputOptionKeys
   | "version"
   | "omit-diagnostics"
   | "omit-properties"
   | "omit-signatures"
-  | "omit-project-diagnostics";
+  | "omit-project-diagnostics"
+  | "batch"
+  | "references"
+  | "fixes"
+  | "expand"
+  | "expand-max-nodes"
+  | "expand-max-chars"
+  | "format"
+  | "max-tokens"
+  | "max-chars";
+
+type ServeOptionKeys = "socket" | "stdio" | "help";
+
+type McpOptionKeys = "help";
+
+type SchemaOptionKeys = "help";
+
+type ExportsOptionKeys = "from" | "project" | DaemonOptionKeys | OutputOptionKeys;
+
+type ImportOptionKeys = "from" | SourceOptionKeys | DaemonOptionKeys | OutputOptionKeys;
+
+type CheckOptionKeys = "update" | "project" | DaemonOptionKeys | OutputOptionKeys;
+
+type FixOptionKeys = SourceOptionKeys | "code" | "line" | "apply" | DaemonOptionKeys | OutputOptionKeys;
+
+type AnnotateOptionKeys = "range" | "symbol" | SourceOptionKeys | DaemonOptionKeys | OutputOptionKeys;
+
+type OperandOptionKeys = "type" | "line" | "column" | "regex" | "index" | "symbol";
+
+type AssignableOptionKeys =
+  | `source-${OperandOptionKeys}`
+  | `target-${OperandOptionKeys}`
+  | "regex-flags"
+  | SourceOptionKeys
+  | DaemonOptionKeys
+  | OutputOptionKeys;
+
+type SearchOptionKeys =
+  | "include"
+  | "regex-flags"
+  | "project"
+  | "overlays"
+  | "skip-comments"
+  | "skip-strings"
+  | "limit"
+  | DaemonOptionKeys
+  | OutputOptionKeys;
+
+type NarrowingOptionKeys = QueryOptionKeys | DaemonOptionKeys | OutputOptionKeys;
+
+type HierarchyOptionKeys = QueryOptionKeys | DaemonOptionKeys | OutputOptionKeys;
+
+type DiffOptionKeys = QueryOptionKeys | "rev" | DaemonOptionKeys | OutputOptionKeys;
+
+type CompletionsOptionKeys = QueryOptionKeys | "limit" | "prefix" | DaemonOptionKeys | OutputOptionKeys;
+
+type OptionSpecs<K extends string> = Record<K, { type: "string" | "boolean" }>;
+
+const POSITION_OPTIONS = {
+  line: { type: "string" },
+  column: { type: "string" },
+  regex: { type: "string" },
+  symbol: { type: "string" },
+  "regex-flags": { type: "string" },
+  index: { type: "string" },
+} as const satisfies OptionSpecs<PositionOptionKeys>;
+
+const SOURCE_OPTIONS = {
+  project: { type: "string" },
+  stdin: { type: "boolean" },
+  overlays: { type: "string" },
+} as const satisfies OptionSpecs<SourceOptionKeys>;
+
+/** `<file>` plus a position, regex match or symbol path, as read by `buildQuery`. */
+const QUERY_OPTIONS = { ...POSITION_OPTIONS, ...SOURCE_OPTIONS } as const satisfies OptionSpecs<QueryOptionKeys>;
+
+const DAEMON_OPTIONS = {
+  socket: { type: "string" },
+  "no-daemon": { type: "boolean" },
+} as const satisfies OptionSpecs<DaemonOptionKeys>;
+
+const OUTPUT_OPTIONS = {
+  pretty: { type: "boolean" },
+  compact: { type: "boolean" },
+  help: { type: "boolean" },
+} as const satisfies OptionSpecs<OutputOptionKeys>;
+
+// Help lines shared by the subcommands that take the matching options.
+const REGEX_HELP = [
+  "  --regex-flags <flags>  Regex flags (defaults to global match)",
+  "  --index <n>            Zero-based index for regex matches (default 0)",
+];
+
+const PROJECT_HELP = "  --project <path>       Path to tsconfig.json or project directory";
+
+const OVERLAYS_HELP = "  --overlays <json>      JSON file mapping paths to unsaved contents to use instead of disk";
+
+const SOURCE_HELP = [
+  PROJECT_HELP,
+  "  --stdin                Use content read from stdin for <file> instead of disk",
+  OVERLAYS_HELP,
+];
+
+const DAEMON_HELP = [
+  "  --socket <path>        Daemon socket to query (default $TSP_SOCKET or a per-user tmp socket)",
+  "  --no-daemon            Always build the program in-process",
+];
+
+const OUTPUT_HELP = [
+  "  --pretty               Pretty-print JSON output (default)",
+  "  --compact              Emit compact JSON output",
+  "  --help                 Show this message",
+];
+
+/** Accepted by every subcommand, so it is taken off the argument list before parsing. */
+const JSON_ERRORS_FLAG = "--json-errors";
+
+async function main() {
+  const args = process.argv.slice(2);
+  const jsonErrors = args.includes(JSON_ERRORS_FLAG);
+  try {
+    await runCommand(args.filter((arg) => arg !== JSON_ERRORS_FLAG));
+  } catch (error) {
+    reportError(error, jsonErrors);
+  }
+}
+
+async function runCommand(args: string[]) {
+  const [command, ...rest] = args;
+  if (command === "serve") {
+    await runServe(rest);
+    return;
+  }
+  if (command === "exports") {
+    await runExports(rest);
+    return;
+  }
+  if (command === "import") {
+    await runImport(rest);
+    return;
+  }
+  if (command === "completions") {
+    await runCompletions(rest);
+    return;
+  }
+  if (command === "assignable") {
+    await runAssignable(rest);
+    return;
+  }
+  if (command === "search") {
+    await runSearch(rest);
+    return;
+  }
+  if (command === "annotate") {
+    await runAnnotate(rest);
+    return;
+  }
+  if (command === "narrowing") {
+    await runNarrowing(rest);
+    return;
+  }
+  if (command === "hierarchy") {
+    await runHierarchy(rest);
+    return;
+  }
+  if (command === "diff") {
+    await runDiff(rest);
+    return;
+  }
+  if (command === "check") {
+    await runCheck(rest);
+    return;
+  }
+  if (command === "fix") {
+    await runFix(rest);
+    return;
+  }
+  if (command === "mcp") {
+    await runMcp(rest);
+    return;
+  }
+  if (command === "schema") {
+    runSchema(rest);
+    return;
+  }
+
+  await runQuery(args);
+}
 
-function main() {
+function reportError(error: unknown, json: boolean): never {
+  // parseArgs rejects unknown or malformed flags with ERR_PARSE_ARGS_* errors.
+  const isUsageError = error instanceof TypeError && String((error as { code?: unknown }).code).startsWith("ERR_PARSE_ARGS");
+  const reported = isUsageError ? new InvalidQueryError(error.message) : error;
+  const info = toErrorInfo(reported);
+  if (json) {
+    process.stdout.write(`${JSON.stringify({ schemaVersion: SCHEMA_VERSION, error: info })}\n`);
+  } else {
+    process.stderr.write(`Error: ${info.message}\n`);
+  }
+  process.exit(exitCodeFor(reported));
+}
+
+async function runQuery(args: string[]) {
   const { values, positionals } = parseArgs({
+    args,
     allowPositionals: true,
     options: {
-      line: { type: "string" },
-      column: { type: "string" },
-      regex: { type: "string" },
-      "regex-flags": { type: "string" },
-      index: { type: "string" },
-      project: { type: "string" },
-      pretty: { type: "boolean" },
-      compact: { type: "boolean" },
-      help: { type: "boolean" },
+      ...QUERY_OPTIONS,
+      ...DAEMON_OPTIONS,
+      ...OUTPUT_OPTIONS,
       version: { type: "boolean" },
       "omit-diagnostics": { type: "boolean" },
       "omit-properties": { type: "boolean" },
       "omit-signatures": { type: "boolean" },
       "omit-project-diagnostics": { type: "boolean" },
-    } satisfies Record<CliOptionKeys, { type: "string" | "boolean" }>,
+      batch: { type: "boolean" },
+      references: { type: "boolean" },
+      fixes: { type: "boolean" },
+      expand: { type: "string" },
+      "expand-max-nodes": { type: "string" },
+      "expand-max-chars": { type: "string" },
+      format: { type: "string" },
+      "max-tokens": { type: "string" },
+      "max-chars": { type: "string" },
+    } satisfies OptionSpecs<CliOptionKeys>,
   });
 
   if (values.version) {
@@ -48,27 +272,677 @@ function main() {
     process.exit(0);
   }
 
+  if (values.batch && !values.help) {
+    await runBatchMode(values);
+    return;
+  }
+
   if (values.help || positionals.length === 0) {
     printHelp(process.argv[1] ?? "tsp");
-    process.exit(values.help ? 0 : 1);
+    process.exit(values.help ? EXIT_CODES.success : EXIT_CODES.invalidQuery);
   }
 
   const file = positionals[0];
-  try {
-    const query = buildQuery(file, values as Partial<Record<CliOptionKeys, string | boolean>>);
-    const result = pickType(query);
-    const transformed = applyOutputFilters(result, values);
-    const pretty = resolvePretty(values);
-    const json = JSON.stringify(transformed, null, pretty ? 2 : 0);
-    process.stdout.write(`${json}\n`);
-  } catch (error) {
-    if (error instanceof Error) {
-      process.stderr.write(`Error: ${error.message}\n`);
-    } else {
-      process.stderr.write(`Unexpected error: ${String(error)}\n`);
+  const query = buildQuery(file, values);
+  const formatOptions = buildFormatOptions(values);
+  const result = await runPickType(query, values);
+  process.stdout.write(`${formatTypeInfo(applyOutputFilters(result, values), formatOptions)}\n`);
+}
+
+async function runBatchMode(values: Record<string, unknown>) {
+  const options = buildPickOptions(values);
+  const formatOptions: FormatOptions = { ...buildFormatOptions(values), pretty: false };
+  if (formatOptions.format !== "json") {
+    throw new InvalidQueryError("--batch only supports --format json");
+  }
+
+  const { runBatch, isBatchError } = await import("./batch.js");
+  const lines = readline.createInterface({ input: process.stdin, crlfDelay: Infinity });
+  let failures = 0;
+
+  for await (const result of runBatch(lines, options)) {
+    if (isBatchError(result)) {
+      failures += 1;
+      process.stdout.write(`${JSON.stringify(result)}\n`);
+      continue;
     }
-    process.exit(1);
+    process.stdout.write(`${formatTypeInfo(applyOutputFilters(result, values), formatOptions)}\n`);
+  }
+
+  process.exitCode = failures > 0 ? EXIT_CODES.batchFailures : EXIT_CODES.success;
+}
+
+async function runServe(args: string[]) {
+  const { values } = parseArgs({
+    args,
+    options: {
+      socket: { type: "string" },
+      stdio: { type: "boolean" },
+      help: { type: "boolean" },
+    } satisfies OptionSpecs<ServeOptionKeys>,
+  });
+
+  if (values.help) {
+    printServeHelp(process.argv[1] ?? "tsp");
+    process.exit(0);
+  }
+
+  const { serveSocket, serveStdio } = await import("./daemon.js");
+  if (values.stdio) {
+    await serveStdio();
+  } else {
+    await serveSocket(values.socket ? path.resolve(values.socket) : defaultSocketPath());
+  }
+}
+
+function runSchema(args: string[]) {
+  const { values } = parseArgs({
+    args,
+    options: {
+      help: { type: "boolean" },
+    } satisfies OptionSpecs<SchemaOptionKeys>,
+  });
+
+  if (values.help) {
+    printSchemaHelp(process.argv[1] ?? "tsp");
+    process.exit(0);
+  }
+
+  const schemaPath = new URL("../schema/type-info.schema.json", import.meta.url);
+  process.stdout.write(readFileSync(schemaPath, "utf8"));
+}
+
+async function runMcp(args: string[]) {
+  const { values } = parseArgs({
+    args,
+    options: {
+      help: { type: "boolean" },
+    } satisfies OptionSpecs<McpOptionKeys>,
+  });
+
+  if (values.help) {
+    printMcpHelp(process.argv[1] ?? "tsp");
+    process.exit(0);
+  }
+
+  const { serveMcp } = await import("./mcp.js");
+  await serveMcp();
+}
+
+async function runExports(args: string[]) {
+  const { values, positionals } = parseArgs({
+    args,
+    allowPositionals: true,
+    options: {
+      from: { type: "string" },
+      project: { type: "string" },
+      ...DAEMON_OPTIONS,
+      ...OUTPUT_OPTIONS,
+    } satisfies OptionSpecs<ExportsOptionKeys>,
+  });
+
+  if (values.help || positionals.length === 0) {
+    printExportsHelp(process.argv[1] ?? "tsp");
+    process.exit(values.help ? EXIT_CODES.success : EXIT_CODES.invalidQuery);
+  }
+
+  const query: ExportsQuery = { module: positionals[0], from: values.from, project: values.project };
+  // A module argument naming a local file is resolved against this process's directory, not the daemon's.
+  const localModule = path.resolve(query.module);
+  const response = await requestFromDaemonUnlessDisabled(
+    "exports",
+    {
+      module: existsSync(localModule) ? localModule : query.module,
+      from: query.from ? path.resolve(query.from) : undefined,
+      project: query.project ? path.resolve(query.project) : undefined,
+    },
+    values,
+  );
+  if (response) {
+    writeJson(response.result, values);
+    return;
+  }
+
+  const { listModuleExports } = await import("./exports.js");
+  writeJson(listModuleExports(query), values);
+}
+
+async function runImport(args: string[]) {
+  const { values, positionals } = parseArgs({
+    args,
+    allowPositionals: true,
+    options: {
+      from: { type: "string" },
+      ...SOURCE_OPTIONS,
+      ...DAEMON_OPTIONS,
+      ...OUTPUT_OPTIONS,
+    } satisfies OptionSpecs<ImportOptionKeys>,
+  });
+
+  if (values.help || positionals.length === 0 || !values.from) {
+    printImportHelp(process.argv[1] ?? "tsp");
+    process.exit(values.help ? EXIT_CODES.success : EXIT_CODES.invalidQuery);
+  }
+
+  const query: ImportQuery = {
+    name: positionals[0],
+    from: values.from,
+    project: values.project,
+    overlays: loadOverlays(values.from, values),
+  };
+
+  const { file, project, overlays } = toAbsoluteQuery({ file: query.from, project: query.project, overlays: query.overlays });
+  const response = await requestFromDaemonUnlessDisabled("import", { name: query.name, from: file, project, overlays }, values);
+  if (response) {
+    writeJson(response.result, values);
+    return;
+  }
+
+  const { findImportCandidates } = await import("./auto-import.js");
+  writeJson(findImportCandidates(query), values);
+}
+
+async function runCompletions(args: string[]) {
+  const { values, positionals } = parseArgs({
+    args,
+    allowPositionals: true,
+    options: {
+      ...QUERY_OPTIONS,
+      limit: { type: "string" },
+      prefix: { type: "string" },
+      ...DAEMON_OPTIONS,
+      ...OUTPUT_OPTIONS,
+    } satisfies OptionSpecs<CompletionsOptionKeys>,
+  });
+
+  if (values.help || positionals.length === 0) {
+    printCompletionsHelp(process.argv[1] ?? "tsp");
+    process.exit(values.help ? EXIT_CODES.success : EXIT_CODES.invalidQuery);
+  }
+
+  const query = buildQuery(positionals[0], values);
+  const options: CompletionsOptions = {
+    limit: values.limit !== undefined ? parseNonNegativeInteger(values.limit, "--limit") : undefined,
+    prefix: values.prefix,
+  };
+
+  const response = await requestFromDaemonUnlessDisabled("completions", { ...toAbsoluteQuery(query), options }, values);
+  if (response) {
+    writeJson(response.result, values);
+    return;
+  }
+
+  const { listCompletions } = await import("./completions.js");
+  writeJson(listCompletions(query, undefined, options), values);
+}
+
+async function runAssignable(args: string[]) {
+  const { values, positionals } = parseArgs({
+    args,
+    allowPositionals: true,
+    options: {
+      "source-type": { type: "string" },
+      "source-line": { type: "string" },
+      "source-column": { type: "string" },
+      "source-regex": { type: "string" },
+      "source-index": { type: "string" },
+      "source-symbol": { type: "string" },
+      "target-type": { type: "string" },
+      "target-line": { type: "string" },
+      "target-column": { type: "string" },
+      "target-regex": { type: "string" },
+      "target-index": { type: "string" },
+      "target-symbol": { type: "string" },
+      "regex-flags": { type: "string" },
+      ...SOURCE_OPTIONS,
+      ...DAEMON_OPTIONS,
+      ...OUTPUT_OPTIONS,
+    } satisfies OptionSpecs<AssignableOptionKeys>,
+  });
+
+  if (values.help || positionals.length === 0) {
+    printAssignableHelp(process.argv[1] ?? "tsp");
+    process.exit(values.help ? EXIT_CODES.success : EXIT_CODES.invalidQuery);
+  }
+
+  const file = positionals[0];
+  const query: AssignableQuery = {
+    file,
+    project: values.project,
+    overlays: loadOverlays(file, values),
+    source: buildOperand("source", values),
+    target: buildOperand("target", values),
+  };
+
+  const response = await requestFromDaemonUnlessDisabled("assignable", toAbsoluteQuery(query), values);
+  if (response) {
+    writeJson(response.result, values);
+    return;
+  }
+
+  const { checkAssignable } = await import("./assignable.js");
+  writeJson(checkAssignable(query), values);
+}
+
+/** Reads `--<role>-type`, `--<role>-line/column`, `--<role>-regex` or `--<role>-symbol`; exactly one form is allowed. */
+function buildOperand(role: "source" | "target", values: Record<string, unknown>): AssignableOperand {
+  const get = (key: OperandOptionKeys) => {
+    const value = values[`${role}-${key}`];
+    return typeof value === "string" ? value : undefined;
+  };
+  const type = get("type");
+  const line = get("line");
+  const column = get("column");
+  const regex = get("regex");
+  const symbol = get("symbol");
+
+  const forms = [type, regex, symbol, line ?? column].filter((value) => value !== undefined);
+  if (forms.length !== 1) {
+    throw new InvalidQueryError(
+      `Provide exactly one of --${role}-type, --${role}-regex, --${role}-symbol, or --${role}-line with --${role}-column`,
+    );
+  }
+  if (type !== undefined) {
+    return { type };
+  }
+  if (symbol !== undefined) {
+    return { symbol };
+  }
+  if (regex !== undefined) {
+    const index = get("index");
+    return {
+      regex,
+      regexFlags: typeof values["regex-flags"] === "string" ? values["regex-flags"] : undefined,
+      matchIndex: index !== undefined ? parseNonNegativeInteger(index, `--${role}-index`) : undefined,
+    };
+  }
+  if (line === undefined || column === undefined) {
+    throw new InvalidQueryError(`--${role}-line and --${role}-column must be provided together`);
+  }
+  return {
+    line: parsePositiveInteger(line, `--${role}-line`),
+    column: parsePositiveInteger(column, `--${role}-column`),
+  };
+}
+
+async function runSearch(args: string[]) {
+  const { values, positionals } = parseArgs({
+    args,
+    allowPositionals: true,
+    options: {
+      include: { type: "string" },
+      "regex-flags": { type: "string" },
+      project: { type: "string" },
+      overlays: { type: "string" },
+      "skip-comments": { type: "boolean" },
+      "skip-strings": { type: "boolean" },
+      limit: { type: "string" },
+      ...DAEMON_OPTIONS,
+      ...OUTPUT_OPTIONS,
+    } satisfies OptionSpecs<SearchOptionKeys>,
+  });
+
+  if (values.help || positionals.length === 0) {
+    printSearchHelp(process.argv[1] ?? "tsp");
+    process.exit(values.help ? EXIT_CODES.success : EXIT_CODES.invalidQuery);
+  }
+
+  const query: SearchQuery = {
+    regex: positionals[0],
+    regexFlags: values["regex-flags"],
+    project: values.project,
+    include: values.include,
+    overlays: loadOverlays("", { overlays: values.overlays }),
+  };
+  const options: SearchOptions = {
+    skipComments: values["skip-comments"] === true,
+    skipStrings: values["skip-strings"] === true,
+    limit: values.limit !== undefined ? parseNonNegativeInteger(values.limit, "--limit") : undefined,
+  };
+
+  // The daemon may run from another directory, so it is told where to search from.
+  const absoluteQuery: SearchQuery = {
+    ...query,
+    directory: process.cwd(),
+    project: query.project ? path.resolve(query.project) : undefined,
+    overlays: query.overlays
+      ? Object.fromEntries(Object.entries(query.overlays).map(([file, text]) => [path.resolve(file), text]))
+      : undefined,
+  };
+  const response = await requestFromDaemonUnlessDisabled("search", { ...absoluteQuery, options }, values);
+  if (response) {
+    writeJson(response.result, values);
+    return;
+  }
+
+  const { searchProject } = await import("./search.js");
+  writeJson(searchProject(query, undefined, options), values);
+}
+
+async function runAnnotate(args: string[]) {
+  const { values, positionals } = parseArgs({
+    args,
+    allowPositionals: true,
+    options: {
+      range: { type: "string" },
+      symbol: { type: "string" },
+      ...SOURCE_OPTIONS,
+      ...DAEMON_OPTIONS,
+      ...OUTPUT_OPTIONS,
+    } satisfies OptionSpecs<AnnotateOptionKeys>,
+  });
+
+  if (values.help || positionals.length === 0) {
+    printAnnotateHelp(process.argv[1] ?? "tsp");
+    process.exit(values.help ? EXIT_CODES.success : EXIT_CODES.invalidQuery);
+  }
+
+  const file = positionals[0];
+  const query: AnnotateQuery = {
+    file,
+    project: values.project,
+    overlays: loadOverlays(file, values),
+    range: values.range !== undefined ? parseLineRange(values.range) : undefined,
+    symbol: values.symbol,
+  };
+
+  const response = await requestFromDaemonUnlessDisabled("annotate", toAbsoluteQuery(query), values);
+  if (response) {
+    writeJson(response.result, values);
+    return;
+  }
+
+  const { annotateFile } = await import("./annotate.js");
+  writeJson(annotateFile(query), values);
+}
+
+async function runNarrowing(args: string[]) {
+  const { values, positionals } = parseArgs({
+    args,
+    allowPositionals: true,
+    options: {
+      ...QUERY_OPTIONS,
+      ...DAEMON_OPTIONS,
+      ...OUTPUT_OPTIONS,
+    } satisfies OptionSpecs<NarrowingOptionKeys>,
+  });
+
+  if (values.help || positionals.length === 0) {
+    printNarrowingHelp(process.argv[1] ?? "tsp");
+    process.exit(values.help ? EXIT_CODES.success : EXIT_CODES.invalidQuery);
+  }
+
+  const query = buildQuery(positionals[0], values);
+  const response = await requestFromDaemonUnlessDisabled("narrowing", toAbsoluteQuery(query), values);
+  if (response) {
+    writeJson(response.result, values);
+    return;
+  }
+
+  const { traceNarrowing } = await import("./narrowing.js");
+  writeJson(traceNarrowing(query), values);
+}
+
+async function runHierarchy(args: string[]) {
+  const { values, positionals } = parseArgs({
+    args,
+    allowPositionals: true,
+    options: {
+      ...QUERY_OPTIONS,
+      ...DAEMON_OPTIONS,
+      ...OUTPUT_OPTIONS,
+    } satisfies OptionSpecs<HierarchyOptionKeys>,
+  });
+
+  if (values.help || positionals.length === 0) {
+    printHierarchyHelp(process.argv[1] ?? "tsp");
+    process.exit(values.help ? EXIT_CODES.success : EXIT_CODES.invalidQuery);
+  }
+
+  const query = buildQuery(positionals[0], values);
+  const response = await requestFromDaemonUnlessDisabled("hierarchy", toAbsoluteQuery(query), values);
+  if (response) {
+    writeJson(response.result, values);
+    return;
+  }
+
+  const { traceHierarchy } = await import("./hierarchy.js");
+  writeJson(traceHierarchy(query), values);
+}
+
+async function runDiff(args: string[]) {
+  const { values, positionals } = parseArgs({
+    args,
+    allowPositionals: true,
+    options: {
+      ...QUERY_OPTIONS,
+      rev: { type: "string" },
+      ...DAEMON_OPTIONS,
+      ...OUTPUT_OPTIONS,
+    } satisfies OptionSpecs<DiffOptionKeys>,
+  });
+
+  if (values.help || positionals.length === 0 || positionals.length > 2) {
+    printDiffHelp(process.argv[1] ?? "tsp");
+    process.exit(values.help ? EXIT_CODES.success : EXIT_CODES.invalidQuery);
+  }
+  if (positionals.length === 2 && values.rev !== undefined) {
+    throw new InvalidQueryError("--rev compares one file with itself at a revision; it cannot be combined with a second file");
   }
+
+  // `tsp diff old.ts new.ts` compares two files; `tsp diff file.ts` compares the file at --rev (default HEAD) with the working tree.
+  const after = buildQuery(positionals[positionals.length - 1], values);
+  const before: TypeQuery = positionals.length === 2
+    ? { ...after, file: positionals[0] }
+    : { ...after, overlays: { ...after.overlays, ...readRevisionOverlays(after.file, values.rev ?? "HEAD") } };
+  const query: TypeDiffQuery = { before, after };
+
+  const response = await requestFromDaemonUnlessDisabled(
+    "diff",
+    { before: toAbsoluteQuery(before), after: toAbsoluteQuery(after) },
+    values,
+  );
+  if (response) {
+    writeJson(response.result, values);
+    return;
+  }
+
+  const { diffTypes } = await import("./type-diff.js");
+  writeJson(diffTypes(query), values);
+}
+
+async function runCheck(args: string[]) {
+  const { values, positionals } = parseArgs({
+    args,
+    allowPositionals: true,
+    options: {
+      update: { type: "boolean" },
+      project: { type: "string" },
+      ...DAEMON_OPTIONS,
+      ...OUTPUT_OPTIONS,
+    } satisfies OptionSpecs<CheckOptionKeys>,
+  });
+
+  if (values.help || positionals.length === 0) {
+    printCheckHelp(process.argv[1] ?? "tsp");
+    process.exit(values.help ? EXIT_CODES.success : EXIT_CODES.invalidQuery);
+  }
+
+  const file = path.resolve(positionals[0]);
+  const options: CheckOptions = {
+    update: values.update,
+    project: values.project ? path.resolve(values.project) : undefined,
+  };
+  const response = await requestFromDaemonUnlessDisabled("check", { file, options }, values);
+  let result: CheckResult;
+  if (response) {
+    result = response.result as CheckResult;
+  } else {
+    const { runAssertions } = await import("./check.js");
+    result = runAssertions(file, undefined, options);
+  }
+  writeJson(result, values);
+  process.exitCode = result.failed > 0 ? EXIT_CODES.assertionFailures : EXIT_CODES.success;
+}
+
+async function runFix(args: string[]) {
+  const { values, positionals } = parseArgs({
+    args,
+    allowPositionals: true,
+    options: {
+      ...SOURCE_OPTIONS,
+      code: { type: "string" },
+      line: { type: "string" },
+      apply: { type: "string" },
+      ...DAEMON_OPTIONS,
+      ...OUTPUT_OPTIONS,
+    } satisfies OptionSpecs<FixOptionKeys>,
+  });
+
+  if (values.help || positionals.length === 0) {
+    printFixHelp(process.argv[1] ?? "tsp");
+    process.exit(values.help ? EXIT_CODES.success : EXIT_CODES.invalidQuery);
+  }
+
+  const file = positionals[0];
+  const overlays = loadOverlays(file, values);
+  const query: FixesQuery = {
+    file,
+    project: values.project,
+    overlays,
+    code: values.code !== undefined ? parseNonNegativeInteger(values.code, "--code") : undefined,
+    line: values.line !== undefined ? parseNonNegativeInteger(values.line, "--line") : undefined,
+  };
+  const response = await requestFromDaemonUnlessDisabled("fixes", toAbsoluteQuery(query), values);
+  const { applyCodeFix, listFileFixes } = await import("./code-fixes.js");
+  const result = response ? (response.result as FileFixes) : listFileFixes(query);
+
+  if (values.apply === undefined) {
+    writeJson(result, values);
+    return;
+  }
+
+  const index = parseNonNegativeInteger(values.apply, "--apply");
+  const chosen = result.fixes[index];
+  if (!chosen) {
+    throw new InvalidQueryError(`No fix with index ${index}; ${result.fixes.length} fix(es) available`);
+  }
+  const files = applyCodeFix(chosen.fix, overlays);
+  writeJson({ file: result.file, project: result.project, applied: chosen, files }, values);
+}
+
+async function runPickType(query: TypeQuery, values: Record<string, unknown>): Promise<TypeInfo> {
+  const options = buildPickOptions(values);
+  const response = await requestFromDaemonUnlessDisabled("pickType", { ...toAbsoluteQuery(query), options }, values);
+  if (response) {
+    return response.result as TypeInfo;
+  }
+
+  return pickTypeInProcess(query, options);
+}
+
+async function requestFromDaemonUnlessDisabled(
+  method: string,
+  params: unknown,
+  values: Record<string, unknown>,
+): Promise<{ result: unknown } | undefined> {
+  if (values["no-daemon"] || process.env.TSP_NO_DAEMON === "1") {
+    return undefined;
+  }
+  const socketPath = typeof values.socket === "string" ? path.resolve(values.socket) : defaultSocketPath();
+  return requestFromDaemon(method, params, socketPath);
+}
+
+/** The daemon may run from another directory, so queries sent to it use absolute paths. */
+function toAbsoluteQuery<Q extends BaseQuery>(query: Q): Q {
+  return {
+    ...query,
+    file: path.resolve(query.file),
+    project: query.project ? path.resolve(query.project) : undefined,
+    overlays: query.overlays
+      ? Object.fromEntries(Object.entries(query.overlays).map(([file, text]) => [path.resolve(file), text]))
+      : undefined,
+  };
+}
+
+async function pickTypeInProcess(query: TypeQuery, options: PickOptions): Promise<TypeInfo> {
+  // Loaded lazily so daemon-backed invocations never pay for the compiler import.
+  const { pickType } = await import("./picker.js");
+  return pickType(query, undefined, options);
+}
+
+function buildPickOptions(values: Record<string, unknown>): PickOptions {
+  const options: PickOptions = {
+    includeReferences: values.references === true,
+    includeFixes: values.fixes === true,
+  };
+
+  if (typeof values.expand === "string") {
+    options.expand = {
+      depth: parseNonNegativeInteger(values.expand, "--expand"),
+      maxNodes: typeof values["expand-max-nodes"] === "string"
+        ? parseNonNegativeInteger(values["expand-max-nodes"], "--expand-max-nodes")
+        : undefined,
+      maxChars: typeof values["expand-max-chars"] === "string"
+        ? parseNonNegativeInteger(values["expand-max-chars"], "--expand-max-chars")
+        : undefined,
+    };
+  }
+
+  return options;
+}
+
+function buildFormatOptions(values: Record<string, unknown>): FormatOptions {
+  const format = typeof values.format === "string" ? values.format : "json";
+  if (!OUTPUT_FORMATS.includes(format as OutputFormat)) {
+    throw new InvalidQueryError(`Invalid --format value: ${format} (expected ${OUTPUT_FORMATS.join(", ")})`);
+  }
+
+  const budgets: number[] = [];
+  if (typeof values["max-chars"] === "string") {
+    budgets.push(parseNonNegativeInteger(values["max-chars"], "--max-chars"));
+  }
+  if (typeof values["max-tokens"] === "string") {
+    budgets.push(parseNonNegativeInteger(values["max-tokens"], "--max-tokens") * CHARS_PER_TOKEN);
+  }
+
+  return {
+    format: format as OutputFormat,
+    maxChars: budgets.length > 0 ? Math.min(...budgets) : undefined,
+    pretty: resolvePretty(values),
+  };
+}
+
+function parseLineRange(value: string): { startLine: number; endLine: number } {
+  const match = /^(\d+)(?::(\d+))?$/.exec(value.trim());
+  if (!match) {
+    throw new InvalidQueryError(`Invalid --range value: ${value} (expected <startLine>:<endLine>)`);
+  }
+  const startLine = Number(match[1]);
+  return { startLine, endLine: match[2] !== undefined ? Number(match[2]) : startLine };
+}
+
+function parseNonNegativeInteger(value: string, flag: string): number {
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < 0) {
+    throw new InvalidQueryError(`Invalid ${flag} value: ${value}`);
+  }
+  return parsed;
+}
+
+/** Lines and columns are 1-based, so 0 is rejected along with negatives and fractions. */
+function parsePositiveInteger(value: string, flag: string): number {
+  const parsed = parseNonNegativeInteger(value, flag);
+  if (parsed === 0) {
+    throw new InvalidQueryError(`Invalid ${flag} value: ${value}`);
+  }
+  return parsed;
+}
+
+function writeJson(value: unknown, values: Record<string, unknown>): void {
+  const pretty = resolvePretty(values);
+  const json = JSON.stringify(value, null, pretty ? 2 : 0);
+  process.stdout.write(`${json}\n`);
 }
 
 function resolvePretty(values: Record<string, unknown>): boolean {
@@ -83,47 +957,64 @@ function resolvePretty(values: Record<string, unknown>): boolean {
 
 function buildQuery(
   file: string,
-  values: Partial<Record<CliOptionKeys, string | boolean>>,
+  values: Partial<Record<QueryOptionKeys, string | boolean>>,
 ): TypeQuery {
   const project = typeof values.project === "string" ? values.project : undefined;
+  const overlays = loadOverlays(file, values);
   const hasRegex = typeof values.regex === "string" && values.regex.length > 0;
+  const hasSymbol = typeof values.symbol === "string" && values.symbol.length > 0;
   const hasLine = typeof values.line === "string";
   const hasColumn = typeof values.column === "string";
 
+  if (hasSymbol) {
+    if (hasRegex || hasLine || hasColumn) {
+      throw new InvalidQueryError("--symbol cannot be combined with --regex or --line/--column");
+    }
+    const symbolQuery: SymbolQuery = {
+      file,
+      project,
+      overlays,
+      symbol: values.symbol as string,
+    };
+    return symbolQuery;
+  }
+
   if (hasRegex) {
     const regexQuery: RegexQuery = {
       file,
       project,
+      overlays,
       regex: values.regex as string,
       regexFlags: typeof values["regex-flags"] === "string" ? (values["regex-flags"] as string) : undefined,
       matchIndex: typeof values.index === "string" ? Number(values.index) : undefined,
     };
 
     if (regexQuery.matchIndex !== undefined && Number.isNaN(regexQuery.matchIndex)) {
-      throw new Error(`Invalid regex match index: ${values.index}`);
+      throw new InvalidQueryError(`Invalid regex match index: ${values.index}`);
     }
 
     return regexQuery;
   }
 
   if (hasLine !== hasColumn) {
-    throw new Error("Line and column must be provided together");
+    throw new InvalidQueryError("Line and column must be provided together");
   }
 
   if (!hasLine || !hasColumn) {
-    throw new Error("Provide either --regex or both --line and --column");
+    throw new InvalidQueryError("Provide --symbol, --regex, or both --line and --column");
   }
 
   const line = Number(values.line);
   const column = Number(values.column);
 
   if (Number.isNaN(line) || Number.isNaN(column)) {
-    throw new Error(`Invalid line or column: line=${values.line}, column=${values.column}`);
+    throw new InvalidQueryError(`Invalid line or column: line=${values.line}, column=${values.column}`);
   }
 
   const positionQuery: PositionQuery = {
     file,
     project,
+    overlays,
     line,
     column,
   };
@@ -131,6 +1022,38 @@ function buildQuery(
   return positionQuery;
 }
 
+function loadOverlays(
+  file: string,
+  values: Partial<Record<QueryOptionKeys, string | boolean>>,
+): Record<string, string> | undefined {
+  const overlays: Record<string, string> = {};
+
+  if (typeof values.overlays === "string") {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(readFileSync(values.overlays, "utf8"));
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error);
+      throw new InvalidQueryError(`Could not read overlay file ${values.overlays}: ${reason}`, { overlays: values.overlays });
+    }
+    if (typeof parsed !== "object" || parsed === null || Array.isArray(parsed)) {
+      throw new InvalidQueryError(`Overlay file must contain a JSON object of path → text: ${values.overlays}`);
+    }
+    for (const [overlayFile, text] of Object.entries(parsed)) {
+      if (typeof text !== "string") {
+        throw new InvalidQueryError(`Overlay for ${overlayFile} must be a string`);
+      }
+      overlays[overlayFile] = text;
+    }
+  }
+
+  if (values.stdin) {
+    overlays[file] = readFileSync(0, "utf8");
+  }
+
+  return Object.keys(overlays).length > 0 ? overlays : undefined;
+}
+
 function applyOutputFilters(result: TypeInfo, values: Record<string, unknown>): TypeInfo {
   const clone: TypeInfo = {
     ...result,
@@ -150,10 +1073,16 @@ function applyOutputFilters(result: TypeInfo, values: Record<string, unknown>):
 
   if (values["omit-properties"]) {
     clone.properties = [];
+    if (clone.expectedType) {
+      clone.expectedType = { ...clone.expectedType, properties: [] };
+    }
   }
 
   if (values["omit-signatures"]) {
     clone.signatures = [];
+    if (clone.expectedType) {
+      clone.expectedType = { ...clone.expectedType, signatures: [] };
+    }
   }
 
   return clone;
@@ -162,23 +1091,354 @@ function applyOutputFilters(result: TypeInfo, values: Record<string, unknown>):
 function printHelp(invokedAs: string): void {
   const bin = path.basename(invokedAs);
   const lines = [
-    `${bin} <file> (--line <n> --column <n> | --regex <pattern>) [options]`,
+    `${bin} <file> (--line <n> --column <n> | --regex <pattern> | --symbol <path>) [options]`,
+    `${bin} --batch [options] < queries.jsonl`,
+    `${bin} exports <file-or-specifier> [--from <file>] [--project <path>]`,
+    `${bin} import <name> --from <file>`,
+    `${bin} completions <file> (--line <n> --column <n> | --regex <pattern>) [--limit <n>]`,
+    `${bin} assignable <file> (--source-type <type> | --source-regex <pattern> | …) (--target-type <type> | …)`,
+    `${bin} search <regex> [--include <glob>] [--skip-comments] [--skip-strings] [--limit <n>]`,
+    `${bin} annotate <file> [--range <start>:<end> | --symbol <path>]`,
+    `${bin} narrowing <file> (--line <n> --column <n> | --regex <pattern>)`,
+    `${bin} hierarchy <file> (--line <n> --column <n> | --regex <pattern> | --symbol <path>)`,
+    `${bin} diff <file> [<new-file>] --symbol <path> [--rev <revision>]`,
+    `${bin} check <assertions.json|yaml> [--update]`,
+    `${bin} fix <file> [--code <n>] [--line <n>] [--apply <index>]`,
+    `${bin} serve [--socket <path> | --stdio]`,
+    `${bin} mcp`,
+    `${bin} schema`,
     "",
     "Options:",
     "  --line <n>             1-based line number of the target token",
     "  --column <n>           1-based column number of the target token",
     "  --regex <pattern>      Regex pattern to match in the file",
-    "  --regex-flags <flags>  Regex flags (defaults to global match)",
-    "  --index <n>            Zero-based index for regex matches (default 0)",
-    "  --project <path>       Path to tsconfig.json or project directory",
+    ...REGEX_HELP,
+    "  --symbol <path>        Exported/top-level symbol path, e.g. UserService.create or Config#options.timeout",
+    PROJECT_HELP,
     "  --pretty               Pretty-print JSON output (default)",
     "  --compact              Emit compact JSON output",
+    "  --format <format>      Output format: json (default), markdown, or text",
+    "  --max-tokens <n>       Approximate token budget; lower-priority sections are truncated first",
+    "  --max-chars <n>        Character budget, like --max-tokens",
     "  --omit-diagnostics     Exclude TypeScript diagnostics from the result",
     "  --omit-properties      Exclude property summaries from the result",
     "  --omit-signatures      Exclude signatures from the result",
     "  --omit-project-diagnostics  Exclude project-wide diagnostics",
+    "  --references           Include every reference to the resolved symbol across the project",
+    "  --fixes                Attach code fixes (as text edits) to each diagnostic in <file>",
+    "  --expand <depth>       Include a recursive expansion of the type, <depth> levels deep",
+    "  --expand-max-nodes <n> Node budget for --expand (default 250)",
+    "  --expand-max-chars <n> Character budget for --expand (default 12000)",
+    "  --stdin                Type-check <file> using content read from stdin instead of disk",
+    OVERLAYS_HELP,
+    ...DAEMON_HELP,
+    "  --batch                Read JSON Lines queries from stdin and emit one result per line",
+    "  --json-errors          Report failures as a JSON object on stdout (any subcommand)",
     "  --version              Print the CLI version",
     "  --help                 Show this message",
+    "",
+    "Exit codes: 0 success, 1 internal error, 2 invalid query, 3 file or module not found,",
+    "4 project or tsconfig error, 5 no match or symbol not found, 6 daemon error,",
+    "7 --batch finished with failed queries, 8 tsp check finished with failed assertions.",
+  ];
+
+  process.stdout.write(`${lines.join("\n")}\n`);
+}
+
+function printExportsHelp(invokedAs: string): void {
+  const bin = path.basename(invokedAs);
+  const lines = [
+    `${bin} exports <file-or-specifier> [--from <file>] [options]`,
+    "",
+    "Lists every export of a module with its kind, type, signatures and declarations.",
+    "Re-exports and export * are followed to the module that declares them.",
+    "",
+    "Options:",
+    "  --from <file>          File to resolve a module specifier from (required unless the argument is a file)",
+    PROJECT_HELP,
+    ...DAEMON_HELP,
+    ...OUTPUT_HELP,
+  ];
+
+  process.stdout.write(`${lines.join("\n")}\n`);
+}
+
+function printImportHelp(invokedAs: string): void {
+  const bin = path.basename(invokedAs);
+  const lines = [
+    `${bin} import <name> --from <file> [options]`,
+    "",
+    "Lists the modules that export <name> and can be imported from <file>, ranked, with",
+    "the import statement and the edits that add it. Module specifiers follow the project's",
+    "paths, baseUrl and moduleResolution settings.",
+    "",
+    "Options:",
+    "  --from <file>          File the import is added to (required)",
+    ...SOURCE_HELP,
+    ...DAEMON_HELP,
+    ...OUTPUT_HELP,
+  ];
+
+  process.stdout.write(`${lines.join("\n")}\n`);
+}
+
+function printCheckHelp(invokedAs: string): void {
+  const bin = path.basename(invokedAs);
+  const lines = [
+    `${bin} check <assertions-file> [--update] [options]`,
+    "",
+    "Runs the type assertions in a JSON or YAML file and reports each failure with the",
+    "expected and actual values. Each assertion is a query (file, plus line/column, regex or",
+    "symbol; paths relative to the assertions file) with an expected typeString, property",
+    "names, and/or noDiagnostics. Exits with 8 when an assertion fails.",
+    "",
+    "Options:",
+    "  --update               Rewrite the expectations from the current compiler output",
+    "  --project <path>       Default tsconfig.json for assertions that name no project",
+    ...DAEMON_HELP,
+    ...OUTPUT_HELP,
+  ];
+
+  process.stdout.write(`${lines.join("\n")}\n`);
+}
+
+function printFixHelp(invokedAs: string): void {
+  const bin = path.basename(invokedAs);
+  const lines = [
+    `${bin} fix <file> [--code <n>] [--line <n>] [--apply <index>] [options]`,
+    "",
+    "Lists the code fixes available for the diagnostics in <file> as numbered text edits.",
+    "With --apply <index> the chosen fix is written to disk and the edited files are reported.",
+    "",
+    "Options:",
+    "  --code <n>             Only fixes for diagnostics with this TypeScript error code",
+    "  --line <n>             Only fixes for diagnostics starting on this 1-based line",
+    "  --apply <index>        Apply the fix with this index (from a previous listing with the same filters)",
+    PROJECT_HELP,
+    "  --stdin                Use content read from stdin for <file>; --apply writes the fixed text to <file>",
+    OVERLAYS_HELP,
+    ...DAEMON_HELP,
+    ...OUTPUT_HELP,
+  ];
+
+  process.stdout.write(`${lines.join("\n")}\n`);
+}
+
+function printAssignableHelp(invokedAs: string): void {
+  const bin = path.basename(invokedAs);
+  const lines = [
+    `${bin} assignable <file> <source> <target> [options]`,
+    "",
+    "Reports whether the source type is assignable to the target type and, if not, the",
+    "compiler's elaborated error chain. Each side is a type expression evaluated at the end",
+    "of <file>, or the type at a position, regex match or symbol path in <file>.",
+    "",
+    "Operands (replace source with target for the other side):",
+    "  --source-type <type>     Type expression, e.g. 'Partial<User>' or 'typeof defaults'",
+    "  --source-line <n>        1-based line of the source expression (with --source-column)",
+    "  --source-column <n>      1-based column of the source expression",
+    "  --source-regex <pattern> Regex locating the source expression",
+    "  --source-index <n>       Zero-based index for --source-regex matches (default 0)",
+    "  --source-symbol <path>   Symbol path of the source, e.g. UserService.create",
+    "",
+    "Options:",
+    "  --regex-flags <flags>  Regex flags for both regex operands (g is always added)",
+    ...SOURCE_HELP,
+    ...DAEMON_HELP,
+    ...OUTPUT_HELP,
+  ];
+
+  process.stdout.write(`${lines.join("\n")}\n`);
+}
+
+function printSearchHelp(invokedAs: string): void {
+  const bin = path.basename(invokedAs);
+  const lines = [
+    `${bin} search <regex> [--include <glob>] [options]`,
+    "",
+    "Runs <regex> over every file of the project (and the projects it references) and reports",
+    "the type at each match. The project is the nearest tsconfig.json, or --project.",
+    "",
+    "Options:",
+    "  --include <glob>       Only search files matching <glob>, relative to the working directory",
+    "                         (supports **, *, ? and {a,b}), e.g. 'src/**/*.ts'",
+    "  --regex-flags <flags>  Regex flags (g is always added)",
+    PROJECT_HELP,
+    "  --skip-comments        Ignore matches inside comments",
+    "  --skip-strings         Ignore matches inside string and template literals",
+    "  --limit <n>            Maximum number of matches to report (default 100); total counts all",
+    OVERLAYS_HELP,
+    ...DAEMON_HELP,
+    ...OUTPUT_HELP,
+  ];
+
+  process.stdout.write(`${lines.join("\n")}\n`);
+}
+
+function printAnnotateHelp(invokedAs: string): void {
+  const bin = path.basename(invokedAs);
+  const lines = [
+    `${bin} annotate <file> [--range <start>:<end> | --symbol <path>] [options]`,
+    "",
+    "Lists the type of every variable, parameter, class property, call result and function",
+    "return in the file, a line range, or one symbol's declaration — inlay hints as JSON.",
+    "",
+    "Options:",
+    "  --range <start>:<end>  1-based, inclusive line range (a single line with --range <n>)",
+    "  --symbol <path>        Annotate this symbol's declaration, e.g. UserService.create",
+    ...SOURCE_HELP,
+    ...DAEMON_HELP,
+    ...OUTPUT_HELP,
+  ];
+
+  process.stdout.write(`${lines.join("\n")}\n`);
+}
+
+function printNarrowingHelp(invokedAs: string): void {
+  const bin = path.basename(invokedAs);
+  const lines = [
+    `${bin} narrowing <file> (--line <n> --column <n> | --regex <pattern> | --symbol <path>) [options]`,
+    "",
+    "Lists every reference to the variable or parameter at the position, within its function,",
+    "with the flow-narrowed type at each one and the guard or assignment that narrowed it.",
+    "",
+    "Options:",
+    "  --line <n>             1-based line number of the variable or parameter",
+    "  --column <n>           1-based column number of the variable or parameter",
+    "  --regex <pattern>      Regex pattern to match in the file",
+    ...REGEX_HELP,
+    "  --symbol <path>        Top-level variable, e.g. config",
+    ...SOURCE_HELP,
+    ...DAEMON_HELP,
+    ...OUTPUT_HELP,
+  ];
+
+  process.stdout.write(`${lines.join("\n")}\n`);
+}
+
+function printHierarchyHelp(invokedAs: string): void {
+  const bin = path.basename(invokedAs);
+  const lines = [
+    `${bin} hierarchy <file> (--line <n> --column <n> | --regex <pattern> | --symbol <path>) [options]`,
+    "",
+    "Lists the supertypes of the class, interface or type alias at the position (extends and",
+    "implements, transitively) and its subtypes across the project: subclasses, implementing",
+    "classes, extending interfaces and object literals typed as it.",
+    "",
+    "Options:",
+    "  --line <n>             1-based line number of the type's name or a reference to it",
+    "  --column <n>           1-based column number of the type's name or a reference to it",
+    "  --regex <pattern>      Regex pattern to match in the file",
+    ...REGEX_HELP,
+    "  --symbol <path>        Exported or top-level type, e.g. Repository",
+    ...SOURCE_HELP,
+    ...DAEMON_HELP,
+    ...OUTPUT_HELP,
+  ];
+
+  process.stdout.write(`${lines.join("\n")}\n`);
+}
+
+function printDiffHelp(invokedAs: string): void {
+  const bin = path.basename(invokedAs);
+  const lines = [
+    `${bin} diff <file> (--symbol <path> | --regex <pattern> | --line <n> --column <n>) [--rev <revision>] [options]`,
+    `${bin} diff <old-file> <new-file> (--symbol <path> | --regex <pattern> | --line <n> --column <n>) [options]`,
+    "",
+    "Compares the type of a symbol in two versions of the code and lists each structural change",
+    "(union members, properties, signatures, parameters, return types) as breaking or not.",
+    "With one file, the old version is the file at --rev (default HEAD), read with git show;",
+    "other TypeScript files changed since the revision are read at the revision too.",
+    "",
+    "Options:",
+    "  --symbol <path>        Exported or top-level symbol path, e.g. UserService.create",
+    "  --regex <pattern>      Regex pattern to match in both versions",
+    ...REGEX_HELP,
+    "  --line <n>             1-based line number, used in both versions",
+    "  --column <n>           1-based column number, used in both versions",
+    "  --rev <revision>       Git revision of the old version (default HEAD)",
+    PROJECT_HELP,
+    "  --stdin                Use content read from stdin for the new <file> instead of disk",
+    OVERLAYS_HELP,
+    ...DAEMON_HELP,
+    ...OUTPUT_HELP,
+  ];
+
+  process.stdout.write(`${lines.join("\n")}\n`);
+}
+
+function printCompletionsHelp(invokedAs: string): void {
+  const bin = path.basename(invokedAs);
+  const lines = [
+    `${bin} completions <file> (--line <n> --column <n> | --regex <pattern>) [options]`,
+    "",
+    "Lists the completions offered at a position, each with its kind, type and any auto-import.",
+    "With --regex or --symbol the position is the end of the match, e.g. --regex 'user\\.'.",
+    "",
+    "Options:",
+    "  --line <n>             1-based line number of the cursor",
+    "  --column <n>           1-based column number of the cursor",
+    "  --regex <pattern>      Regex pattern; completions are requested at the end of the match",
+    ...REGEX_HELP,
+    "  --symbol <path>        Symbol path; completions are requested at the end of its name",
+    PROJECT_HELP,
+    "  --prefix <text>        Only include entries starting with <text> (case-insensitive)",
+    "  --limit <n>            Maximum number of entries to return (default 100)",
+    "  --stdin                Use content read from stdin for <file> instead of disk",
+    OVERLAYS_HELP,
+    ...DAEMON_HELP,
+    ...OUTPUT_HELP,
+  ];
+
+  process.stdout.write(`${lines.join("\n")}\n`);
+}
+
+function printSchemaHelp(invokedAs: string): void {
+  const bin = path.basename(invokedAs);
+  const lines = [
+    `${bin} schema`,
+    "",
+    "Prints the JSON Schema (draft 2020-12) for query results. $defs/BatchError describes",
+    "--batch error lines. Every result carries the schemaVersion it conforms to.",
+    "",
+    "Options:",
+    "  --help                 Show this message",
+  ];
+
+  process.stdout.write(`${lines.join("\n")}\n`);
+}
+
+function printMcpHelp(invokedAs: string): void {
+  const bin = path.basename(invokedAs);
+  const lines = [
+    `${bin} mcp`,
+    "",
+    "Runs a Model Context Protocol server over stdin/stdout. Tools:",
+    "  pick_type_at_position  Type information at a 1-based line and column",
+    "  pick_type_by_regex     Type information at a regex match",
+    "  project_diagnostics    Diagnostics for a file and its whole project",
+    "",
+    "Programs stay warm between tool calls for the lifetime of the server.",
+    "",
+    "Options:",
+    "  --help                 Show this message",
+  ];
+
+  process.stdout.write(`${lines.join("\n")}\n`);
+}
+
+function printServeHelp(invokedAs: string): void {
+  const bin = path.basename(invokedAs);
+  const lines = [
+    `${bin} serve [--socket <path> | --stdio]`,
+    "",
+    "Keeps one language service per tsconfig warm and answers JSON Lines requests",
+    "of the form {\"id\":1,\"method\":\"pickType\",\"params\":<query>}.",
+    "",
+    "Options:",
+    "  --socket <path>        Unix socket to listen on (default $TSP_SOCKET or a per-user tmp socket)",
+    "  --stdio                Serve requests over stdin/stdout instead of a socket",
+    "  --help                 Show this message",
   ];
 
   process.stdout.write(`${lines.join("\n")}\n`);
@@ -190,4 +1450,4 @@ function printVersion(): void {
   process.stdout.write(`${pkg.version ?? "0.0.0"}\n`);
 }
 
-main();
+void main();
@@ -0,0 +1,210 @@
+import fs from "node:fs";
+import path from "node:path";
+import ts from "typescript";
+
+import { DiagnosticInfo, loadQueryFile, resolveOverlays, transformDiagnostic } from "./picker.js";
+import { ProgramContext, ProjectRegistry } from "./project.js";
+
+export interface TextEditInfo {
+  file: string;
+  line: number;
+  column: number;
+  endLine: number;
+  endColumn: number;
+  newText: string;
+  /** Set when the edit creates the file. */
+  isNewFile?: boolean;
+}
+
+export interface CodeFixInfo {
+  /** Language service fix name, e.g. `import`, `fixMissingMember`, `spelling`. */
+  fixName: string;
+  description: string;
+  edits: TextEditInfo[];
+}
+
+export interface FixesQuery {
+  file: string;
+  project?: string;
+  overlays?: Record<string, string>;
+  /** Only fixes for diagnostics with this code. */
+  code?: number;
+  /** Only fixes for diagnostics starting on this 1-based line. */
+  line?: number;
+}
+
+export interface FileFixInfo {
+  /** Zero-based index to pass to `tsp fix --apply`. */
+  index: number;
+  diagnostic: DiagnosticInfo;
+  fix: CodeFixInfo;
+}
+
+export interface FileFixes {
+  file: string;
+  project?: string;
+  fixes: FileFixInfo[];
+}
+
+/** Formatting for inserted code, shared by every command that asks the language service for edits. */
+export const FORMAT_SETTINGS: ts.FormatCodeSettings = {
+  ...ts.getDefaultFormatCodeSettings(),
+  indentSize: 2,
+  tabSize: 2,
+  convertTabsToSpaces: true,
+};
+
+/** The module an auto-import completion entry would import from; other entries have none. */
+export function getAutoImportSpecifier(entry: ts.CompletionEntry): string | undefined {
+  return entry.data?.moduleSpecifier;
+}
+
+const FIX_PREFERENCES: ts.UserPreferences = {
+  importModuleSpecifierEnding: "auto",
+  includeCompletionsForModuleExports: true,
+};
+
+/** Code fixes the language service offers for `diagnostic`, as concrete text edits. */
+export function collectCodeFixes(context: ProgramContext, diagnostic: ts.Diagnostic): CodeFixInfo[] {
+  if (!diagnostic.file || typeof diagnostic.start !== "number") {
+    return [];
+  }
+
+  const start = diagnostic.start;
+  const end = start + (diagnostic.length ?? 0);
+  let actions: readonly ts.CodeFixAction[];
+  try {
+    actions = context.languageService.getCodeFixesAtPosition(
+      diagnostic.file.fileName,
+      start,
+      end,
+      [diagnostic.code],
+      FORMAT_SETTINGS,
+      FIX_PREFERENCES,
+    );
+  } catch {
+    // Some fix providers throw on partially written code; treat that as "no fixes".
+    return [];
+  }
+
+  return actions
+    .filter((action) => action.changes.length > 0)
+    .map((action) => ({
+      fixName: action.fixName,
+      description: action.description,
+      edits: action.changes.flatMap((change) => describeChanges(change, context.program)),
+    }));
+}
+
+/**
+ * Lists every code fix available for the diagnostics in `query.file`, numbered
+ * in diagnostic order so a fix can be chosen by index.
+ */
+export function listFileFixes(query: FixesQuery, projects = new ProjectRegistry()): FileFixes {
+  const { context, sourceFile } = loadQueryFile(query, projects);
+
+  const fixes: FileFixInfo[] = [];
+  for (const diagnostic of ts.getPreEmitDiagnostics(context.program, sourceFile)) {
+    if (query.code !== undefined && diagnostic.code !== query.code) {
+      continue;
+    }
+    if (query.line !== undefined) {
+      if (typeof diagnostic.start !== "number") {
+        continue;
+      }
+      const { line } = sourceFile.getLineAndCharacterOfPosition(diagnostic.start);
+      if (line + 1 !== query.line) {
+        continue;
+      }
+    }
+
+    const info = transformDiagnostic(diagnostic);
+    for (const fix of collectCodeFixes(context, diagnostic)) {
+      fixes.push({ index: fixes.length, diagnostic: info, fix });
+    }
+  }
+
+  return {
+    file: path.normalize(sourceFile.fileName),
+    project: context.configPath,
+    fixes,
+  };
+}
+
+/**
+ * Applies `fix` to the files on disk (or to `overlays` when the file has one)
+ * and writes the results. Returns the files that were written.
+ */
+export function applyCodeFix(fix: CodeFixInfo, overlays?: Record<string, string>): string[] {
+  const resolvedOverlays = resolveOverlays(overlays);
+  const editsByFile = new Map<string, TextEditInfo[]>();
+  for (const edit of fix.edits) {
+    const edits = editsByFile.get(edit.file) ?? [];
+    edits.push(edit);
+    editsByFile.set(edit.file, edits);
+  }
+
+  for (const [file, edits] of editsByFile) {
+    const original = resolvedOverlays.get(file) ?? (fs.existsSync(file) ? fs.readFileSync(file, "utf8") : "");
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    fs.writeFileSync(file, applyEdits(original, edits));
+  }
+
+  return Array.from(editsByFile.keys());
+}
+
+/** Converts a language service file change into 1-based text edits. */
+export function describeChanges(change: ts.FileTextChanges, program: ts.Program): TextEditInfo[] {
+  const file = path.normalize(change.fileName);
+  const sourceFile = program.getSourceFile(change.fileName);
+
+  return change.textChanges.map((textChange) => {
+    const start = toLineAndColumn(sourceFile, textChange.span.start);
+    const end = toLineAndColumn(sourceFile, textChange.span.start + textChange.span.length);
+    const edit: TextEditInfo = {
+      file,
+      line: start.line,
+      column: start.column,
+      endLine: end.line,
+      endColumn: end.column,
+      newText: textChange.newText,
+    };
+    if (change.isNewFile) {
+      edit.isNewFile = true;
+    }
+    return edit;
+  });
+}
+
+function toLineAndColumn(sourceFile: ts.SourceFile | undefined, offset: number): { line: number; column: number } {
+  if (!sourceFile) {
+    return { line: 1, column: 1 };
+  }
+  const { line, character } = sourceFile.getLineAndCharacterOfPosition(offset);
+  return { line: line + 1, column: character + 1 };
+}
+
+function applyEdits(text: string, edits: TextEditInfo[]): string {
+  const lineStarts = [0];
+  for (let index = text.indexOf("\n"); index !== -1; index = text.indexOf("\n", index + 1)) {
+    lineStarts.push(index + 1);
+  }
+  const toOffset = (line: number, column: number) =>
+    line - 1 < lineStarts.length ? lineStarts[line - 1] + column - 1 : text.length;
+
+  // Apply from the end of the file so earlier offsets stay valid.
+  const spans = edits
+    .map((edit, index) => ({
+      index,
+      start: toOffset(edit.line, edit.column),
+      end: toOffset(edit.endLine, edit.endColumn),
+      newText: edit.newText,
+    }))
+    .sort((a, b) => b.start - a.start || b.index - a.index);
+
+  let result = text;
+  for (const span of spans) {
+    result = result.slice(0, span.start) + span.newText + result.slice(span.end);
+  }
+  return result;
+}
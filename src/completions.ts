@@ -0,0 +1,143 @@
+import path from "node:path";
+import ts from "typescript";
+
+import { getAutoImportSpecifier } from "./code-fixes.js";
+import { resolveQueryTarget, TYPE_STRING_FORMAT_FLAGS, TypeQuery } from "./picker.js";
+import { ProjectRegistry } from "./project.js";
+
+export interface CompletionsOptions {
+  /** Maximum number of entries to return (default 100). `total` still counts every entry. */
+  limit?: number;
+  /** Only return entries whose name starts with this prefix (case-insensitive). */
+  prefix?: string;
+}
+
+export interface CompletionEntryInfo {
+  name: string;
+  kind: string;
+  type?: string;
+  optional: boolean;
+  deprecated: boolean;
+  /** Set when accepting the entry requires adding an import. */
+  autoImport?: {
+    moduleSpecifier: string;
+  };
+  insertText?: string;
+}
+
+export interface CompletionsResult {
+  file: string;
+  project?: string;
+  position: {
+    line: number;
+    column: number;
+    offset: number;
+  };
+  isMemberCompletion: boolean;
+  isGlobalCompletion: boolean;
+  isNewIdentifierLocation: boolean;
+  total: number;
+  entries: CompletionEntryInfo[];
+}
+
+const DEFAULT_COMPLETION_LIMIT = 100;
+
+const COMPLETION_PREFERENCES: ts.GetCompletionsAtPositionOptions = {
+  includeCompletionsForModuleExports: true,
+  includeCompletionsWithInsertText: true,
+  includeCompletionsForImportStatements: true,
+  includeAutomaticOptionalChainCompletions: true,
+};
+
+/**
+ * Returns the completion entries the language service offers at the query
+ * position. For regex and symbol queries the position is the end of the match,
+ * which is where an editor cursor would sit after typing it (e.g. `user\.`).
+ */
+export function listCompletions(
+  query: TypeQuery,
+  projects = new ProjectRegistry(),
+  options: CompletionsOptions = {},
+): CompletionsResult {
+  const { context, checker, sourceFile, resolution } = resolveQueryTarget(query, projects);
+  const position = resolution.position + resolution.matchedText.length;
+  const { line, character } = sourceFile.getLineAndCharacterOfPosition(position);
+
+  const completions = context.languageService.getCompletionsAtPosition(
+    sourceFile.fileName,
+    position,
+    COMPLETION_PREFERENCES,
+  );
+
+  const prefix = options.prefix?.toLowerCase();
+  const entries = (completions?.entries ?? [])
+    .filter((entry) => !prefix || entry.name.toLowerCase().startsWith(prefix))
+    .sort((a, b) => a.sortText.localeCompare(b.sortText) || a.name.localeCompare(b.name));
+  const limit = options.limit ?? DEFAULT_COMPLETION_LIMIT;
+  const location = findTokenAtOrBefore(sourceFile, position);
+
+  return {
+    file: path.normalize(sourceFile.fileName),
+    project: context.configPath,
+    position: {
+      line: line + 1,
+      column: character + 1,
+      offset: position,
+    },
+    isMemberCompletion: completions?.isMemberCompletion ?? false,
+    isGlobalCompletion: completions?.isGlobalCompletion ?? false,
+    isNewIdentifierLocation: completions?.isNewIdentifierLocation ?? false,
+    total: entries.length,
+    entries: entries.slice(0, limit).map((entry) =>
+      describeEntry(entry, context.languageService, checker, sourceFile, position, location),
+    ),
+  };
+}
+
+function describeEntry(
+  entry: ts.CompletionEntry,
+  languageService: ts.LanguageService,
+  checker: ts.TypeChecker,
+  sourceFile: ts.SourceFile,
+  position: number,
+  location: ts.Node,
+): CompletionEntryInfo {
+  const modifiers = new Set((entry.kindModifiers ?? "").split(",").filter(Boolean));
+  const info: CompletionEntryInfo = {
+    name: entry.name,
+    kind: entry.kind,
+    optional: modifiers.has(ts.ScriptElementKindModifier.optionalModifier),
+    deprecated: modifiers.has(ts.ScriptElementKindModifier.deprecatedModifier),
+  };
+
+  const symbol = languageService.getCompletionEntrySymbol(sourceFile.fileName, position, entry.name, entry.source);
+  if (symbol) {
+    const type = checker.getTypeOfSymbolAtLocation(symbol, location);
+    info.type = checker.typeToString(type, location, TYPE_STRING_FORMAT_FLAGS);
+    // Member completions do not always carry the deprecated modifier, so check the JSDoc as well.
+    info.deprecated ||= symbol.getJsDocTags(checker).some((tag) => tag.name === "deprecated");
+  }
+
+  const moduleSpecifier = getAutoImportSpecifier(entry);
+  if (moduleSpecifier) {
+    info.autoImport = { moduleSpecifier };
+  }
+
+  if (entry.insertText !== undefined && entry.insertText !== entry.name) {
+    info.insertText = entry.insertText;
+  }
+
+  return info;
+}
+
+function findTokenAtOrBefore(sourceFile: ts.SourceFile, position: number): ts.Node {
+  let found: ts.Node = sourceFile;
+  const visit = (node: ts.Node) => {
+    if (node.getStart(sourceFile) <= position && position <= node.getEnd()) {
+      found = node;
+      node.forEachChild(visit);
+    }
+  };
+  sourceFile.forEachChild(visit);
+  return found;
+}
@@ -0,0 +1,117 @@
+import fs from "node:fs";
+import net from "node:net";
+import os from "node:os";
+import path from "node:path";
+import process from "node:process";
+
+import { ErrorInfo, TspError } from "./errors.js";
+
+// Kept free of compiler imports so the CLI can reach a running daemon without
+// paying TypeScript's module load time.
+
+export interface DaemonRequest {
+  id: number | string;
+  method: string;
+  params?: unknown;
+}
+
+export interface DaemonResponse {
+  id: number | string | null;
+  result?: unknown;
+  error?: ErrorInfo;
+}
+
+export function defaultSocketPath(): string {
+  if (process.env.TSP_SOCKET) {
+    return path.resolve(process.env.TSP_SOCKET);
+  }
+  const user = typeof process.getuid === "function" ? String(process.getuid()) : os.userInfo().username;
+  return path.join(os.tmpdir(), `tsp-${user}.sock`);
+}
+
+/**
+ * Sends one request to a running daemon. Resolves to `undefined` when no daemon
+ * is listening so callers can fall back to an in-process query.
+ */
+export async function requestFromDaemon(
+  method: string,
+  params: unknown,
+  socketPath = defaultSocketPath(),
+): Promise<{ result: unknown } | undefined> {
+  if (!fs.existsSync(socketPath)) {
+    return undefined;
+  }
+
+  const socket = await connect(socketPath);
+  if (!socket) {
+    return undefined;
+  }
+
+  try {
+    const request: DaemonRequest = { id: 1, method, params };
+    socket.write(`${JSON.stringify(request)}\n`);
+    const response = await readResponse(socket);
+    if (response.error) {
+      const { code = "INTERNAL", message, details } = response.error;
+      throw new TspError(code, message, details);
+    }
+    return { result: response.result };
+  } finally {
+    socket.end();
+  }
+}
+
+export async function isDaemonListening(socketPath: string): Promise<boolean> {
+  const socket = await connect(socketPath);
+  if (!socket) {
+    return false;
+  }
+  socket.destroy();
+  return true;
+}
+
+function connect(socketPath: string): Promise<net.Socket | undefined> {
+  return new Promise((resolve) => {
+    const socket = net.createConnection(socketPath);
+    socket.once("connect", () => {
+      socket.removeAllListeners("error");
+      resolve(socket);
+    });
+    socket.once("error", () => resolve(undefined));
+  });
+}
+
+function readResponse(socket: net.Socket): Promise<DaemonResponse> {
+  return new Promise((resolve, reject) => {
+    let buffer = "";
+    const onData = (chunk: Buffer) => {
+      buffer += chunk.toString("utf8");
+      const newline = buffer.indexOf("\n");
+      if (newline === -1) {
+        return;
+      }
+      cleanup();
+      try {
+        resolve(JSON.parse(buffer.slice(0, newline)) as DaemonResponse);
+      } catch (error) {
+        reject(error);
+      }
+    };
+    const onClose = () => {
+      cleanup();
+      reject(new Error("tsp daemon closed the connection before responding"));
+    };
+    const onError = (error: Error) => {
+      cleanup();
+      reject(error);
+    };
+    const cleanup = () => {
+      socket.off("data", onData);
+      socket.off("close", onClose);
+      socket.off("error", onError);
+    };
+    socket.on("data", onData);
+    socket.on("close", onClose);
+    socket.on("error", onError);
+  });
+}
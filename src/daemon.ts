@@ -0,0 +1,138 @@
+import fs from "node:fs";
+import net from "node:net";
+import process from "node:process";
+import readline from "node:readline";
+
+import { AnnotateQuery, annotateFile } from "./annotate.js";
+import { AssignableQuery, checkAssignable } from "./assignable.js";
+import { findImportCandidates, ImportQuery } from "./auto-import.js";
+import { CheckOptions, runAssertions } from "./check.js";
+import { FixesQuery, listFileFixes } from "./code-fixes.js";
+import { traceHierarchy } from "./hierarchy.js";
+import { diffTypes, TypeDiffQuery } from "./type-diff.js";
+import { CompletionsOptions, listCompletions } from "./completions.js";
+import { DaemonRequest, DaemonResponse, isDaemonListening } from "./daemon-client.js";
+import { toErrorInfo, TspError } from "./errors.js";
+import { ExportsQuery, listModuleExports } from "./exports.js";
+import { traceNarrowing } from "./narrowing.js";
+import { pickType, PickOptions, TypeQuery } from "./picker.js";
+import { ProjectRegistry } from "./project.js";
+import { SearchOptions, SearchQuery, searchProject } from "./search.js";
+
+type DaemonMethod = (params: unknown, projects: ProjectRegistry) => unknown;
+
+const DAEMON_METHODS: Record<string, DaemonMethod> = {
+  ping: () => ({ pid: process.pid }),
+  pickType: (params, projects) => {
+    const { options, ...query } = params as TypeQuery & { options?: PickOptions };
+    return pickType(query as TypeQuery, projects, options);
+  },
+  completions: (params, projects) => {
+    const { options, ...query } = params as TypeQuery & { options?: CompletionsOptions };
+    return listCompletions(query as TypeQuery, projects, options);
+  },
+  diff: (params, projects) => diffTypes(params as TypeDiffQuery, projects),
+  hierarchy: (params, projects) => traceHierarchy(params as TypeQuery, projects),
+  narrowing: (params, projects) => traceNarrowing(params as TypeQuery, projects),
+  annotate: (params, projects) => annotateFile(params as AnnotateQuery, projects),
+  import: (params, projects) => findImportCandidates(params as ImportQuery, projects),
+  exports: (params, projects) => listModuleExports(params as ExportsQuery, projects),
+  fixes: (params, projects) => listFileFixes(params as FixesQuery, projects),
+  check: (params, projects) => {
+    const { file, options } = params as { file: string; options?: CheckOptions };
+    return runAssertions(file, projects, options);
+  },
+  assignable: (params, projects) => checkAssignable(params as AssignableQuery, projects),
+  search: (params, projects) => {
+    const { options, ...query } = params as SearchQuery & { options?: SearchOptions };
+    return searchProject(query as SearchQuery, projects, options);
+  },
+};
+
+export function handleDaemonRequest(request: DaemonRequest, projects: ProjectRegistry): DaemonResponse {
+  const method = DAEMON_METHODS[request.method];
+  if (!method) {
+    return { id: request.id, error: { code: "INVALID_QUERY", message: `Unknown method: ${request.method}` } };
+  }
+
+  try {
+    return { id: request.id, result: method(request.params, projects) };
+  } catch (error) {
+    return { id: request.id, error: toErrorInfo(error) };
+  }
+}
+
+function handleDaemonLine(line: string, projects: ProjectRegistry): DaemonResponse | undefined {
+  if (line.trim().length === 0) {
+    return undefined;
+  }
+
+  let request: DaemonRequest;
+  try {
+    request = JSON.parse(line) as DaemonRequest;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    return { id: null, error: { code: "INVALID_QUERY", message: `Invalid request JSON: ${message}` } };
+  }
+
+  return handleDaemonRequest(request, projects);
+}
+
+/**
+ * Serves newline-delimited JSON requests over a Unix socket until the process
+ * receives SIGINT/SIGTERM. A stale socket left behind by a crashed daemon is
+ * removed; a live one is reported as an error.
+ */
+export async function serveSocket(socketPath: string, projects = new ProjectRegistry()): Promise<void> {
+  if (fs.existsSync(socketPath)) {
+    if (await isDaemonListening(socketPath)) {
+      throw new TspError("DAEMON_ERROR", `A tsp daemon is already listening on ${socketPath}`, { socketPath });
+    }
+    fs.unlinkSync(socketPath);
+  }
+
+  const server = net.createServer((socket) => {
+    const lines = readline.createInterface({ input: socket, crlfDelay: Infinity });
+    lines.on("line", (line) => {
+      const response = handleDaemonLine(line, projects);
+      if (response) {
+        socket.write(`${JSON.stringify(response)}\n`);
+      }
+    });
+    socket.on("error", () => socket.destroy());
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    server.once("error", reject);
+    server.listen(socketPath, () => {
+      server.off("error", reject);
+      resolve();
+    });
+  });
+
+  process.stderr.write(`tsp daemon listening on ${socketPath}\n`);
+
+  await new Promise<void>((resolve) => {
+    const shutdown = () => {
+      server.close(() => resolve());
+      projects.dispose();
+    };
+    process.once("SIGINT", shutdown);
+    process.once("SIGTERM", shutdown);
+  });
+}
+
+/**
+ * Serves the same protocol over stdin/stdout, which suits agents that spawn
+ * `tsp serve --stdio` as a child process. Resolves when stdin closes.
+ */
+export async function serveStdio(projects = new ProjectRegistry()): Promise<void> {
+  const lines = readline.createInterface({ input: process.stdin, crlfDelay: Infinity });
+  for await (const line of lines) {
+    const response = handleDaemonLine(line, projects);
+    if (response) {
+      process.stdout.write(`${JSON.stringify(response)}\n`);
+    }
+  }
+  projects.dispose();
+}
@@ -0,0 +1,85 @@
+import ts from "typescript";
+
+export interface JsDocTagInfo {
+  name: string;
+  text: string;
+}
+
+export interface DocumentationInfo {
+  /** The doc comment itself, without tags. */
+  text: string;
+  tags: JsDocTagInfo[];
+  deprecated: boolean;
+  /** Text of the `@deprecated` tag, e.g. "Use createUser instead". */
+  deprecationMessage?: string;
+}
+
+export interface ParameterDocumentationInfo {
+  name: string;
+  documentation: string;
+}
+
+/**
+ * Reads the doc comment and JSDoc tags of `symbol`, following import aliases to
+ * the declaration that carries them. Undefined when the symbol has neither.
+ */
+export function collectDocumentation(symbol: ts.Symbol, checker: ts.TypeChecker): DocumentationInfo | undefined {
+  const target = resolveAlias(symbol, checker);
+  // Tags are merged across overloads; one deprecated overload does not deprecate the function.
+  return toDocumentationInfo(
+    target.getDocumentationComment(checker),
+    target.getJsDocTags(checker),
+    isDeprecatedSymbol(target, checker),
+  );
+}
+
+export function collectSignatureDocumentation(
+  signature: ts.Signature,
+  checker: ts.TypeChecker,
+): { documentation?: DocumentationInfo; parameters: ParameterDocumentationInfo[] } {
+  const parameters = signature
+    .getParameters()
+    .map((parameter) => ({
+      name: parameter.getName(),
+      // `@param name - text` keeps the separator in the comment.
+      documentation: ts.displayPartsToString(parameter.getDocumentationComment(checker)).trim().replace(/^-\s*/, ""),
+    }))
+    .filter((parameter) => parameter.documentation.length > 0);
+
+  return {
+    documentation: toDocumentationInfo(signature.getDocumentationComment(checker), signature.getJsDocTags()),
+    parameters,
+  };
+}
+
+/** True when every declaration of the symbol, ignoring an overload implementation, is `@deprecated`. */
+export function isDeprecatedSymbol(symbol: ts.Symbol, checker: ts.TypeChecker): boolean {
+  const declarations = resolveAlias(symbol, checker).getDeclarations() ?? [];
+  const visible = declarations.length > 1
+    ? declarations.filter((declaration) => !(ts.isFunctionLike(declaration) && "body" in declaration && declaration.body))
+    : declarations;
+  return visible.length > 0 && visible.every((declaration) => ts.getJSDocDeprecatedTag(declaration) !== undefined);
+}
+
+function toDocumentationInfo(
+  comment: ts.SymbolDisplayPart[],
+  jsDocTags: ts.JSDocTagInfo[],
+  deprecated = jsDocTags.some((tag) => tag.name === "deprecated"),
+): DocumentationInfo | undefined {
+  const text = ts.displayPartsToString(comment).trim();
+  if (text.length === 0 && jsDocTags.length === 0) {
+    return undefined;
+  }
+
+  const tags = jsDocTags.map((tag) => ({ name: tag.name, text: ts.displayPartsToString(tag.text).trim() }));
+  const deprecation = tags.find((tag) => tag.name === "deprecated");
+  const info: DocumentationInfo = { text, tags, deprecated };
+  if (deprecated && deprecation && deprecation.text.length > 0) {
+    info.deprecationMessage = deprecation.text;
+  }
+  return info;
+}
+
+function resolveAlias(symbol: ts.Symbol, checker: ts.TypeChecker): ts.Symbol {
+  return (symbol.flags & ts.SymbolFlags.Alias) !== 0 ? checker.getAliasedSymbol(symbol) : symbol;
+}
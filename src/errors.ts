@@ -0,0 +1,142 @@
+export type TspErrorCode =
+  | "INVALID_QUERY"
+  | "FILE_NOT_FOUND"
+  | "PROJECT_NOT_FOUND"
+  | "CONFIG_ERROR"
+  | "NO_MATCH"
+  | "POSITION_OUT_OF_RANGE"
+  | "SYMBOL_NOT_FOUND"
+  | "AMBIGUOUS_SYMBOL"
+  | "MODULE_NOT_FOUND"
+  | "DAEMON_ERROR"
+  | "INTERNAL";
+
+/** Process exit codes; each error code maps to exactly one. */
+export const EXIT_CODES = {
+  success: 0,
+  internal: 1,
+  invalidQuery: 2,
+  fileNotFound: 3,
+  project: 4,
+  targetNotFound: 5,
+  daemon: 6,
+  /** `--batch` finished but at least one query produced a `BatchError`. */
+  batchFailures: 7,
+  /** `tsp check` finished but at least one assertion failed. */
+  assertionFailures: 8,
+} as const;
+
+const EXIT_CODE_BY_ERROR: Record<TspErrorCode, number> = {
+  INVALID_QUERY: EXIT_CODES.invalidQuery,
+  FILE_NOT_FOUND: EXIT_CODES.fileNotFound,
+  MODULE_NOT_FOUND: EXIT_CODES.fileNotFound,
+  PROJECT_NOT_FOUND: EXIT_CODES.project,
+  CONFIG_ERROR: EXIT_CODES.project,
+  NO_MATCH: EXIT_CODES.targetNotFound,
+  POSITION_OUT_OF_RANGE: EXIT_CODES.targetNotFound,
+  SYMBOL_NOT_FOUND: EXIT_CODES.targetNotFound,
+  AMBIGUOUS_SYMBOL: EXIT_CODES.targetNotFound,
+  DAEMON_ERROR: EXIT_CODES.daemon,
+  INTERNAL: EXIT_CODES.internal,
+};
+
+/** Serialized form written by `--json-errors`, `--batch` and the daemon. */
+export interface ErrorInfo {
+  code: TspErrorCode;
+  message: string;
+  details?: Record<string, unknown>;
+}
+
+/**
+ * Base class for the errors tsp reports on purpose. `code` is stable across
+ * versions; `details` carries machine-readable context such as match counts.
+ */
+export class TspError extends Error {
+  constructor(
+    readonly code: TspErrorCode,
+    message: string,
+    readonly details?: Record<string, unknown>,
+  ) {
+    super(message);
+    this.name = new.target.name;
+  }
+
+  get exitCode(): number {
+    return EXIT_CODE_BY_ERROR[this.code];
+  }
+}
+
+/** The query or command line is malformed: missing fields, bad numbers, invalid regex syntax. */
+export class InvalidQueryError extends TspError {
+  constructor(message: string, details?: Record<string, unknown>) {
+    super("INVALID_QUERY", message, details);
+  }
+}
+
+export class FileNotFoundError extends TspError {
+  constructor(readonly file: string) {
+    super("FILE_NOT_FOUND", `File not found: ${file}`, { file });
+  }
+}
+
+/** `--project` does not point at a tsconfig.json or a directory containing one. */
+export class ProjectNotFoundError extends TspError {
+  constructor(message: string, readonly project: string) {
+    super("PROJECT_NOT_FOUND", message, { project });
+  }
+}
+
+/** A tsconfig.json could not be read or parsed. */
+export class ConfigError extends TspError {
+  constructor(message: string, readonly configPath: string, readonly messages: string[]) {
+    super("CONFIG_ERROR", message, { configPath, messages });
+  }
+}
+
+export class NoMatchError extends TspError {
+  constructor(
+    message: string,
+    details: { regex: string; flags: string; matchIndex: number; matchCount: number; file: string },
+  ) {
+    super("NO_MATCH", message, details);
+  }
+}
+
+export class PositionOutOfRangeError extends TspError {
+  constructor(
+    message: string,
+    details: { line: number; column: number; lineCount: number; maxColumn?: number; file: string },
+  ) {
+    super("POSITION_OUT_OF_RANGE", message, details);
+  }
+}
+
+export class SymbolNotFoundError extends TspError {
+  constructor(message: string, details: { symbol: string; segment: string; candidates: string[] }) {
+    super("SYMBOL_NOT_FOUND", message, details);
+  }
+}
+
+export class AmbiguousSymbolError extends TspError {
+  constructor(message: string, details: { symbol: string; segment: string; matches: string[] }) {
+    super("AMBIGUOUS_SYMBOL", message, details);
+  }
+}
+
+export class ModuleNotFoundError extends TspError {
+  constructor(message: string, details: { module: string; from?: string }) {
+    super("MODULE_NOT_FOUND", message, details);
+  }
+}
+
+/** Wraps any thrown value; unknown errors become `INTERNAL`. */
+export function toErrorInfo(error: unknown): ErrorInfo {
+  if (error instanceof TspError) {
+    return error.details ? { code: error.code, message: error.message, details: error.details } : { code: error.code, message: error.message };
+  }
+  return { code: "INTERNAL", message: error instanceof Error ? error.message : String(error) };
+}
+
+export function exitCodeFor(error: unknown): number {
+  return error instanceof TspError ? error.exitCode : EXIT_CODES.internal;
+}
@@ -0,0 +1,324 @@
+import ts from "typescript";
+
+import { TYPE_STRING_FORMAT_FLAGS } from "./picker.js";
+
+export interface ExpandOptions {
+  /** Levels of nested object, array, tuple and function structure to expand below the root. */
+  depth: number;
+  /** Maximum number of tree nodes to emit before truncating (default 250). */
+  maxNodes?: number;
+  /** Approximate maximum number of characters of type text and names to emit (default 12000). */
+  maxChars?: number;
+}
+
+export interface TypeTreeNode {
+  kind:
+    | "primitive"
+    | "literal"
+    | "union"
+    | "intersection"
+    | "object"
+    | "array"
+    | "tuple"
+    | "function"
+    | "typeParameter"
+    | "library"
+    | "cycle"
+    | "truncated";
+  text: string;
+  /** Name of the alias the type was written as, e.g. `WithId<MigrationLock>`. */
+  alias?: string;
+  members?: TypeTreeNode[];
+  properties?: TypeTreeProperty[];
+  indexSignatures?: TypeTreeIndexSignature[];
+  element?: TypeTreeNode;
+  elements?: TypeTreeTupleElement[];
+  signatures?: TypeTreeSignature[];
+  /** Set on `truncated` nodes: which limit stopped the expansion. */
+  truncatedBy?: "depth" | "nodes" | "chars";
+}
+
+export interface TypeTreeProperty {
+  name: string;
+  optional: boolean;
+  readonly: boolean;
+  type: TypeTreeNode;
+}
+
+export interface TypeTreeIndexSignature {
+  keyType: string;
+  readonly: boolean;
+  type: TypeTreeNode;
+}
+
+export interface TypeTreeTupleElement {
+  name?: string;
+  optional: boolean;
+  rest: boolean;
+  type: TypeTreeNode;
+}
+
+export interface TypeTreeSignature {
+  kind: "call" | "construct";
+  typeParameters: string[];
+  parameters: {
+    name: string;
+    optional: boolean;
+    rest: boolean;
+    type: TypeTreeNode;
+  }[];
+  returns: TypeTreeNode;
+}
+
+const DEFAULT_MAX_NODES = 250;
+const DEFAULT_MAX_CHARS = 12000;
+
+interface ExpandState {
+  checker: ts.TypeChecker;
+  program: ts.Program;
+  location: ts.Node;
+  maxDepth: number;
+  maxNodes: number;
+  maxChars: number;
+  nodes: number;
+  chars: number;
+  /** Types currently being expanded on the path from the root, for cycle detection. */
+  path: Set<ts.Type>;
+}
+
+/**
+ * Expands `type` into a tree: aliases are looked through, unions and
+ * intersections are split into members, and object, array, tuple and function
+ * structure is expanded up to `depth` levels. Types already on the current path
+ * become `cycle` nodes, and once the node or character budget is spent the
+ * remaining nodes become `truncated` in a deterministic depth-first order.
+ * Types declared only in the default library (`Date`, `Promise`, …) stay opaque.
+ */
+export function expandType(
+  type: ts.Type,
+  program: ts.Program,
+  location: ts.Node,
+  options: ExpandOptions,
+): TypeTreeNode {
+  const state: ExpandState = {
+    checker: program.getTypeChecker(),
+    program,
+    location,
+    maxDepth: Math.max(0, options.depth),
+    maxNodes: options.maxNodes ?? DEFAULT_MAX_NODES,
+    maxChars: options.maxChars ?? DEFAULT_MAX_CHARS,
+    nodes: 0,
+    chars: 0,
+    path: new Set(),
+  };
+
+  return expandNode(type, 0, state);
+}
+
+function expandNode(type: ts.Type, depth: number, state: ExpandState): TypeTreeNode {
+  const { checker } = state;
+  const text = checker.typeToString(type, state.location, TYPE_STRING_FORMAT_FLAGS);
+
+  const budget = consumeBudget(text, state);
+  if (budget) {
+    return { kind: "truncated", text, truncatedBy: budget };
+  }
+
+  const leafKind = classifyLeaf(type, state);
+  if (leafKind) {
+    return { kind: leafKind, text };
+  }
+
+  const node = createStructuredNode(type, text, state);
+  if (state.path.has(type)) {
+    return { kind: "cycle", text, alias: node.alias };
+  }
+  // Union and intersection members sit at the same level as the type they compose.
+  const isComposite = node.kind === "union" || node.kind === "intersection";
+  if (!isComposite && depth >= state.maxDepth) {
+    return { kind: "truncated", text, alias: node.alias, truncatedBy: "depth" };
+  }
+
+  state.path.add(type);
+  try {
+    fillStructure(node, type, isComposite ? depth : depth + 1, state);
+  } finally {
+    state.path.delete(type);
+  }
+  return node;
+}
+
+function consumeBudget(text: string, state: ExpandState): TypeTreeNode["truncatedBy"] | undefined {
+  if (state.nodes >= state.maxNodes) {
+    return "nodes";
+  }
+  if (state.chars + text.length > state.maxChars) {
+    return "chars";
+  }
+  state.nodes += 1;
+  state.chars += text.length;
+  return undefined;
+}
+
+function classifyLeaf(type: ts.Type, state: ExpandState): TypeTreeNode["kind"] | undefined {
+  const flags = type.getFlags();
+  if (flags & (ts.TypeFlags.StringLiteral | ts.TypeFlags.NumberLiteral | ts.TypeFlags.BigIntLiteral | ts.TypeFlags.BooleanLiteral)) {
+    return "literal";
+  }
+  if (flags & ts.TypeFlags.Boolean) {
+    return "primitive";
+  }
+  if (flags & ts.TypeFlags.TypeParameter) {
+    return "typeParameter";
+  }
+  if (flags & (ts.TypeFlags.Union | ts.TypeFlags.Intersection)) {
+    return undefined;
+  }
+  if (!(flags & ts.TypeFlags.Object)) {
+    return "primitive";
+  }
+  if (state.checker.isArrayType(type) || state.checker.isTupleType(type)) {
+    return undefined;
+  }
+  if (isLibraryType(type, state.program)) {
+    return "library";
+  }
+  return undefined;
+}
+
+function isLibraryType(type: ts.Type, program: ts.Program): boolean {
+  const declarations = type.getSymbol()?.getDeclarations();
+  if (!declarations || declarations.length === 0) {
+    return false;
+  }
+  return declarations.every((declaration) => program.isSourceFileDefaultLibrary(declaration.getSourceFile()));
+}
+
+function createStructuredNode(type: ts.Type, text: string, state: ExpandState): TypeTreeNode {
+  const { checker } = state;
+  const flags = type.getFlags();
+  const alias = type.aliasSymbol ? text : undefined;
+
+  if (flags & ts.TypeFlags.Union) {
+    return { kind: "union", text, alias };
+  }
+  if (flags & ts.TypeFlags.Intersection) {
+    return { kind: "intersection", text, alias };
+  }
+  if (checker.isArrayType(type)) {
+    return { kind: "array", text, alias };
+  }
+  if (checker.isTupleType(type)) {
+    return { kind: "tuple", text, alias };
+  }
+
+  const hasSignatures =
+    checker.getSignaturesOfType(type, ts.SignatureKind.Call).length > 0 ||
+    checker.getSignaturesOfType(type, ts.SignatureKind.Construct).length > 0;
+  const hasMembers = checker.getPropertiesOfType(type).length > 0 || checker.getIndexInfosOfType(type).length > 0;
+  return { kind: hasSignatures && !hasMembers ? "function" : "object", text, alias };
+}
+
+function fillStructure(node: TypeTreeNode, type: ts.Type, depth: number, state: ExpandState): void {
+  const { checker } = state;
+
+  switch (node.kind) {
+    case "union":
+    case "intersection":
+      node.members = (type as ts.UnionOrIntersectionType).types.map((member) => expandNode(member, depth, state));
+      return;
+    case "array":
+      node.element = expandNode(checker.getTypeArguments(type as ts.TypeReference)[0], depth, state);
+      return;
+    case "tuple":
+      node.elements = expandTupleElements(type as ts.TypeReference, depth, state);
+      return;
+    default:
+      break;
+  }
+
+  const properties = checker.getPropertiesOfType(type);
+  if (properties.length > 0) {
+    node.properties = properties.map((property) => ({
+      name: property.getName(),
+      optional: (property.getFlags() & ts.SymbolFlags.Optional) !== 0,
+      readonly: isReadonlyProperty(property),
+      type: expandNode(checker.getTypeOfSymbolAtLocation(property, state.location), depth, state),
+    }));
+  }
+
+  const indexInfos = checker.getIndexInfosOfType(type);
+  if (indexInfos.length > 0) {
+    node.indexSignatures = indexInfos.map((info) => ({
+      keyType: checker.typeToString(info.keyType, state.location),
+      readonly: info.isReadonly,
+      type: expandNode(info.type, depth, state),
+    }));
+  }
+
+  const signatures = [
+    ...checker.getSignaturesOfType(type, ts.SignatureKind.Call).map((signature) => ({ kind: "call" as const, signature })),
+    ...checker
+      .getSignaturesOfType(type, ts.SignatureKind.Construct)
+      .map((signature) => ({ kind: "construct" as const, signature })),
+  ];
+  if (signatures.length > 0) {
+    node.signatures = signatures.map(({ kind, signature }) => expandSignature(kind, signature, depth, state));
+  }
+}
+
+function expandTupleElements(type: ts.TypeReference, depth: number, state: ExpandState): TypeTreeTupleElement[] {
+  const target = type.target as ts.TupleType;
+  const elementFlags = target.elementFlags ?? [];
+  const names = target.labeledElementDeclarations ?? [];
+
+  return state.checker.getTypeArguments(type).map((elementType, index) => {
+    const flags = elementFlags[index] ?? ts.ElementFlags.Required;
+    const label = names[index];
+    return {
+      name: label && ts.isIdentifier(label.name) ? label.name.text : undefined,
+      optional: (flags & ts.ElementFlags.Optional) !== 0,
+      rest: (flags & ts.ElementFlags.Variable) !== 0,
+      type: expandNode(elementType, depth, state),
+    };
+  });
+}
+
+function expandSignature(
+  kind: TypeTreeSignature["kind"],
+  signature: ts.Signature,
+  depth: number,
+  state: ExpandState,
+): TypeTreeSignature {
+  const { checker } = state;
+  return {
+    kind,
+    typeParameters: (signature.getTypeParameters() ?? []).map((parameter) =>
+      checker.typeToString(parameter, state.location),
+    ),
+    parameters: signature.getParameters().map((parameter) => {
+      const declaration = parameter.valueDeclaration;
+      const isParameter = declaration !== undefined && ts.isParameter(declaration);
+      return {
+        name: parameter.getName(),
+        optional: isParameter && (declaration.questionToken !== undefined || declaration.initializer !== undefined),
+        rest: isParameter && declaration.dotDotDotToken !== undefined,
+        type: expandNode(checker.getTypeOfSymbolAtLocation(parameter, state.location), depth, state),
+      };
+    }),
+    returns: expandNode(checker.getReturnTypeOfSignature(signature), depth, state),
+  };
+}
+
+function isReadonlyProperty(property: ts.Symbol): boolean {
+  const declarations = property.getDeclarations() ?? [];
+  if (declarations.length === 0) {
+    return false;
+  }
+  const hasSetter = declarations.some(ts.isSetAccessorDeclaration);
+  return declarations.some(
+    (declaration) =>
+      (ts.getCombinedModifierFlags(declaration) & ts.ModifierFlags.Readonly) !== 0 ||
+      (ts.isGetAccessorDeclaration(declaration) && !hasSetter),
+  );
+}
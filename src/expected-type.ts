@@ -0,0 +1,217 @@
+import ts from "typescript";
+
+import {
+  collectProperties,
+  collectSignatures,
+  PropertyInfo,
+  SignatureInfo,
+  TYPE_STRING_FORMAT_FLAGS,
+} from "./picker.js";
+
+export interface ExpectedTypeInfo {
+  /** What supplied the expectation: a call argument, a return position, an object/JSX member, or any other contextual type. */
+  source: "argument" | "return" | "property" | "contextual";
+  typeString: string;
+  properties: PropertyInfo[];
+  signatures: SignatureInfo[];
+}
+
+type CallLike = ts.CallExpression | ts.NewExpression;
+
+/**
+ * Computes the type the compiler expects at `position`, i.e. the contextual type
+ * of the expression there. Handles positions where nothing has been written yet:
+ * an empty argument slot, `return` without an expression, and members of an
+ * incomplete object literal.
+ */
+export function collectExpectedType(
+  node: ts.Node,
+  position: number,
+  checker: ts.TypeChecker,
+): ExpectedTypeInfo | undefined {
+  const expected = findExpectedType(node, position, checker);
+  if (!expected) {
+    return undefined;
+  }
+
+  const { type, source } = expected;
+  return {
+    source,
+    typeString: checker.typeToString(type, node, TYPE_STRING_FORMAT_FLAGS),
+    properties: collectProperties(type, checker, node),
+    signatures: collectSignatures(type, checker, node),
+  };
+}
+
+/**
+ * Zero-based index of the argument slot containing `position`, counting an
+ * empty slot after a trailing comma. Undefined when `position` is outside the
+ * argument list.
+ */
+export function findArgumentIndex(call: CallLike, position: number): number | undefined {
+  const args = call.arguments;
+  if (!args || position <= call.expression.getEnd() || position >= call.getEnd()) {
+    return undefined;
+  }
+
+  const sourceFile = call.getSourceFile();
+  let index = 0;
+  for (const arg of args) {
+    if (position <= arg.getEnd()) {
+      return index;
+    }
+    index += 1;
+  }
+
+  // Past the last argument: a new slot only begins after a comma.
+  const trailing = sourceFile.text.slice(args.length > 0 ? args[args.length - 1].getEnd() : position, position);
+  return args.length === 0 || trailing.includes(",") ? args.length : args.length - 1;
+}
+
+function findExpectedType(
+  node: ts.Node,
+  position: number,
+  checker: ts.TypeChecker,
+): { type: ts.Type; source: ExpectedTypeInfo["source"] } | undefined {
+  if ((ts.isCallExpression(node) || ts.isNewExpression(node)) && findArgumentIndex(node, position) !== undefined) {
+    const type = getArgumentSlotType(node, findArgumentIndex(node, position)!, checker);
+    return type ? { type, source: "argument" } : undefined;
+  }
+
+  if (ts.isReturnStatement(node) && !node.expression) {
+    const type = getExpectedReturnType(node, checker);
+    return type ? { type, source: "return" } : undefined;
+  }
+
+  if (ts.isObjectLiteralExpression(node)) {
+    const pending = findPendingPropertyAssignment(node, position);
+    if (pending) {
+      const type = getMemberTypeFromContainer(pending, checker);
+      return type ? { type, source: "property" } : undefined;
+    }
+  }
+
+  let target: ts.Node = node;
+  if (ts.isPropertyAccessExpression(target.parent) && target.parent.name === target) {
+    target = target.parent;
+  }
+
+  const member = target.parent;
+  if ((ts.isPropertyAssignment(member) || ts.isJsxAttribute(member)) && member.name === target) {
+    const initializer = member.initializer;
+    if (initializer && ts.isExpression(initializer) && initializer.getWidth() > 0) {
+      target = initializer;
+    } else {
+      const type = getMemberTypeFromContainer(member, checker);
+      return type ? { type, source: "property" } : undefined;
+    }
+  }
+
+  if (ts.isShorthandPropertyAssignment(member) && member.name === target) {
+    const type = getMemberTypeFromContainer(member, checker);
+    return type ? { type, source: "property" } : undefined;
+  }
+
+  if (ts.isExpression(target)) {
+    const type = checker.getContextualType(target);
+    if (type) {
+      return { type, source: classifyContextualSource(target) };
+    }
+  }
+
+  return undefined;
+}
+
+/** Finds `name: |` — a property assignment whose value has not been written yet. */
+function findPendingPropertyAssignment(
+  literal: ts.ObjectLiteralExpression,
+  position: number,
+): ts.PropertyAssignment | undefined {
+  const text = literal.getSourceFile().text;
+  return literal.properties.find(
+    (property): property is ts.PropertyAssignment =>
+      ts.isPropertyAssignment(property) &&
+      property.initializer.getWidth() === 0 &&
+      property.name.getEnd() < position &&
+      !text.slice(property.name.getEnd(), position).includes(","),
+  );
+}
+
+function getArgumentSlotType(call: CallLike, index: number, checker: ts.TypeChecker): ts.Type | undefined {
+  const existing = call.arguments?.[index];
+  if (existing && existing.getWidth() > 0) {
+    return checker.getContextualType(existing);
+  }
+
+  const signature = checker.getResolvedSignature(call, undefined, index + 1);
+  if (!signature) {
+    return undefined;
+  }
+
+  const parameters = signature.getParameters();
+  if (parameters.length === 0) {
+    return undefined;
+  }
+
+  const last = parameters[parameters.length - 1];
+  const lastDeclaration = last.valueDeclaration;
+  const hasRest = lastDeclaration !== undefined && ts.isParameter(lastDeclaration) && lastDeclaration.dotDotDotToken !== undefined;
+  if (index < parameters.length - 1 || (index === parameters.length - 1 && !hasRest)) {
+    return checker.getTypeOfSymbolAtLocation(parameters[index], call);
+  }
+  if (!hasRest) {
+    return undefined;
+  }
+
+  const restType = checker.getTypeOfSymbolAtLocation(last, call);
+  const restIndex = index - (parameters.length - 1);
+  if (checker.isTupleType(restType)) {
+    return checker.getTypeArguments(restType as ts.TypeReference)[restIndex];
+  }
+  return checker.getIndexTypeOfType(restType, ts.IndexKind.Number);
+}
+
+function getExpectedReturnType(statement: ts.ReturnStatement, checker: ts.TypeChecker): ts.Type | undefined {
+  const container = ts.findAncestor(statement, ts.isFunctionLike);
+  if (!container || !container.type) {
+    return undefined;
+  }
+
+  const signature = checker.getSignatureFromDeclaration(container as ts.SignatureDeclaration);
+  if (!signature) {
+    return undefined;
+  }
+
+  const returnType = checker.getReturnTypeOfSignature(signature);
+  const isAsync = ts.getCombinedModifierFlags(container as ts.Declaration) & ts.ModifierFlags.Async;
+  return isAsync ? checker.getAwaitedType(returnType) : returnType;
+}
+
+function getMemberTypeFromContainer(
+  member: ts.PropertyAssignment | ts.ShorthandPropertyAssignment | ts.JsxAttribute,
+  checker: ts.TypeChecker,
+): ts.Type | undefined {
+  const container = member.parent;
+  const containerType = checker.getContextualType(container as ts.ObjectLiteralExpression | ts.JsxAttributes);
+  if (!containerType) {
+    return undefined;
+  }
+
+  const name = member.name.getText();
+  const property = checker.getPropertyOfType(checker.getApparentType(containerType), name);
+  return property ? checker.getTypeOfSymbolAtLocation(property, member) : undefined;
+}
+
+function classifyContextualSource(expression: ts.Expression): ExpectedTypeInfo["source"] {
+  const parent = expression.parent;
+  if ((ts.isCallExpression(parent) || ts.isNewExpression(parent)) && parent.expression !== expression) {
+    return "argument";
+  }
+  if (ts.isReturnStatement(parent) || (ts.isArrowFunction(parent) && parent.body === expression)) {
+    return "return";
+  }
+  if (ts.isPropertyAssignment(parent) || ts.isJsxExpression(parent) || ts.isJsxAttribute(parent)) {
+    return "property";
+  }
+  return "contextual";
+}
@@ -0,0 +1,142 @@
+import fs from "node:fs";
+import path from "node:path";
+import ts from "typescript";
+
+import { FileNotFoundError, InvalidQueryError, ModuleNotFoundError } from "./errors.js";
+import {
+  collectDeclarations,
+  collectSignatures,
+  DeclarationInfo,
+  SignatureInfo,
+  TYPE_STRING_FORMAT_FLAGS,
+} from "./picker.js";
+import { ProjectRegistry } from "./project.js";
+
+export interface ExportsQuery {
+  /** Local file path, relative module path, or bare specifier such as `zod` or `@scope/pkg/subpath`. */
+  module: string;
+  /** File whose location and project are used to resolve non-file specifiers. */
+  from?: string;
+  project?: string;
+}
+
+export interface ExportInfo {
+  name: string;
+  kind: "type" | "value" | "both";
+  typeString: string;
+  signatures: SignatureInfo[];
+  declarations: DeclarationInfo[];
+  /** Present when the export is re-exported from another module or under another name. */
+  origin?: {
+    file: string;
+    name: string;
+  };
+}
+
+export interface ModuleExports {
+  module: string;
+  file: string;
+  project?: string;
+  exports: ExportInfo[];
+}
+
+export function listModuleExports(query: ExportsQuery, projects = new ProjectRegistry()): ModuleExports {
+  const localFile = path.resolve(query.module);
+  const isLocalFile = fs.existsSync(localFile) && fs.statSync(localFile).isFile();
+
+  let contextFile: string;
+  let moduleFile: string;
+  if (isLocalFile) {
+    contextFile = localFile;
+    moduleFile = localFile;
+  } else {
+    if (!query.from) {
+      throw new InvalidQueryError(
+        `"${query.module}" is not a file; pass --from <file> to resolve it as a module specifier`,
+        { module: query.module },
+      );
+    }
+    contextFile = path.resolve(query.from);
+    if (!fs.existsSync(contextFile)) {
+      throw new FileNotFoundError(contextFile);
+    }
+    const { program } = projects.getContext(contextFile, query.project);
+    moduleFile = resolveModuleFile(query.module, contextFile, program.getCompilerOptions());
+  }
+
+  const context = projects.getContext(contextFile, query.project, { extraRootFiles: [moduleFile] });
+  const { program } = context;
+  const checker = program.getTypeChecker();
+  const sourceFile = program.getSourceFile(moduleFile);
+  if (!sourceFile) {
+    throw new Error(`Failed to load module file: ${moduleFile}`);
+  }
+
+  const moduleSymbol = checker.getSymbolAtLocation(sourceFile);
+  const exported = moduleSymbol ? checker.getExportsOfModule(moduleSymbol) : [];
+
+  return {
+    module: query.module,
+    file: path.normalize(sourceFile.fileName),
+    project: context.configPath,
+    exports: exported
+      .map((symbol) => describeExport(symbol, sourceFile, checker))
+      .sort((a, b) => a.name.localeCompare(b.name)),
+  };
+}
+
+function resolveModuleFile(specifier: string, containingFile: string, options: ts.CompilerOptions): string {
+  // Try import conditions first, then require conditions, since the caller's module format is unknown.
+  for (const mode of [ts.ModuleKind.ESNext, ts.ModuleKind.CommonJS] as const) {
+    const { resolvedModule } = ts.resolveModuleName(
+      specifier,
+      containingFile,
+      options,
+      ts.sys,
+      undefined,
+      undefined,
+      mode,
+    );
+    if (resolvedModule) {
+      return resolvedModule.resolvedFileName;
+    }
+  }
+
+  throw new ModuleNotFoundError(`Cannot resolve module "${specifier}" from ${containingFile}`, {
+    module: specifier,
+    from: containingFile,
+  });
+}
+
+function describeExport(exported: ts.Symbol, moduleFile: ts.SourceFile, checker: ts.TypeChecker): ExportInfo {
+  const symbol = (exported.getFlags() & ts.SymbolFlags.Alias) !== 0 ? checker.getAliasedSymbol(exported) : exported;
+  const flags = symbol.getFlags();
+  const isValue = (flags & ts.SymbolFlags.Value) !== 0;
+  const isType = (flags & (ts.SymbolFlags.Type | ts.SymbolFlags.Namespace)) !== 0;
+  const declaration = symbol.valueDeclaration ?? symbol.getDeclarations()?.[0];
+  const location = declaration ?? moduleFile;
+
+  const type = isValue ? checker.getTypeOfSymbolAtLocation(symbol, location) : checker.getDeclaredTypeOfSymbol(symbol);
+  const info: ExportInfo = {
+    name: exported.getName(),
+    kind: isValue && isType ? "both" : isValue ? "value" : "type",
+    // InTypeAlias prints a type alias' definition rather than just its name.
+    typeString: checker.typeToString(
+      type,
+      location,
+      isValue ? TYPE_STRING_FORMAT_FLAGS : TYPE_STRING_FORMAT_FLAGS | ts.TypeFormatFlags.InTypeAlias,
+    ),
+    signatures: isValue ? collectSignatures(type, checker, location) : [],
+    declarations: collectDeclarations(symbol, checker),
+  };
+
+  const originFile = declaration?.getSourceFile();
+  if (originFile && (originFile !== moduleFile || symbol.getName() !== exported.getName())) {
+    info.origin = {
+      file: path.normalize(originFile.fileName),
+      name: symbol.getName(),
+    };
+  }
+
+  return info;
+}
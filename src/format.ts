@@ -0,0 +1,265 @@
+import path from "node:path";
+
+import type { TypeInfo } from "./picker.js";
+
+export type OutputFormat = "json" | "markdown" | "text";
+
+export const OUTPUT_FORMATS: readonly OutputFormat[] = ["json", "markdown", "text"];
+
+export interface FormatOptions {
+  format: OutputFormat;
+  /** Approximate size limit for the output; sections are filled in priority order until it is spent. */
+  maxChars?: number;
+  /** Indent JSON output. Ignored by the other formats. */
+  pretty?: boolean;
+}
+
+/** Rough characters-per-token ratio used to turn `--max-tokens` into a character budget. */
+export const CHARS_PER_TOKEN = 4;
+
+interface Section {
+  key: keyof TypeInfo;
+  title: string;
+  /** Entries of an array field, or the single value of an object field. */
+  items: unknown[];
+  /** Whether the field is an object rather than a list, e.g. `expectedType`. */
+  single: boolean;
+  render(item: unknown, format: Exclude<OutputFormat, "json">): string;
+}
+
+/** Space kept free per remaining section so its omission marker always fits. */
+const MARKER_RESERVE = 48;
+
+/**
+ * Renders `info` as JSON, Markdown or plain text. With a budget, the header
+ * (position, type string and any deprecation notice) takes what it needs
+ * first, leaving only room for the markers of the sections it crowds out; the
+ * sections are then filled in priority order — signatures, documentation,
+ * declarations, properties, diagnostics, then the rest. The first entry that
+ * does not fit ends the output: it and everything after it are replaced by
+ * "N more … omitted" markers.
+ */
+export function formatTypeInfo(info: TypeInfo, options: FormatOptions): string {
+  if (options.format === "json") {
+    const value = options.maxChars === undefined ? info : budgetJson(info, options.maxChars);
+    return JSON.stringify(value, null, options.pretty ? 2 : 0);
+  }
+  return renderDocument(info, options.format, options.maxChars ?? Infinity);
+}
+
+function buildSections(info: TypeInfo): Section[] {
+  type Render<T> = (item: T, format: Exclude<OutputFormat, "json">) => string;
+  const list = <T>(key: keyof TypeInfo, title: string, items: T[] | undefined, render: Render<T>): Section => ({
+    key,
+    title,
+    items: items ?? [],
+    single: false,
+    render: render as Section["render"],
+  });
+  const single = <T>(key: keyof TypeInfo, title: string, value: T | undefined, render: Render<T>): Section => ({
+    key,
+    title,
+    items: value === undefined ? [] : [value],
+    single: true,
+    render: render as Section["render"],
+  });
+
+  return [
+    list("signatures", "Signatures", info.signatures, (signature, format) =>
+      bullet(`${code(signature.signature, format)}${deprecatedSuffix(signature.documentation?.deprecated)}`, format),
+    ),
+    single("documentation", "Documentation", info.documentation, (documentation, format) =>
+      [
+        ...(documentation.text.length > 0 ? [bullet(documentation.text.replace(/\s*\n\s*/g, " "), format)] : []),
+        ...documentation.tags.map((tag) => bullet(`@${tag.name}${tag.text.length > 0 ? ` ${tag.text.replace(/\s*\n\s*/g, " ")}` : ""}`, format)),
+      ].join("\n"),
+    ),
+    list("declarations", "Declarations", info.declarations, (declaration, format) =>
+      bullet(`${location(declaration.file, declaration.line, declaration.column)} ${declaration.kind}: ${code(declaration.snippet, format)}`, format),
+    ),
+    list("properties", "Properties", info.properties, (property, format) =>
+      bullet(
+        `${code(property.name, format)}${property.optional ? "?" : ""}: ${code(property.type, format)}${deprecatedSuffix(property.deprecated)}`,
+        format,
+      ),
+    ),
+    list("diagnostics", "Diagnostics", info.diagnostics, (diagnostic, format) => bullet(describeDiagnostic(diagnostic), format)),
+    single("expectedType", "Expected type", info.expectedType, (expected, format) =>
+      bullet(`${expected.source}: ${code(expected.typeString, format)}`, format),
+    ),
+    single("resolvedCall", "Resolved call", info.resolvedCall, (call, format) =>
+      [
+        bullet(`${call.callee}: ${code(call.signature, format)}`, format),
+        ...call.errors.map((error) => bullet(`error: ${error}`, format)),
+      ].join("\n"),
+    ),
+    list("references", "References", info.references, (reference, format) =>
+      bullet(`${location(reference.file, reference.line, reference.column)} ${reference.access}: ${code(reference.snippet, format)}`, format),
+    ),
+    single("expanded", "Expanded", info.expanded, (tree, format) =>
+      format === "markdown" ? `\`\`\`json\n${JSON.stringify(tree, null, 2)}\n\`\`\`` : JSON.stringify(tree),
+    ),
+    list("projectDiagnostics", "Project diagnostics", info.projectDiagnostics, (diagnostic, format) =>
+      bullet(describeDiagnostic(diagnostic), format),
+    ),
+  ];
+}
+
+function renderDocument(info: TypeInfo, format: Exclude<OutputFormat, "json">, maxChars: number): string {
+  const sections = buildSections(info).filter((section) => section.items.length > 0);
+  const where = `${location(info.file, info.position.line, info.position.column)} (${info.nodeKind})`;
+  const deprecation = info.documentation?.deprecated
+    ? [`deprecated${info.documentation.deprecationMessage ? `: ${info.documentation.deprecationMessage}` : ""}`]
+    : [];
+  const renderHeader = (typeString: string) =>
+    format === "markdown"
+      ? [`## \`${info.matchedText}\` at ${where}`, "", "```ts", typeString, "```", ...deprecation.map((line) => `\n**${line}**`)]
+      : [`${info.matchedText} at ${where}`, `type: ${typeString}`, ...deprecation];
+
+  const markers = sections.reduce((total, section) => total + omissionMarker(section.items.length, section, format).length + 1, 0);
+  const lines = renderHeader(truncateText(info.typeString, maxChars - renderHeader("").join("\n").length - markers));
+  let exhausted = false;
+
+  sections.forEach((section, index) => {
+    const reserve = MARKER_RESERVE * (sections.length - index);
+    const title = format === "markdown" ? `\n### ${section.title}` : `${section.title.toLowerCase()}:`;
+    let used = lines.join("\n").length + title.length + 1;
+
+    const rendered: string[] = [];
+    for (const item of section.items) {
+      const text = section.render(item, format);
+      exhausted ||= used + text.length + 1 + reserve > maxChars;
+      if (exhausted) {
+        break;
+      }
+      rendered.push(text);
+      used += text.length + 1;
+    }
+
+    if (rendered.length > 0) {
+      lines.push(title, ...rendered);
+    }
+    if (rendered.length < section.items.length) {
+      lines.push(omissionMarker(section.items.length - rendered.length, section, format));
+    }
+  });
+
+  return lines.join("\n");
+}
+
+/**
+ * Trims list sections of the JSON result, recording in `omitted` how many
+ * entries each lost. Sizes are measured on compact JSON.
+ */
+function budgetJson(info: TypeInfo, maxChars: number): Record<string, unknown> {
+  const sections = buildSections(info).filter((section) => section.items.length > 0);
+  const result: Record<string, unknown> = { ...info };
+  for (const section of sections) {
+    delete result[section.key];
+  }
+
+  const omitted: Record<string, number> = {};
+  let exhausted = false;
+  let used = JSON.stringify(result).length;
+  // What the sections take when every entry is omitted: empty arrays and the `omitted` counts.
+  const emptied = sections.reduce((total, section) => total + (section.single ? 0 : section.key.length + 6), 0) +
+    JSON.stringify({ omitted: Object.fromEntries(sections.map((section) => [section.key, section.items.length])) }).length;
+  if (used + emptied > maxChars) {
+    result.typeString = truncateText(info.typeString, maxChars - emptied - (used - info.typeString.length));
+    used = JSON.stringify(result).length;
+  }
+
+  sections.forEach((section, index) => {
+    const reserve = MARKER_RESERVE * (sections.length - index);
+    const kept: unknown[] = [];
+    for (const item of section.items) {
+      const size = JSON.stringify(item).length + 1;
+      exhausted ||= used + size + section.key.length + 4 + reserve > maxChars;
+      if (exhausted) {
+        break;
+      }
+      kept.push(item);
+      used += size;
+    }
+
+    if (section.single) {
+      if (kept.length > 0) {
+        result[section.key] = kept[0];
+        used += section.key.length + 4;
+      } else {
+        omitted[section.key] = 1;
+      }
+      return;
+    }
+
+    // Arrays that every consumer expects stay present, possibly empty.
+    result[section.key] = kept;
+    used += section.key.length + 4;
+    if (kept.length < section.items.length) {
+      omitted[section.key] = section.items.length - kept.length;
+    }
+  });
+
+  // Restore the original key order so budgeted output diffs cleanly against unbudgeted output.
+  const ordered: Record<string, unknown> = {};
+  for (const key of Object.keys(info)) {
+    if (key in result) {
+      ordered[key] = result[key];
+    }
+  }
+  if (Object.keys(omitted).length > 0) {
+    ordered.omitted = omitted;
+  }
+  return ordered;
+}
+
+function omissionMarker(count: number, section: Section, format: Exclude<OutputFormat, "json">): string {
+  const noun = section.title.toLowerCase();
+  const text = section.single ? `… ${noun} omitted` : `… ${count} more ${noun} omitted`;
+  return format === "markdown" ? `\n_${text}_` : text;
+}
+
+/** Shortens `text` to at most `maxLength` characters, ending in a marker when there is room for one. */
+function truncateText(text: string, maxLength: number): string {
+  const limit = Math.max(0, Math.floor(maxLength));
+  if (text.length <= limit) {
+    return text;
+  }
+  const marker = (kept: number) => `… (${text.length - kept} more characters omitted)`;
+  // Sized for the largest count, so the final marker is never longer than planned.
+  const kept = limit - marker(0).length;
+  if (kept <= 0) {
+    return text.slice(0, limit);
+  }
+  return `${text.slice(0, kept)}${marker(kept)}`;
+}
+
+function deprecatedSuffix(deprecated: boolean | undefined): string {
+  return deprecated ? " (deprecated)" : "";
+}
+
+function describeDiagnostic(diagnostic: TypeInfo["diagnostics"][number]): string {
+  const where = diagnostic.file && diagnostic.line !== undefined && diagnostic.column !== undefined
+    ? ` ${location(diagnostic.file, diagnostic.line, diagnostic.column)}`
+    : "";
+  const code = diagnostic.code !== undefined ? ` TS${diagnostic.code}` : "";
+  return `${diagnostic.category}${code}${where}: ${diagnostic.message.replace(/\s*\n\s*/g, " ")}`;
+}
+
+function location(file: string, line: number, column: number): string {
+  const relative = path.relative(process.cwd(), file);
+  const display = relative.length > 0 && !relative.startsWith("..") ? relative : file;
+  return `${display}:${line}:${column}`;
+}
+
+function bullet(text: string, format: Exclude<OutputFormat, "json">): string {
+  return format === "markdown" ? `- ${text}` : `  ${text}`;
+}
+
+function code(text: string, format: Exclude<OutputFormat, "json">): string {
+  if (format !== "markdown") {
+    return text;
+  }
+  const fence = text.includes("`") ? "``" : "`";
+  return `${fence}${text}${fence}`;
+}
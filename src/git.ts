@@ -0,0 +1,70 @@
+import { execFileSync } from "node:child_process";
+import path from "node:path";
+
+import { FileNotFoundError, InvalidQueryError } from "./errors.js";
+
+const TYPESCRIPT_FILE = /\.(?:[cm]?tsx?|d\.[cm]?ts)$/;
+
+/**
+ * Reads `file` and every other TypeScript file that differs from `revision`
+ * as they were at that revision, keyed by absolute path, so the checker sees
+ * the revision's version of the file and of what it imports. Files added since
+ * the revision are left as they are.
+ */
+export function readRevisionOverlays(file: string, revision: string): Record<string, string> {
+  const absolute = path.resolve(file);
+  const directory = path.dirname(absolute);
+  const root = runGit(["rev-parse", "--show-toplevel"], directory).trim();
+  try {
+    runGit(["rev-parse", "--verify", "--quiet", `${revision}^{commit}`], root);
+  } catch {
+    throw new InvalidQueryError(`Unknown git revision: ${revision}`, { revision });
+  }
+
+  const relative = path.relative(root, absolute).split(path.sep).join("/");
+  const overlays: Record<string, string> = {};
+  const content = readAtRevision(root, revision, relative);
+  if (content === undefined) {
+    throw new FileNotFoundError(`${relative} at ${revision}`);
+  }
+  overlays[absolute] = content;
+
+  const changed = runGit(["diff", "--name-only", "-z", revision, "--"], root).split("\0").filter(Boolean);
+  for (const changedFile of changed) {
+    const changedPath = path.join(root, changedFile);
+    if (changedPath === absolute || !TYPESCRIPT_FILE.test(changedFile)) {
+      continue;
+    }
+    const previous = readAtRevision(root, revision, changedFile);
+    if (previous !== undefined) {
+      overlays[changedPath] = previous;
+    }
+  }
+
+  return overlays;
+}
+
+function readAtRevision(root: string, revision: string, relative: string): string | undefined {
+  try {
+    return execFileSync("git", ["show", `${revision}:${relative}`], {
+      cwd: root,
+      encoding: "utf8",
+      maxBuffer: 64 * 1024 * 1024,
+      stdio: ["ignore", "pipe", "ignore"],
+    });
+  } catch {
+    return undefined;
+  }
+}
+
+function runGit(args: string[], cwd: string): string {
+  try {
+    return execFileSync("git", args, { cwd, encoding: "utf8", maxBuffer: 64 * 1024 * 1024, stdio: ["ignore", "pipe", "pipe"] });
+  } catch (error) {
+    const stderr = (error as { stderr?: string }).stderr?.trim();
+    throw new InvalidQueryError(`git ${args[0]} failed: ${stderr || (error instanceof Error ? error.message : String(error))}`, {
+      args,
+      cwd,
+    });
+  }
+}
@@ -0,0 +1,304 @@
+import path from "node:path";
+import ts from "typescript";
+
+import { InvalidQueryError } from "./errors.js";
+import { collectDeclarations, condenseSnippet, DeclarationInfo, resolveOverlays, resolveQueryTarget, TypeQuery } from "./picker.js";
+import { ProgramContext, ProjectRegistry } from "./project.js";
+
+export interface HierarchyEntryInfo extends DeclarationInfo {
+  name: string;
+  /** How the subtype names the supertype: a heritage clause, or an object literal whose contextual type it is. */
+  relation: "extends" | "implements" | "typed-as";
+  /** 1 for direct supertypes and subtypes, 2 for theirs, and so on. */
+  depth: number;
+  /** The type one step closer to the queried one: the subtype naming this supertype, or the supertype this subtype names. */
+  from: string;
+}
+
+export interface HierarchyResult {
+  file: string;
+  project?: string;
+  symbol: string;
+  kind: "class" | "interface" | "type-alias";
+  declarations: DeclarationInfo[];
+  /** Types the queried one extends or implements, transitively. */
+  supertypes: HierarchyEntryInfo[];
+  /**
+   * Classes, interfaces and object literals that extend, implement or are typed
+   * as it, transitively, in its project and in the projects referencing it.
+   */
+  subtypes: HierarchyEntryInfo[];
+}
+
+interface HeritageEdge {
+  subtype: ts.Symbol;
+  supertypes: ts.Symbol[];
+  relation: "extends" | "implements";
+  declaration: ts.ClassLikeDeclaration | ts.InterfaceDeclaration;
+}
+
+/**
+ * Returns the type hierarchy of the class, interface or type alias at the
+ * query position: supertypes from its heritage clauses, and the subtypes and
+ * implementations declared in the program's source files. Object literals count
+ * as implementations when their contextual type is the queried type or one of
+ * its subtypes, e.g. `const user: User = { … }` or an argument of a `User` parameter.
+ * When the project was found through the `references` of a solution-style
+ * tsconfig, the other projects below it that reference this one are searched too.
+ */
+export function traceHierarchy(query: TypeQuery, projects = new ProjectRegistry()): HierarchyResult {
+  const { context, checker, sourceFile, node } = resolveQueryTarget(query, projects);
+  const located = checker.getSymbolAtLocation(node);
+  const symbol = located && (located.flags & ts.SymbolFlags.Alias) !== 0 ? checker.getAliasedSymbol(located) : located;
+  const kind = symbol ? describeKind(symbol) : undefined;
+  if (!symbol || !kind) {
+    throw new InvalidQueryError(
+      `Hierarchy needs a class, interface or type alias, found ${ts.SyntaxKind[node.kind]} "${condenseSnippet(node.getText(sourceFile), 40)}"`,
+    );
+  }
+
+  return {
+    file: path.normalize(sourceFile.fileName),
+    project: context.configPath,
+    symbol: symbol.getName(),
+    kind,
+    declarations: collectDeclarations(symbol, checker),
+    supertypes: collectSupertypes(symbol, checker),
+    subtypes: collectAllSubtypes(query, symbol, context, projects),
+  };
+}
+
+function collectAllSubtypes(query: TypeQuery, symbol: ts.Symbol, context: ProgramContext, projects: ProjectRegistry): HierarchyEntryInfo[] {
+  const entries = collectSubtypes(symbol, context.program, context.program.getTypeChecker());
+  const root = context.selection.searchedFrom;
+  if (!context.configPath || !root) {
+    return entries;
+  }
+
+  const overlays = resolveOverlays(query.overlays);
+  for (const dependent of projects.getReferencingContexts(context.configPath, root, { overlays })) {
+    const checker = dependent.program.getTypeChecker();
+    const counterpart = findCounterpartSymbol(symbol, dependent.program, checker);
+    if (counterpart) {
+      entries.push(...collectSubtypes(counterpart, dependent.program, checker));
+    }
+  }
+  // Files of the owning project are in every dependent program too, so their entries repeat.
+  const unique = new Map(entries.map((entry) => [`${entry.file}:${entry.line}:${entry.column}`, entry]));
+  return Array.from(unique.values()).sort(compareEntries);
+}
+
+/** The symbol another program has for the declaration of `symbol`, found at the same position in its source file. */
+function findCounterpartSymbol(symbol: ts.Symbol, program: ts.Program, checker: ts.TypeChecker): ts.Symbol | undefined {
+  const declaration = findTypeDeclaration(symbol);
+  const sourceFile = declaration && program.getSourceFile(declaration.getSourceFile().fileName);
+  if (!declaration || !sourceFile) {
+    return undefined;
+  }
+
+  const find = (node: ts.Node): ts.Node | undefined => {
+    if (node.kind === declaration.kind && node.pos === declaration.pos && node.end === declaration.end) {
+      return node;
+    }
+    return node.pos <= declaration.pos && declaration.end <= node.end ? ts.forEachChild(node, find) : undefined;
+  };
+  const counterpart = find(sourceFile);
+  if (counterpart && (ts.isClassLike(counterpart) || ts.isInterfaceDeclaration(counterpart))) {
+    return getDeclaredSymbol(counterpart, checker);
+  }
+  return counterpart && ts.isTypeAliasDeclaration(counterpart) ? checker.getSymbolAtLocation(counterpart.name) : undefined;
+}
+
+function collectSupertypes(symbol: ts.Symbol, checker: ts.TypeChecker): HierarchyEntryInfo[] {
+  const entries: HierarchyEntryInfo[] = [];
+  const visited = new Set<ts.Symbol>([symbol]);
+  let frontier = [symbol];
+
+  for (let depth = 1; frontier.length > 0; depth += 1) {
+    const next: ts.Symbol[] = [];
+    for (const subtype of frontier) {
+      for (const declaration of subtype.getDeclarations() ?? []) {
+        if (!ts.isClassLike(declaration) && !ts.isInterfaceDeclaration(declaration)) {
+          continue;
+        }
+        for (const { relation, supertypes } of readHeritage(declaration, checker)) {
+          // The first symbol is the one the clause names; the rest only identify it.
+          const supertype = supertypes[0];
+          if (!supertype || visited.has(supertype)) {
+            continue;
+          }
+          visited.add(supertype);
+          next.push(supertype);
+          const target = findTypeDeclaration(supertype);
+          if (target) {
+            entries.push(describeEntry(target, supertype.getName(), relation, depth, subtype.getName()));
+          }
+        }
+      }
+    }
+    frontier = next;
+  }
+
+  return entries;
+}
+
+function collectSubtypes(symbol: ts.Symbol, program: ts.Program, checker: ts.TypeChecker): HierarchyEntryInfo[] {
+  const sourceFiles = program
+    .getSourceFiles()
+    .filter((sourceFile) => !sourceFile.isDeclarationFile && !program.isSourceFileFromExternalLibrary(sourceFile));
+
+  const edges: HeritageEdge[] = [];
+  const objectLiterals: ts.ObjectLiteralExpression[] = [];
+  const visit = (node: ts.Node) => {
+    if (ts.isClassLike(node) || ts.isInterfaceDeclaration(node)) {
+      const subtype = getDeclaredSymbol(node, checker);
+      if (subtype) {
+        for (const { relation, supertypes } of readHeritage(node, checker)) {
+          edges.push({ subtype, supertypes, relation, declaration: node });
+        }
+      }
+    } else if (ts.isObjectLiteralExpression(node)) {
+      objectLiterals.push(node);
+    }
+    node.forEachChild(visit);
+  };
+  sourceFiles.forEach(visit);
+
+  const entries: HierarchyEntryInfo[] = [];
+  // Subtypes found so far, by the depth they were found at; object literals typed as any of them are implementations.
+  const depths = new Map<ts.Symbol, number>([[symbol, 0]]);
+  let frontier = [symbol];
+
+  for (let depth = 1; frontier.length > 0; depth += 1) {
+    const next: ts.Symbol[] = [];
+    for (const edge of edges) {
+      const supertype = edge.supertypes.find((candidate) => frontier.includes(candidate));
+      if (!supertype || depths.has(edge.subtype)) {
+        continue;
+      }
+      depths.set(edge.subtype, depth);
+      next.push(edge.subtype);
+      entries.push(describeEntry(edge.declaration, describeTypeName(edge.declaration), edge.relation, depth, supertype.getName()));
+    }
+    frontier = next;
+  }
+
+  for (const literal of objectLiterals) {
+    const contextual = checker.getContextualType(literal);
+    const types = contextual?.isUnion() ? contextual.types : contextual ? [contextual] : [];
+    const supertype = types
+      .flatMap((type) => [type.aliasSymbol, type.getSymbol()])
+      .find((candidate): candidate is ts.Symbol => candidate !== undefined && depths.has(candidate));
+    if (supertype) {
+      entries.push(
+        describeEntry(literal, describeAssignedName(literal, "(object literal)"), "typed-as", depths.get(supertype)! + 1, supertype.getName()),
+      );
+    }
+  }
+
+  return entries.sort(compareEntries);
+}
+
+function compareEntries(a: HierarchyEntryInfo, b: HierarchyEntryInfo): number {
+  return a.depth - b.depth || a.file.localeCompare(b.file) || a.line - b.line || a.column - b.column;
+}
+
+/**
+ * The types each heritage clause names. Every symbol a clause could mean is
+ * listed — the named symbol, the type alias and the instantiated type's symbol —
+ * so `implements Repo<User>` and mixin calls still match the declaration.
+ */
+function readHeritage(
+  declaration: ts.ClassLikeDeclaration | ts.InterfaceDeclaration,
+  checker: ts.TypeChecker,
+): { relation: "extends" | "implements"; supertypes: ts.Symbol[] }[] {
+  return (declaration.heritageClauses ?? []).flatMap((clause) =>
+    clause.types.map((heritageType) => {
+      const named = checker.getSymbolAtLocation(heritageType.expression);
+      const type = checker.getTypeAtLocation(heritageType);
+      const candidates = [
+        named && (named.flags & ts.SymbolFlags.Alias) !== 0 ? checker.getAliasedSymbol(named) : named,
+        type.aliasSymbol,
+        type.getSymbol(),
+      ];
+      return {
+        relation: clause.token === ts.SyntaxKind.ExtendsKeyword ? ("extends" as const) : ("implements" as const),
+        supertypes: [...new Set(candidates.filter((candidate): candidate is ts.Symbol => candidate !== undefined))],
+      };
+    }),
+  );
+}
+
+function getDeclaredSymbol(node: ts.ClassLikeDeclaration | ts.InterfaceDeclaration, checker: ts.TypeChecker): ts.Symbol | undefined {
+  // Anonymous classes (`export default class extends Base {}`, class expressions) are found through their instance type.
+  return node.name ? checker.getSymbolAtLocation(node.name) : checker.getTypeAtLocation(node).getSymbol();
+}
+
+function findTypeDeclaration(symbol: ts.Symbol): ts.Declaration | undefined {
+  const declarations = symbol.getDeclarations() ?? [];
+  return (
+    declarations.find(
+      (declaration) =>
+        ts.isClassLike(declaration) || ts.isInterfaceDeclaration(declaration) || ts.isTypeAliasDeclaration(declaration),
+    ) ?? declarations[0]
+  );
+}
+
+function describeKind(symbol: ts.Symbol): HierarchyResult["kind"] | undefined {
+  if ((symbol.flags & ts.SymbolFlags.Class) !== 0) {
+    return "class";
+  }
+  if ((symbol.flags & ts.SymbolFlags.Interface) !== 0) {
+    return "interface";
+  }
+  if ((symbol.flags & ts.SymbolFlags.TypeAlias) !== 0) {
+    return "type-alias";
+  }
+  return undefined;
+}
+
+function describeTypeName(declaration: ts.ClassLikeDeclaration | ts.InterfaceDeclaration): string {
+  if (declaration.name) {
+    return declaration.name.text;
+  }
+  return ts.isClassExpression(declaration) ? describeAssignedName(declaration, "(anonymous class)") : "default";
+}
+
+/** Names an expression after what it is assigned to, e.g. `defaults` for `const defaults: Config = { … }`. */
+function describeAssignedName(expression: ts.Expression, fallback: string): string {
+  let current: ts.Node = expression.parent;
+  while (ts.isParenthesizedExpression(current) || ts.isSatisfiesExpression(current) || ts.isAsExpression(current)) {
+    current = current.parent;
+  }
+  if (
+    (ts.isVariableDeclaration(current) || ts.isPropertyAssignment(current) || ts.isPropertyDeclaration(current)) &&
+    !ts.isObjectBindingPattern(current.name) &&
+    !ts.isArrayBindingPattern(current.name)
+  ) {
+    return current.name.getText();
+  }
+  return fallback;
+}
+
+function describeEntry(
+  declaration: ts.Node,
+  name: string,
+  relation: HierarchyEntryInfo["relation"],
+  depth: number,
+  from: string,
+): HierarchyEntryInfo {
+  const source = declaration.getSourceFile();
+  const start = declaration.getStart(source, false);
+  const { line, character } = source.getLineAndCharacterOfPosition(start);
+  return {
+    name,
+    relation,
+    depth,
+    from,
+    file: path.normalize(source.fileName),
+    line: line + 1,
+    column: character + 1,
+    kind: ts.SyntaxKind[declaration.kind],
+    snippet: condenseSnippet(source.text.slice(start, declaration.getEnd())),
+  };
+}
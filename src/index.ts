@@ -2,12 +2,97 @@ export type {
   BaseQuery,
   PositionQuery,
   RegexQuery,
+  SymbolQuery,
   TypeQuery,
   TypeInfo,
   DeclarationInfo,
   DiagnosticInfo,
+  RelatedDiagnosticInfo,
   PropertyInfo,
   SignatureInfo,
+  PickOptions,
+  ProjectDiagnostics,
 } from "./picker.js";
+export type { ReferenceInfo } from "./references.js";
+export type { DocumentationInfo, JsDocTagInfo, ParameterDocumentationInfo } from "./documentation.js";
+export type { ExpectedTypeInfo } from "./expected-type.js";
+export type {
+  ExpandOptions,
+  TypeTreeIndexSignature,
+  TypeTreeNode,
+  TypeTreeProperty,
+  TypeTreeSignature,
+  TypeTreeTupleElement,
+} from "./expand.js";
+export type { ResolvedCallInfo, ResolvedParameterInfo } from "./resolved-call.js";
+export type { ExportInfo, ExportsQuery, ModuleExports } from "./exports.js";
+export type { CodeFixInfo, FileFixes, FileFixInfo, FixesQuery, TextEditInfo } from "./code-fixes.js";
+export type { CompletionEntryInfo, CompletionsOptions, CompletionsResult } from "./completions.js";
+export type { SearchMatchInfo, SearchOptions, SearchQuery, SearchResult } from "./search.js";
+export type { AnnotateQuery, AnnotateResult, AnnotationInfo } from "./annotate.js";
+export type {
+  AssignabilityErrorInfo,
+  AssignableOperand,
+  AssignableOperandInfo,
+  AssignableQuery,
+  AssignableResult,
+} from "./assignable.js";
+export type {
+  NarrowingGuardInfo,
+  NarrowingGuardKind,
+  NarrowingReferenceInfo,
+  NarrowingResult,
+} from "./narrowing.js";
+export type { ImportCandidateInfo, ImportCandidatesResult, ImportQuery } from "./auto-import.js";
+export type { HierarchyEntryInfo, HierarchyResult } from "./hierarchy.js";
+export type {
+  TypeChangeInfo,
+  TypeChangeKind,
+  TypeDiffQuery,
+  TypeDiffResult,
+  TypeVersionInfo,
+} from "./type-diff.js";
+export type {
+  AssertionFailureInfo,
+  AssertionResultInfo,
+  AssertionsDocument,
+  CheckOptions,
+  CheckResult,
+  TypeAssertion,
+  TypeExpectations,
+} from "./check.js";
+export type { BatchError, BatchResult } from "./batch.js";
+export type { ProgramContext, ProjectSelection } from "./project.js";
+export type { ErrorInfo, TspErrorCode } from "./errors.js";
+
+export type { McpRequest, McpResponse } from "./mcp.js";
 
-export { pickType } from "./picker.js";
+export { pickDiagnostics, pickType } from "./picker.js";
+export { SCHEMA_VERSION } from "./schema.js";
+export { listModuleExports } from "./exports.js";
+export { listCompletions } from "./completions.js";
+export { traceNarrowing } from "./narrowing.js";
+export { traceHierarchy } from "./hierarchy.js";
+export { diffTypes } from "./type-diff.js";
+export { readRevisionOverlays } from "./git.js";
+export { runAssertions } from "./check.js";
+export { annotateFile } from "./annotate.js";
+export { checkAssignable } from "./assignable.js";
+export { findImportCandidates } from "./auto-import.js";
+export { searchProject } from "./search.js";
+export { applyCodeFix, listFileFixes } from "./code-fixes.js";
+export { handleMcpMessage, serveMcp } from "./mcp.js";
+export { ProjectRegistry } from "./project.js";
+export {
+  AmbiguousSymbolError,
+  ConfigError,
+  EXIT_CODES,
+  FileNotFoundError,
+  InvalidQueryError,
+  ModuleNotFoundError,
+  NoMatchError,
+  PositionOutOfRangeError,
+  ProjectNotFoundError,
+  SymbolNotFoundError,
+  TspError,
+} from "./errors.js";
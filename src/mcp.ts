@@ -0,0 +1,281 @@
+import { readFileSync } from "node:fs";
+import process from "node:process";
+import readline from "node:readline";
+
+import { toBaseQuery, toTypeQuery } from "./batch.js";
+import { InvalidQueryError, toErrorInfo } from "./errors.js";
+import { PickOptions, pickDiagnostics, pickType } from "./picker.js";
+import { ProjectRegistry } from "./project.js";
+
+export interface McpRequest {
+  jsonrpc: "2.0";
+  id?: string | number | null;
+  method: string;
+  params?: unknown;
+}
+
+export interface McpResponse {
+  jsonrpc: "2.0";
+  id: string | number | null;
+  result?: unknown;
+  error?: {
+    code: number;
+    message: string;
+  };
+}
+
+interface McpTool {
+  name: string;
+  title: string;
+  description: string;
+  inputSchema: Record<string, unknown>;
+  run(args: Record<string, unknown>, projects: ProjectRegistry): unknown;
+}
+
+const SUPPORTED_PROTOCOL_VERSIONS = ["2025-06-18", "2025-03-26", "2024-11-05"];
+
+const PARSE_ERROR = -32700;
+const INVALID_REQUEST = -32600;
+const METHOD_NOT_FOUND = -32601;
+const INVALID_PARAMS = -32602;
+
+// Mirrors `BaseQuery`.
+const BASE_QUERY_PROPERTIES = {
+  file: { type: "string", description: "Path to the TypeScript or JavaScript file, absolute or relative to the server's working directory." },
+  project: { type: "string", description: "Path to a tsconfig.json or project directory. Defaults to the project that owns the file." },
+  overlays: {
+    type: "object",
+    additionalProperties: { type: "string" },
+    description: "File path → unsaved text to type-check instead of the contents on disk. May name new files.",
+  },
+};
+
+// Mirrors `PickOptions`.
+const PICK_OPTION_PROPERTIES = {
+  includeReferences: { type: "boolean", description: "Attach every reference to the resolved symbol across the project." },
+  includeFixes: { type: "boolean", description: "Attach code fixes, as text edits, to each diagnostic in the file." },
+  expand: {
+    type: "object",
+    description: "Attach a recursive expansion of the type.",
+    properties: {
+      depth: { type: "integer", minimum: 0, description: "Levels of nested structure to expand." },
+      maxNodes: { type: "integer", minimum: 0, description: "Node budget (default 250)." },
+      maxChars: { type: "integer", minimum: 0, description: "Character budget (default 12000)." },
+    },
+    required: ["depth"],
+  },
+};
+
+const TOOLS: McpTool[] = [
+  {
+    name: "pick_type_at_position",
+    title: "Type at position",
+    description:
+      "Resolves the type of the token at a 1-based line and column: type string, symbol, signatures, properties, " +
+      "declarations, expected type, resolved call and diagnostics.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        ...BASE_QUERY_PROPERTIES,
+        line: { type: "integer", minimum: 1, description: "1-based line of the target token." },
+        column: { type: "integer", minimum: 1, description: "1-based column of the target token." },
+        ...PICK_OPTION_PROPERTIES,
+      },
+      required: ["file", "line", "column"],
+    },
+    run: (args, projects) => pickType(toTypeQuery(pickQueryFields(args, ["line", "column"])), projects, toPickOptions(args)),
+  },
+  {
+    name: "pick_type_by_regex",
+    title: "Type at regex match",
+    description:
+      "Resolves the type of the token at a regex match in the file. Prefer this over line/column when the " +
+      "exact position is unknown; use matchIndex to pick among several matches.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        ...BASE_QUERY_PROPERTIES,
+        regex: { type: "string", description: "JavaScript regular expression locating the token." },
+        regexFlags: { type: "string", description: "Regex flags; global matching is always enabled." },
+        matchIndex: { type: "integer", minimum: 0, description: "Zero-based index of the match to inspect (default 0)." },
+        ...PICK_OPTION_PROPERTIES,
+      },
+      required: ["file", "regex"],
+    },
+    run: (args, projects) =>
+      pickType(toTypeQuery(pickQueryFields(args, ["regex", "regexFlags", "matchIndex"])), projects, toPickOptions(args)),
+  },
+  {
+    name: "project_diagnostics",
+    title: "Project diagnostics",
+    description:
+      "Lists the TypeScript diagnostics for a file and for the whole project that owns it, " +
+      "including which tsconfig was chosen and why.",
+    inputSchema: {
+      type: "object",
+      properties: BASE_QUERY_PROPERTIES,
+      required: ["file"],
+    },
+    run: (args, projects) => pickDiagnostics(toBaseQuery(pickQueryFields(args, [])), projects),
+  },
+];
+
+/**
+ * Answers one MCP (JSON-RPC 2.0) message. Returns undefined for notifications,
+ * which get no response.
+ */
+export function handleMcpMessage(message: unknown, projects: ProjectRegistry): McpResponse | undefined {
+  if (typeof message !== "object" || message === null || Array.isArray(message)) {
+    return mcpError(null, INVALID_REQUEST, "Request must be a JSON-RPC object");
+  }
+
+  const request = message as McpRequest;
+  const id = request.id ?? null;
+  const isNotification = request.id === undefined;
+  if (typeof request.method !== "string") {
+    // Responses from the client (e.g. to a ping we never send) carry no method.
+    return isNotification ? undefined : mcpError(id, INVALID_REQUEST, "Request is missing a method");
+  }
+  if (isNotification) {
+    return undefined;
+  }
+
+  switch (request.method) {
+    case "initialize":
+      return { jsonrpc: "2.0", id, result: describeServer(request.params) };
+    case "ping":
+      return { jsonrpc: "2.0", id, result: {} };
+    case "tools/list":
+      return {
+        jsonrpc: "2.0",
+        id,
+        result: {
+          tools: TOOLS.map(({ name, title, description, inputSchema }) => ({ name, title, description, inputSchema })),
+        },
+      };
+    case "tools/call":
+      return callTool(id, request.params, projects);
+    default:
+      return mcpError(id, METHOD_NOT_FOUND, `Unknown method: ${request.method}`);
+  }
+}
+
+/**
+ * Serves MCP over newline-delimited JSON until `input` closes (stdin/stdout by
+ * default; pass other streams to drive the server from a scripted client). All
+ * tool calls share one project registry, so programs stay warm between calls.
+ */
+export async function serveMcp(
+  projects = new ProjectRegistry(),
+  input: NodeJS.ReadableStream = process.stdin,
+  output: NodeJS.WritableStream = process.stdout,
+): Promise<void> {
+  const lines = readline.createInterface({ input, crlfDelay: Infinity });
+  for await (const line of lines) {
+    if (line.trim().length === 0) {
+      continue;
+    }
+
+    let message: unknown;
+    try {
+      message = JSON.parse(line);
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error);
+      output.write(`${JSON.stringify(mcpError(null, PARSE_ERROR, `Invalid JSON: ${reason}`))}\n`);
+      continue;
+    }
+
+    const response = handleMcpMessage(message, projects);
+    if (response) {
+      output.write(`${JSON.stringify(response)}\n`);
+    }
+  }
+  projects.dispose();
+}
+
+function describeServer(params: unknown) {
+  const requested = (params as { protocolVersion?: unknown } | undefined)?.protocolVersion;
+  const protocolVersion =
+    typeof requested === "string" && SUPPORTED_PROTOCOL_VERSIONS.includes(requested)
+      ? requested
+      : SUPPORTED_PROTOCOL_VERSIONS[0];
+
+  return {
+    protocolVersion,
+    capabilities: { tools: {} },
+    serverInfo: { name: "tsp", version: readPackageVersion() },
+  };
+}
+
+function callTool(id: McpResponse["id"], params: unknown, projects: ProjectRegistry): McpResponse {
+  const { name, arguments: args } = (params ?? {}) as { name?: unknown; arguments?: unknown };
+  const tool = TOOLS.find((candidate) => candidate.name === name);
+  if (!tool) {
+    return mcpError(id, INVALID_PARAMS, `Unknown tool: ${String(name)}`);
+  }
+
+  // Query errors are tool results, so the model sees them and can correct its input.
+  try {
+    const result = tool.run(isObject(args) ? args : {}, projects);
+    return {
+      jsonrpc: "2.0",
+      id,
+      result: {
+        content: [{ type: "text", text: JSON.stringify(result) }],
+        structuredContent: result,
+      },
+    };
+  } catch (error) {
+    const info = toErrorInfo(error);
+    return {
+      jsonrpc: "2.0",
+      id,
+      result: {
+        content: [{ type: "text", text: `Error [${info.code}]: ${info.message}` }],
+        structuredContent: { error: info },
+        isError: true,
+      },
+    };
+  }
+}
+
+function pickQueryFields(args: Record<string, unknown>, fields: string[]): Record<string, unknown> {
+  const query: Record<string, unknown> = { file: args.file, project: args.project, overlays: args.overlays };
+  for (const field of fields) {
+    query[field] = args[field];
+  }
+  return query;
+}
+
+function toPickOptions(args: Record<string, unknown>): PickOptions {
+  const options: PickOptions = {
+    includeReferences: args.includeReferences === true,
+    includeFixes: args.includeFixes === true,
+  };
+
+  if (args.expand !== undefined) {
+    if (!isObject(args.expand) || !Number.isInteger(args.expand.depth)) {
+      throw new InvalidQueryError("\"expand\" must be an object with an integer \"depth\"");
+    }
+    options.expand = {
+      depth: args.expand.depth as number,
+      maxNodes: Number.isInteger(args.expand.maxNodes) ? (args.expand.maxNodes as number) : undefined,
+      maxChars: Number.isInteger(args.expand.maxChars) ? (args.expand.maxChars as number) : undefined,
+    };
+  }
+
+  return options;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function mcpError(id: McpResponse["id"], code: number, message: string): McpResponse {
+  return { jsonrpc: "2.0", id, error: { code, message } };
+}
+
+function readPackageVersion(): string {
+  const pkg = JSON.parse(readFileSync(new URL("../package.json", import.meta.url), "utf8"));
+  return pkg.version ?? "0.0.0";
+}
@@ -0,0 +1,429 @@
+import path from "node:path";
+import ts from "typescript";
+
+import { InvalidQueryError } from "./errors.js";
+import { condenseSnippet, resolveQueryTarget, TYPE_STRING_FORMAT_FLAGS, TypeQuery } from "./picker.js";
+import { ProjectRegistry } from "./project.js";
+
+export type NarrowingGuardKind =
+  | "truthiness"
+  | "typeof"
+  | "instanceof"
+  | "in"
+  | "equality"
+  | "discriminant"
+  | "type-predicate"
+  | "assignment";
+
+export interface NarrowingGuardInfo {
+  kind: NarrowingGuardKind;
+  /** `branch`: the reference sits inside a branch of the condition; `early-exit`: an earlier `if` returned or threw; `assignment`: the variable was assigned. */
+  via: "branch" | "early-exit" | "assignment";
+  /** Whether the reference is where the condition holds (`true`) or fails (`false`). Absent for assignments. */
+  branch?: boolean;
+  text: string;
+  line: number;
+  column: number;
+}
+
+export interface NarrowingReferenceInfo {
+  line: number;
+  column: number;
+  offset: number;
+  access: "declaration" | "read" | "write";
+  typeString: string;
+  /** The type differs from `declaredType`. */
+  narrowed: boolean;
+  /** The type differs from the previous reference's, i.e. something between them narrowed or widened it. */
+  changed: boolean;
+  /** The closest condition or assignment that determines the type here, for narrowed references. */
+  guard?: NarrowingGuardInfo;
+  snippet: string;
+}
+
+export interface NarrowingResult {
+  file: string;
+  project?: string;
+  symbol: string;
+  declaredType: string;
+  /** Function (or file) that contains the declaration; only references inside it are listed. */
+  scope: {
+    kind: string;
+    name?: string;
+    line: number;
+    endLine: number;
+  };
+  references: NarrowingReferenceInfo[];
+}
+
+/**
+ * Lists every reference to the variable or parameter at the query position,
+ * in source order, with the flow-narrowed type the checker assigns there.
+ */
+export function traceNarrowing(query: TypeQuery, projects = new ProjectRegistry()): NarrowingResult {
+  const { context, checker, sourceFile, node } = resolveQueryTarget(query, projects);
+  const symbol = ts.isIdentifier(node) ? checker.getSymbolAtLocation(node) : undefined;
+  const declaration = symbol?.valueDeclaration;
+  if (
+    !symbol ||
+    !declaration ||
+    !(ts.isVariableDeclaration(declaration) || ts.isParameter(declaration) || ts.isBindingElement(declaration))
+  ) {
+    throw new InvalidQueryError(
+      `Narrowing needs a variable or parameter, found ${ts.SyntaxKind[node.kind]} "${condenseSnippet(node.getText(sourceFile), 40)}"`,
+    );
+  }
+
+  const scope = findScope(declaration);
+  const declaredType = checker.typeToString(checker.getTypeOfSymbol(symbol), declaration, TYPE_STRING_FORMAT_FLAGS);
+  const declarationFile = declaration.getSourceFile();
+
+  const references: NarrowingReferenceInfo[] = [];
+  let previousType = declaredType;
+  const visit = (current: ts.Node) => {
+    if (ts.isIdentifier(current) && referencesSymbol(current, symbol, checker)) {
+      const access = current.parent === declaration
+        ? "declaration"
+        : isWriteTarget(current) ? "write" : "read";
+      const typeString = access === "declaration"
+        ? declaredType
+        : checker.typeToString(checker.getTypeAtLocation(current), current, TYPE_STRING_FORMAT_FLAGS);
+      const narrowed = typeString !== declaredType;
+      const offset = current.getStart(declarationFile);
+      const guard = narrowed && access === "read" ? findGuard(current, symbol, scope, checker) : undefined;
+      references.push({
+        ...describeLocation(declarationFile, offset),
+        offset,
+        access,
+        typeString,
+        narrowed,
+        changed: typeString !== previousType,
+        ...(guard ? { guard } : {}),
+        snippet: condenseSnippet(lineText(declarationFile, offset)),
+      });
+      previousType = typeString;
+    }
+    current.forEachChild(visit);
+  };
+  visit(scope);
+
+  const scopeStart = declarationFile.getLineAndCharacterOfPosition(scope.getStart(declarationFile)).line + 1;
+  const scopeEnd = declarationFile.getLineAndCharacterOfPosition(scope.getEnd()).line + 1;
+  return {
+    file: path.normalize(declarationFile.fileName),
+    project: context.configPath,
+    symbol: symbol.getName(),
+    declaredType,
+    scope: {
+      kind: ts.SyntaxKind[scope.kind],
+      name: getScopeName(scope),
+      line: scopeStart,
+      endLine: scopeEnd,
+    },
+    references,
+  };
+}
+
+/** Parameters live in their function; `let`/`const`/`var` in the nearest enclosing function, or the file. */
+function findScope(declaration: ts.Node): ts.Node {
+  for (let current = declaration.parent; current; current = current.parent) {
+    if (ts.isFunctionLike(current) || ts.isSourceFile(current)) {
+      return current;
+    }
+  }
+  return declaration.getSourceFile();
+}
+
+function getScopeName(scope: ts.Node): string | undefined {
+  if (ts.isSourceFile(scope)) {
+    return undefined;
+  }
+  const name = (scope as ts.Node & { name?: ts.Node }).name;
+  if (name && (ts.isIdentifier(name) || ts.isPrivateIdentifier(name) || ts.isStringLiteral(name))) {
+    return name.text;
+  }
+  if (ts.isVariableDeclaration(scope.parent) && ts.isIdentifier(scope.parent.name)) {
+    return scope.parent.name.text;
+  }
+  return undefined;
+}
+
+function referencesSymbol(identifier: ts.Identifier, symbol: ts.Symbol, checker: ts.TypeChecker): boolean {
+  if (ts.isShorthandPropertyAssignment(identifier.parent) && identifier.parent.name === identifier) {
+    return checker.getShorthandAssignmentValueSymbol(identifier.parent) === symbol;
+  }
+  return checker.getSymbolAtLocation(identifier) === symbol;
+}
+
+function isWriteTarget(identifier: ts.Identifier): boolean {
+  let target: ts.Node = identifier;
+  while (ts.isParenthesizedExpression(target.parent)) {
+    target = target.parent;
+  }
+  const parent = target.parent;
+  if (ts.isBinaryExpression(parent) && parent.left === target) {
+    return isAssignmentOperator(parent.operatorToken.kind);
+  }
+  return (ts.isPrefixUnaryExpression(parent) || ts.isPostfixUnaryExpression(parent)) &&
+    (parent.operator === ts.SyntaxKind.PlusPlusToken || parent.operator === ts.SyntaxKind.MinusMinusToken);
+}
+
+function isAssignmentOperator(kind: ts.SyntaxKind): boolean {
+  return kind >= ts.SyntaxKind.FirstAssignment && kind <= ts.SyntaxKind.LastAssignment;
+}
+
+/**
+ * Walks outward from `reference` to the scope and returns the nearest construct
+ * that narrows `symbol` there: an enclosing condition (`if`, `?:`, `&&`, `||`,
+ * `switch` case), an earlier `if` whose branch always exits, or an earlier
+ * assignment. Undefined when none mentions the symbol.
+ */
+function findGuard(
+  reference: ts.Node,
+  symbol: ts.Symbol,
+  scope: ts.Node,
+  checker: ts.TypeChecker,
+): NarrowingGuardInfo | undefined {
+  for (let child = reference, current = reference.parent; current && child !== scope; child = current, current = current.parent) {
+    const fromContainer = findContainerGuard(child, current, symbol, checker);
+    if (fromContainer) {
+      return fromContainer;
+    }
+
+    if (ts.isBlock(current) || ts.isSourceFile(current) || ts.isCaseClause(current) || ts.isDefaultClause(current)) {
+      const statements = current.statements;
+      const index = statements.indexOf(child as ts.Statement);
+      for (let i = index - 1; i >= 0; i -= 1) {
+        const guard = findStatementGuard(statements[i], symbol, checker);
+        if (guard) {
+          return guard;
+        }
+      }
+    }
+  }
+  return undefined;
+}
+
+function findContainerGuard(
+  child: ts.Node,
+  container: ts.Node,
+  symbol: ts.Symbol,
+  checker: ts.TypeChecker,
+): NarrowingGuardInfo | undefined {
+  if (ts.isIfStatement(container) && child !== container.expression) {
+    return describeCondition(container.expression, child === container.thenStatement, "branch", symbol, checker);
+  }
+
+  if (ts.isConditionalExpression(container) && child !== container.condition) {
+    return describeCondition(container.condition, child === container.whenTrue, "branch", symbol, checker);
+  }
+
+  if (ts.isWhileStatement(container) && child === container.statement) {
+    return describeCondition(container.expression, true, "branch", symbol, checker);
+  }
+
+  if (ts.isForStatement(container) && child === container.statement && container.condition) {
+    return describeCondition(container.condition, true, "branch", symbol, checker);
+  }
+
+  if (ts.isBinaryExpression(container) && child === container.right) {
+    const operator = container.operatorToken.kind;
+    if (operator === ts.SyntaxKind.AmpersandAmpersandToken || operator === ts.SyntaxKind.BarBarToken) {
+      return describeCondition(container.left, operator === ts.SyntaxKind.AmpersandAmpersandToken, "branch", symbol, checker);
+    }
+  }
+
+  if (ts.isCaseClause(child) && ts.isCaseBlock(container) && mentionsSymbol(container.parent.expression, symbol, checker)) {
+    const switchExpression = container.parent.expression;
+    const sourceFile = child.getSourceFile();
+    return {
+      kind: classifySwitch(switchExpression),
+      via: "branch",
+      branch: true,
+      text: condenseSnippet(`switch (${switchExpression.getText(sourceFile)}) ${child.getText(sourceFile).split(":")[0]}:`),
+      ...describeLocation(sourceFile, child.getStart(sourceFile)),
+    };
+  }
+
+  return undefined;
+}
+
+function findStatementGuard(
+  statement: ts.Statement,
+  symbol: ts.Symbol,
+  checker: ts.TypeChecker,
+): NarrowingGuardInfo | undefined {
+  if (ts.isIfStatement(statement)) {
+    const thenExits = alwaysExits(statement.thenStatement);
+    const elseExits = statement.elseStatement !== undefined && alwaysExits(statement.elseStatement);
+    if (thenExits !== elseExits) {
+      return describeCondition(statement.expression, !thenExits, "early-exit", symbol, checker);
+    }
+    return undefined;
+  }
+
+  if (ts.isSwitchStatement(statement) && mentionsSymbol(statement.expression, symbol, checker)) {
+    const exits = statement.caseBlock.clauses.some((clause) =>
+      clause.statements.length > 0 && alwaysExits(clause.statements[clause.statements.length - 1]) &&
+      !ts.isBreakStatement(clause.statements[clause.statements.length - 1]),
+    );
+    if (exits) {
+      const sourceFile = statement.getSourceFile();
+      return {
+        kind: classifySwitch(statement.expression),
+        via: "early-exit",
+        branch: false,
+        text: condenseSnippet(`switch (${statement.expression.getText(sourceFile)})`),
+        ...describeLocation(sourceFile, statement.getStart(sourceFile)),
+      };
+    }
+    return undefined;
+  }
+
+  if (ts.isExpressionStatement(statement)) {
+    const expression = skipParentheses(statement.expression);
+    if (
+      ts.isBinaryExpression(expression) &&
+      isAssignmentOperator(expression.operatorToken.kind) &&
+      ts.isIdentifier(skipParentheses(expression.left)) &&
+      checker.getSymbolAtLocation(skipParentheses(expression.left)) === symbol
+    ) {
+      const sourceFile = statement.getSourceFile();
+      return {
+        kind: "assignment",
+        via: "assignment",
+        text: condenseSnippet(expression.getText(sourceFile)),
+        ...describeLocation(sourceFile, expression.getStart(sourceFile)),
+      };
+    }
+  }
+
+  return undefined;
+}
+
+function describeCondition(
+  condition: ts.Expression,
+  branch: boolean,
+  via: NarrowingGuardInfo["via"],
+  symbol: ts.Symbol,
+  checker: ts.TypeChecker,
+): NarrowingGuardInfo | undefined {
+  const kind = classifyCondition(condition, symbol, checker);
+  if (!kind) {
+    return undefined;
+  }
+  const sourceFile = condition.getSourceFile();
+  return {
+    kind,
+    via,
+    branch,
+    text: condenseSnippet(condition.getText(sourceFile)),
+    ...describeLocation(sourceFile, condition.getStart(sourceFile)),
+  };
+}
+
+/** Names the kind of check `condition` performs on `symbol`, or undefined when it does not involve it. */
+function classifyCondition(
+  condition: ts.Expression,
+  symbol: ts.Symbol,
+  checker: ts.TypeChecker,
+): NarrowingGuardKind | undefined {
+  const expression = skipParentheses(condition);
+
+  if (ts.isPrefixUnaryExpression(expression) && expression.operator === ts.SyntaxKind.ExclamationToken) {
+    return classifyCondition(expression.operand, symbol, checker);
+  }
+
+  if (ts.isBinaryExpression(expression)) {
+    const operator = expression.operatorToken.kind;
+    if (
+      operator === ts.SyntaxKind.AmpersandAmpersandToken ||
+      operator === ts.SyntaxKind.BarBarToken ||
+      operator === ts.SyntaxKind.QuestionQuestionToken
+    ) {
+      return classifyCondition(expression.left, symbol, checker) ?? classifyCondition(expression.right, symbol, checker);
+    }
+    if (!mentionsSymbol(expression, symbol, checker)) {
+      return undefined;
+    }
+    if (operator === ts.SyntaxKind.InstanceOfKeyword) {
+      return "instanceof";
+    }
+    if (operator === ts.SyntaxKind.InKeyword) {
+      return "in";
+    }
+    if (
+      operator === ts.SyntaxKind.EqualsEqualsEqualsToken ||
+      operator === ts.SyntaxKind.ExclamationEqualsEqualsToken ||
+      operator === ts.SyntaxKind.EqualsEqualsToken ||
+      operator === ts.SyntaxKind.ExclamationEqualsToken
+    ) {
+      const operands = [skipParentheses(expression.left), skipParentheses(expression.right)];
+      if (operands.some(ts.isTypeOfExpression)) {
+        return "typeof";
+      }
+      return operands.some((operand) => ts.isPropertyAccessExpression(operand) || ts.isElementAccessExpression(operand))
+        ? "discriminant"
+        : "equality";
+    }
+    return undefined;
+  }
+
+  if (ts.isCallExpression(expression)) {
+    if (!expression.arguments.some((argument) => mentionsSymbol(argument, symbol, checker))) {
+      return undefined;
+    }
+    const signature = checker.getResolvedSignature(expression);
+    return signature && checker.getTypePredicateOfSignature(signature) ? "type-predicate" : undefined;
+  }
+
+  return mentionsSymbol(expression, symbol, checker) ? "truthiness" : undefined;
+}
+
+function classifySwitch(expression: ts.Expression): NarrowingGuardKind {
+  const inner = skipParentheses(expression);
+  if (ts.isTypeOfExpression(inner)) {
+    return "typeof";
+  }
+  return ts.isPropertyAccessExpression(inner) || ts.isElementAccessExpression(inner) ? "discriminant" : "equality";
+}
+
+function mentionsSymbol(node: ts.Node, symbol: ts.Symbol, checker: ts.TypeChecker): boolean {
+  if (ts.isIdentifier(node)) {
+    return checker.getSymbolAtLocation(node) === symbol;
+  }
+  return ts.forEachChild(node, (child) => mentionsSymbol(child, symbol, checker) || undefined) ?? false;
+}
+
+/** Whether control never falls through `statement`: it returns, throws, breaks or continues on every path. */
+function alwaysExits(statement: ts.Statement): boolean {
+  if (
+    ts.isReturnStatement(statement) ||
+    ts.isThrowStatement(statement) ||
+    ts.isBreakStatement(statement) ||
+    ts.isContinueStatement(statement)
+  ) {
+    return true;
+  }
+  if (ts.isBlock(statement)) {
+    return statement.statements.length > 0 && alwaysExits(statement.statements[statement.statements.length - 1]);
+  }
+  if (ts.isIfStatement(statement)) {
+    return statement.elseStatement !== undefined && alwaysExits(statement.thenStatement) && alwaysExits(statement.elseStatement);
+  }
+  return false;
+}
+
+function skipParentheses(expression: ts.Expression): ts.Expression {
+  return ts.isParenthesizedExpression(expression) ? skipParentheses(expression.expression) : expression;
+}
+
+function describeLocation(sourceFile: ts.SourceFile, position: number): { line: number; column: number } {
+  const { line, character } = sourceFile.getLineAndCharacterOfPosition(position);
+  return { line: line + 1, column: character + 1 };
+}
+
+function lineText(sourceFile: ts.SourceFile, position: number): string {
+  const { line } = sourceFile.getLineAndCharacterOfPosition(position);
+  return sourceFile.text.slice(sourceFile.getPositionOfLineAndCharacter(line, 0), sourceFile.getLineEndOfPosition(position));
+}
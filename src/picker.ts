@@ -2,9 +2,31 @@ import fs from "node:fs";
 import path from "node:path";
 import ts from "typescript";
 
+import { CodeFixInfo, collectCodeFixes } from "./code-fixes.js";
+import {
+  collectDocumentation,
+  collectSignatureDocumentation,
+  DocumentationInfo,
+  isDeprecatedSymbol,
+  ParameterDocumentationInfo,
+} from "./documentation.js";
+import { FileNotFoundError, InvalidQueryError, NoMatchError, PositionOutOfRangeError } from "./errors.js";
+import { ExpandOptions, expandType, TypeTreeNode } from "./expand.js";
+import { collectExpectedType, ExpectedTypeInfo } from "./expected-type.js";
+import { ProgramContext, ProjectRegistry, ProjectSelection } from "./project.js";
+import { collectResolvedCall, ResolvedCallInfo } from "./resolved-call.js";
+import { collectReferences, ReferenceInfo } from "./references.js";
+import { SCHEMA_VERSION } from "./schema.js";
+import { resolveSymbolPath } from "./symbol-path.js";
+
 export interface BaseQuery {
   file: string;
   project?: string;
+  /**
+   * File path → unsaved text to type-check instead of the contents on disk.
+   * Paths may be relative to the working directory and may name new files.
+   */
+  overlays?: Record<string, string>;
 }
 
 export interface PositionQuery extends BaseQuery {
@@ -18,7 +40,15 @@ export interface RegexQuery extends BaseQuery {
   matchIndex?: number;
 }
 
-export type TypeQuery = PositionQuery | RegexQuery;
+export interface SymbolQuery extends BaseQuery {
+  /**
+   * Exported or top-level symbol path such as `UserService.create`. `.` walks
+   * exports and static members, `#` walks instance members.
+   */
+  symbol: string;
+}
+
+export type TypeQuery = PositionQuery | RegexQuery | SymbolQuery;
 
 export interface DeclarationInfo {
   file: string;
@@ -32,11 +62,17 @@ export interface PropertyInfo {
   name: string;
   type: string;
   optional: boolean;
+  /** The property's declaration carries a `@deprecated` tag. */
+  deprecated: boolean;
 }
 
 export interface SignatureInfo {
   kind: "call" | "construct";
   signature: string;
+  /** Doc comment and tags (`@returns`, `@deprecated`, …) of this overload, when it has any. */
+  documentation?: DocumentationInfo;
+  /** Documented parameters only, from `@param` tags or comments on the parameters. */
+  parameters?: ParameterDocumentationInfo[];
 }
 
 export interface DiagnosticInfo {
@@ -45,12 +81,29 @@ export interface DiagnosticInfo {
   file?: string;
   line?: number;
   column?: number;
+  endLine?: number;
+  endColumn?: number;
   code?: number;
+  relatedInformation?: RelatedDiagnosticInfo[];
+  /** Code fixes for this diagnostic, present when requested through `PickOptions.includeFixes`. */
+  fixes?: CodeFixInfo[];
+}
+
+export interface RelatedDiagnosticInfo {
+  message: string;
+  file?: string;
+  line?: number;
+  column?: number;
+  endLine?: number;
+  endColumn?: number;
 }
 
 export interface TypeInfo {
+  schemaVersion: typeof SCHEMA_VERSION;
   file: string;
   project?: string;
+  /** Why `project` was chosen for the file. */
+  projectSelection: ProjectSelection;
   position: {
     line: number;
     column: number;
@@ -70,75 +123,98 @@ export interface TypeInfo {
       names: string[];
     };
   };
+  /** Doc comment and JSDoc tags of `symbol`, as an editor hover shows them. */
+  documentation?: DocumentationInfo;
   signatures: SignatureInfo[];
   properties: PropertyInfo[];
+  /** Recursive structure of the type, present when requested through `PickOptions.expand`. */
+  expanded?: TypeTreeNode;
+  /** Type the compiler expects at the position (argument slot, return, object member, …), when there is one. */
+  expectedType?: ExpectedTypeInfo;
+  /** Overload and type-argument resolution of the call the position is in, when there is one. */
+  resolvedCall?: ResolvedCallInfo;
   declarations: DeclarationInfo[];
   diagnostics: DiagnosticInfo[];
   projectDiagnostics: DiagnosticInfo[];
+  references?: ReferenceInfo[];
+}
+
+export interface ProjectDiagnostics {
+  file: string;
+  project?: string;
+  projectSelection: ProjectSelection;
+  diagnostics: DiagnosticInfo[];
+  projectDiagnostics: DiagnosticInfo[];
 }
 
-interface ProgramContext {
-  program: ts.Program;
-  host: ts.CompilerHost;
-  configPath?: string;
+/** Formatting used for every `typeString` so results from different commands compare equal. */
+export const TYPE_STRING_FORMAT_FLAGS =
+  ts.TypeFormatFlags.NoTruncation |
+  ts.TypeFormatFlags.UseFullyQualifiedType |
+  ts.TypeFormatFlags.WriteArrowStyleSignature |
+  ts.TypeFormatFlags.AddUndefined |
+  ts.TypeFormatFlags.UseAliasDefinedOutsideCurrentScope;
+
+export interface PickOptions {
+  /** Attach every reference to the resolved symbol across the project. */
+  includeReferences?: boolean;
+  /** Attach a recursive expansion of the type, limited by depth and size budgets. */
+  expand?: ExpandOptions;
+  /** Attach the language service's code fixes to each diagnostic in the queried file. */
+  includeFixes?: boolean;
 }
 
-type QueryResolution = {
+export interface QueryResolution {
+  sourceFile: ts.SourceFile;
   position: number;
   line: number;
   column: number;
   matchedText: string;
-};
-
-const DEFAULT_COMPILER_OPTIONS: ts.CompilerOptions = {
-  allowJs: true,
-  esModuleInterop: true,
-  skipLibCheck: true,
-  strict: true,
-  module: ts.ModuleKind.NodeNext,
-  moduleResolution: ts.ModuleResolutionKind.NodeNext,
-  target: ts.ScriptTarget.ES2022,
-  allowSyntheticDefaultImports: true,
-};
-
-export function pickType(query: TypeQuery): TypeInfo {
-  const resolvedFile = path.resolve(query.file);
-  if (!fs.existsSync(resolvedFile)) {
-    throw new Error(`File not found: ${resolvedFile}`);
-  }
-
-  const programContext = createProgramForFile(resolvedFile, query.project);
-  const { program, host } = programContext;
-  const checker = program.getTypeChecker();
-
-  const canonical = host.getCanonicalFileName(resolvedFile);
-  const sourceFile = program
-    .getSourceFiles()
-    .find((sf) => host.getCanonicalFileName(sf.fileName) === canonical);
+}
 
-  if (!sourceFile) {
-    throw new Error(`Failed to load source file: ${resolvedFile}`);
-  }
+export interface QueryTarget {
+  context: ProgramContext;
+  checker: ts.TypeChecker;
+  /** File holding the resolved position; differs from the query file for symbol paths into other modules. */
+  sourceFile: ts.SourceFile;
+  node: ts.Node;
+  resolution: QueryResolution;
+}
 
-  const resolution = resolvePosition(sourceFile, query);
-  const node = findClosestNode(sourceFile, resolution.position);
+export function pickType(
+  query: TypeQuery,
+  projects = new ProjectRegistry(),
+  options: PickOptions = {},
+): TypeInfo {
+  const target = resolveQueryTarget(query, projects);
+  const { context: programContext, checker, sourceFile: targetFile, node, resolution } = target;
+  const { program } = programContext;
 
   const type = checker.getTypeAtLocation(node);
   const typeFlags = collectTypeFlagNames(type.getFlags());
   const symbol = checker.getSymbolAtLocation(node) ?? type.getSymbol();
 
+  const documentation = symbol ? collectDocumentation(symbol, checker) : undefined;
   const signatures = collectSignatures(type, checker, node);
   const properties = collectProperties(type, checker, node);
+  const expanded = options.expand ? expandType(type, program, node, options.expand) : undefined;
+  const expectedType = collectExpectedType(node, resolution.position, checker);
+  const resolvedCall = collectResolvedCall(node, resolution.position, program);
   const declarations = symbol ? collectDeclarations(symbol, checker) : [];
-  const diagnostics = collectFileDiagnostics(program, sourceFile);
+  const diagnostics = collectFileDiagnostics(programContext, targetFile, options.includeFixes ?? false);
   const projectDiagnostics = collectProgramDiagnostics(program);
+  const references = options.includeReferences
+    ? collectReferences(programContext, node)
+    : undefined;
   const matchedText = resolution.matchedText && resolution.matchedText.length > 0
     ? resolution.matchedText
     : node.getText();
 
   return {
-    file: path.normalize(resolvedFile),
+    schemaVersion: SCHEMA_VERSION,
+    file: path.normalize(targetFile.fileName),
     project: programContext.configPath,
+    projectSelection: programContext.selection,
     position: {
       line: resolution.line,
       column: resolution.column,
@@ -146,15 +222,7 @@ export function pickType(query: TypeQuery): TypeInfo {
     },
     matchedText,
     nodeKind: ts.SyntaxKind[node.kind],
-    typeString: checker.typeToString(
-      type,
-      node,
-      ts.TypeFormatFlags.NoTruncation |
-        ts.TypeFormatFlags.UseFullyQualifiedType |
-        ts.TypeFormatFlags.WriteArrowStyleSignature |
-        ts.TypeFormatFlags.AddUndefined |
-        ts.TypeFormatFlags.UseAliasDefinedOutsideCurrentScope,
-    ),
+    typeString: checker.typeToString(type, node, TYPE_STRING_FORMAT_FLAGS),
     typeFlags: {
       flags: type.getFlags(),
       names: typeFlags,
@@ -173,97 +241,109 @@ export function pickType(query: TypeQuery): TypeInfo {
           },
         }
       : undefined,
+    documentation,
     signatures,
     properties,
+    expanded,
+    expectedType,
+    resolvedCall,
     declarations,
     diagnostics,
     projectDiagnostics,
+    references,
   };
 }
 
-function createProgramForFile(filePath: string, project?: string): ProgramContext {
-  const configPath = resolveProjectConfig(filePath, project);
+/**
+ * Loads the project for `query.file` and resolves the query to the node it
+ * targets. Shared by `pickType` and the other query commands.
+ */
+export function resolveQueryTarget(query: TypeQuery, projects: ProjectRegistry): QueryTarget {
+  const { context: programContext, sourceFile } = loadQueryFile(query, projects);
+  const checker = programContext.program.getTypeChecker();
 
-  if (!configPath) {
-    const compilerHost = ts.createCompilerHost(DEFAULT_COMPILER_OPTIONS, true);
-    return {
-      program: ts.createProgram([filePath], DEFAULT_COMPILER_OPTIONS, compilerHost),
-      host: compilerHost,
-    };
-  }
+  const resolution = resolvePosition(sourceFile, query, checker);
+  const node = findClosestNode(resolution.sourceFile, resolution.position);
 
-  const configFile = ts.readConfigFile(configPath, ts.sys.readFile);
-  if (configFile.error) {
-    const message = ts.flattenDiagnosticMessageText(configFile.error.messageText, "\n");
-    throw new Error(`Failed to read tsconfig at ${configPath}: ${message}`);
-  }
+  return {
+    context: programContext,
+    checker,
+    sourceFile: resolution.sourceFile,
+    node,
+    resolution,
+  };
+}
 
-  const parsed = ts.parseJsonConfigFileContent(
-    configFile.config,
-    ts.sys,
-    path.dirname(configPath),
-    undefined,
-    configPath,
-  );
-
-  if (parsed.errors.length > 0) {
-    const message = parsed.errors
-      .map((diag) => ts.flattenDiagnosticMessageText(diag.messageText, "\n"))
-      .join("\n");
-    throw new Error(`Failed to parse tsconfig at ${configPath}: ${message}`);
+/** Loads the project for `query.file`, applying the query's overlays, and returns the file's source. */
+export function loadQueryFile(
+  query: BaseQuery,
+  projects: ProjectRegistry,
+): { context: ProgramContext; sourceFile: ts.SourceFile } {
+  const resolvedFile = path.resolve(query.file);
+  const overlays = resolveOverlays(query.overlays);
+  if (!overlays.has(resolvedFile) && !fs.existsSync(resolvedFile)) {
+    throw new FileNotFoundError(resolvedFile);
   }
 
-  if (!parsed.fileNames.includes(filePath)) {
-    parsed.fileNames.push(filePath);
+  const context = projects.getContext(resolvedFile, query.project, { overlays });
+  const { program, getCanonicalFileName } = context;
+
+  const canonical = getCanonicalFileName(resolvedFile);
+  const sourceFile = program
+    .getSourceFiles()
+    .find((sf) => getCanonicalFileName(sf.fileName) === canonical);
+
+  if (!sourceFile) {
+    throw new Error(`Failed to load source file: ${resolvedFile}`);
   }
 
-  const compilerHost = ts.createCompilerHost(parsed.options, true);
-  const program = ts.createProgram({
-    rootNames: parsed.fileNames,
-    options: parsed.options,
-    projectReferences: parsed.projectReferences,
-    host: compilerHost,
-  });
+  return { context, sourceFile };
+}
 
+/** Diagnostics for `query.file` and for its whole project, without resolving a position. */
+export function pickDiagnostics(query: BaseQuery, projects = new ProjectRegistry()): ProjectDiagnostics {
+  const { context, sourceFile } = loadQueryFile(query, projects);
   return {
-    program,
-    host: compilerHost,
-    configPath,
+    file: path.normalize(sourceFile.fileName),
+    project: context.configPath,
+    projectSelection: context.selection,
+    diagnostics: collectFileDiagnostics(context, sourceFile, false),
+    projectDiagnostics: collectProgramDiagnostics(context.program),
   };
 }
 
-function resolveProjectConfig(filePath: string, project?: string): string | undefined {
-  if (project) {
-    const resolvedProject = path.resolve(project);
-    if (!fs.existsSync(resolvedProject)) {
-      throw new Error(`Project path does not exist: ${resolvedProject}`);
-    }
-
-    const stat = fs.statSync(resolvedProject);
-    if (stat.isDirectory()) {
-      const candidate = path.join(resolvedProject, "tsconfig.json");
-      if (!fs.existsSync(candidate)) {
-        throw new Error(`No tsconfig.json found in ${resolvedProject}`);
-      }
-      return candidate;
-    }
-
-    const ext = path.extname(resolvedProject);
-    if (ext !== ".json") {
-      throw new Error(`Project file must be a tsconfig.json, got: ${resolvedProject}`);
-    }
-    return resolvedProject;
+export function resolveOverlays(overlays: Record<string, string> | undefined): Map<string, string> {
+  const resolved = new Map<string, string>();
+  for (const [fileName, text] of Object.entries(overlays ?? {})) {
+    resolved.set(path.resolve(fileName), text);
   }
-
-  const directory = path.dirname(filePath);
-  return ts.findConfigFile(directory, ts.sys.fileExists, "tsconfig.json");
+  return resolved;
 }
 
-function resolvePosition(sourceFile: ts.SourceFile, query: TypeQuery): QueryResolution {
+function resolvePosition(
+  sourceFile: ts.SourceFile,
+  query: TypeQuery,
+  checker: ts.TypeChecker,
+): QueryResolution {
+  if (isSymbolQuery(query)) {
+    const { declaration } = resolveSymbolPath(sourceFile, checker, query.symbol);
+    const declarationFile = declaration.getSourceFile();
+    const nameNode = ts.getNameOfDeclaration(declaration) ?? declaration;
+    const position = nameNode.getStart(declarationFile, false);
+    const { line, character } = declarationFile.getLineAndCharacterOfPosition(position);
+    return {
+      sourceFile: declarationFile,
+      position,
+      line: line + 1,
+      column: character + 1,
+      matchedText: nameNode.getText(declarationFile),
+    };
+  }
+
   if (isRegexQuery(query)) {
     const { regex, regexFlags, matchIndex = 0 } = query;
-    const flags = includeGlobalFlag(regexFlags ?? "");
-    const matcher = new RegExp(regex, flags);
+    const matcher = compileQueryRegex(regex, regexFlags);
+    const { flags } = matcher;
     const text = sourceFile.getFullText();
     let match: RegExpExecArray | null = null;
     let index = 0;
@@ -273,6 +353,7 @@ function resolvePosition(sourceFile: ts.SourceFile, query: TypeQuery): QueryReso
         const position = match.index;
         const { line, character } = sourceFile.getLineAndCharacterOfPosition(position);
         return {
+          sourceFile,
           position,
           line: line + 1,
           column: character + 1,
@@ -280,24 +361,48 @@ function resolvePosition(sourceFile: ts.SourceFile, query: TypeQuery): QueryReso
         };
       }
       index += 1;
-      if (!matcher.global) {
-        break;
+      if (match[0].length === 0) {
+        matcher.lastIndex += 1;
       }
     }
 
-    throw new Error(
-      `Regex "${regex}" did not match index ${matchIndex} in ${sourceFile.fileName}`,
+    throw new NoMatchError(
+      `Regex "${regex}" did not match index ${matchIndex} in ${sourceFile.fileName} (${index} match${index === 1 ? "" : "es"} found)`,
+      { regex, flags, matchIndex, matchCount: index, file: path.normalize(sourceFile.fileName) },
     );
   }
 
   const { line, column } = query;
   if (line <= 0 || column <= 0) {
-    throw new Error("Line and column must be 1-based and positive");
+    throw new InvalidQueryError("Line and column must be 1-based and positive", { line, column });
+  }
+
+  const lineStarts = sourceFile.getLineStarts();
+  const file = path.normalize(sourceFile.fileName);
+  if (line > lineStarts.length) {
+    throw new PositionOutOfRangeError(`Line ${line} is past the end of ${file}, which has ${lineStarts.length} lines`, {
+      line,
+      column,
+      lineCount: lineStarts.length,
+      file,
+    });
+  }
+  const lineEnd = line < lineStarts.length ? lineStarts[line] - 1 : sourceFile.text.length;
+  const maxColumn = lineEnd - lineStarts[line - 1] + 1;
+  if (column > maxColumn) {
+    throw new PositionOutOfRangeError(`Column ${column} is past the end of line ${line} in ${file}, which ends at column ${maxColumn}`, {
+      line,
+      column,
+      lineCount: lineStarts.length,
+      maxColumn,
+      file,
+    });
   }
 
   const position = sourceFile.getPositionOfLineAndCharacter(line - 1, column - 1);
 
   return {
+    sourceFile,
     position,
     line,
     column,
@@ -305,7 +410,19 @@ function resolvePosition(sourceFile: ts.SourceFile, query: TypeQuery): QueryReso
   };
 }
 
-function findClosestNode(sourceFile: ts.SourceFile, position: number): ts.Node {
+/** Compiles a query regex with the global flag added, reporting syntax errors as `InvalidQueryError`. */
+export function compileQueryRegex(regex: string, regexFlags = ""): RegExp {
+  const flags = includeGlobalFlag(regexFlags);
+  try {
+    return new RegExp(regex, flags);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new InvalidQueryError(`Invalid regex: ${message}`, { regex, flags });
+  }
+}
+
+/** Innermost node whose span (excluding leading trivia) contains `position`. */
+export function findClosestNode(sourceFile: ts.SourceFile, position: number): ts.Node {
   let bestNode: ts.Node = sourceFile;
 
   const visit = (node: ts.Node) => {
@@ -351,7 +468,7 @@ function isSingleBit(value: number): boolean {
   return value !== 0 && (value & (value - 1)) === 0;
 }
 
-function collectSignatures(
+export function collectSignatures(
   type: ts.Type,
   checker: ts.TypeChecker,
   node: ts.Node,
@@ -360,25 +477,36 @@ function collectSignatures(
   const signatures: SignatureInfo[] = [];
 
   for (const signature of checker.getSignaturesOfType(type, ts.SignatureKind.Call).slice(0, limit)) {
-    signatures.push({
-      kind: "call",
-      signature: checker.signatureToString(signature, node),
-    });
+    signatures.push(describeSignature("call", signature, checker, node));
   }
 
   for (const signature of checker
     .getSignaturesOfType(type, ts.SignatureKind.Construct)
     .slice(0, limit)) {
-    signatures.push({
-      kind: "construct",
-      signature: checker.signatureToString(signature, node),
-    });
+    signatures.push(describeSignature("construct", signature, checker, node));
   }
 
   return signatures;
 }
 
-function collectProperties(
+function describeSignature(
+  kind: SignatureInfo["kind"],
+  signature: ts.Signature,
+  checker: ts.TypeChecker,
+  node: ts.Node,
+): SignatureInfo {
+  const info: SignatureInfo = { kind, signature: checker.signatureToString(signature, node) };
+  const { documentation, parameters } = collectSignatureDocumentation(signature, checker);
+  if (documentation) {
+    info.documentation = documentation;
+  }
+  if (parameters.length > 0) {
+    info.parameters = parameters;
+  }
+  return info;
+}
+
+export function collectProperties(
   type: ts.Type,
   checker: ts.TypeChecker,
   node: ts.Node,
@@ -429,13 +557,14 @@ function collectProperties(
       name,
       type: checker.typeToString(propertyType, declaration ?? node),
       optional: optionalByFlag || optionalByUnion,
+      deprecated: isDeprecatedSymbol(symbol, checker),
     });
   }
 
   return properties;
 }
 
-function collectDeclarations(symbol: ts.Symbol, checker: ts.TypeChecker, limit = 10): DeclarationInfo[] {
+export function collectDeclarations(symbol: ts.Symbol, checker: ts.TypeChecker, limit = 10): DeclarationInfo[] {
   const declarations = symbol.getDeclarations() ?? [];
   return declarations.slice(0, limit).map((declaration) => {
     const source = declaration.getSourceFile();
@@ -455,9 +584,19 @@ function collectDeclarations(symbol: ts.Symbol, checker: ts.TypeChecker, limit =
   });
 }
 
-function collectFileDiagnostics(program: ts.Program, sourceFile: ts.SourceFile): DiagnosticInfo[] {
-  const diagnostics = ts.getPreEmitDiagnostics(program, sourceFile);
-  return diagnostics.map(transformDiagnostic);
+function collectFileDiagnostics(
+  context: ProgramContext,
+  sourceFile: ts.SourceFile,
+  includeFixes: boolean,
+): DiagnosticInfo[] {
+  const diagnostics = ts.getPreEmitDiagnostics(context.program, sourceFile);
+  return diagnostics.map((diagnostic) => {
+    const info = transformDiagnostic(diagnostic);
+    if (includeFixes) {
+      info.fixes = collectCodeFixes(context, diagnostic);
+    }
+    return info;
+  });
 }
 
 function collectProgramDiagnostics(program: ts.Program): DiagnosticInfo[] {
@@ -465,30 +604,44 @@ function collectProgramDiagnostics(program: ts.Program): DiagnosticInfo[] {
   return diagnostics.map(transformDiagnostic);
 }
 
-function transformDiagnostic(diagnostic: ts.Diagnostic): DiagnosticInfo {
+export function transformDiagnostic(diagnostic: ts.Diagnostic): DiagnosticInfo {
   const category = ts.DiagnosticCategory[diagnostic.category].toLowerCase() as DiagnosticInfo["category"];
-  const message = ts.flattenDiagnosticMessageText(diagnostic.messageText, "\n");
-  const diagFile = diagnostic.file;
   const info: DiagnosticInfo = {
     category,
-    message,
+    ...describeDiagnosticLocation(diagnostic),
   };
 
-  if (diagFile && typeof diagnostic.start === "number") {
-    const { line, character } = diagFile.getLineAndCharacterOfPosition(diagnostic.start);
-    info.file = path.normalize(diagFile.fileName);
-    info.line = line + 1;
-    info.column = character + 1;
-  }
-
   if (typeof diagnostic.code === "number") {
     info.code = diagnostic.code;
   }
 
+  if (diagnostic.relatedInformation && diagnostic.relatedInformation.length > 0) {
+    info.relatedInformation = diagnostic.relatedInformation.map(describeDiagnosticLocation);
+  }
+
   return info;
 }
 
-function condenseSnippet(snippet: string, maxLength = 160): string {
+function describeDiagnosticLocation(diagnostic: ts.Diagnostic | ts.DiagnosticRelatedInformation): RelatedDiagnosticInfo {
+  const info: RelatedDiagnosticInfo = {
+    message: ts.flattenDiagnosticMessageText(diagnostic.messageText, "\n"),
+  };
+
+  const diagFile = diagnostic.file;
+  if (diagFile && typeof diagnostic.start === "number") {
+    const start = diagFile.getLineAndCharacterOfPosition(diagnostic.start);
+    const end = diagFile.getLineAndCharacterOfPosition(diagnostic.start + (diagnostic.length ?? 0));
+    info.file = path.normalize(diagFile.fileName);
+    info.line = start.line + 1;
+    info.column = start.character + 1;
+    info.endLine = end.line + 1;
+    info.endColumn = end.character + 1;
+  }
+
+  return info;
+}
+
+export function condenseSnippet(snippet: string, maxLength = 160): string {
   const singleLine = snippet.replace(/\s+/g, " ").trim();
   if (singleLine.length <= maxLength) {
     return singleLine;
@@ -500,6 +653,10 @@ function isRegexQuery(query: TypeQuery): query is RegexQuery {
   return (query as RegexQuery).regex !== undefined;
 }
 
+function isSymbolQuery(query: TypeQuery): query is SymbolQuery {
+  return (query as SymbolQuery).symbol !== undefined;
+}
+
 function includeGlobalFlag(flags: string): string {
   return flags.includes("g") ? flags : `${flags}g`;
 }
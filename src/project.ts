@@ -0,0 +1,478 @@
+import { createHash } from "node:crypto";
+import fs from "node:fs";
+import path from "node:path";
+import ts from "typescript";
+
+import { ConfigError, ProjectNotFoundError } from "./errors.js";
+
+export const DEFAULT_COMPILER_OPTIONS: ts.CompilerOptions = {
+  allowJs: true,
+  esModuleInterop: true,
+  skipLibCheck: true,
+  strict: true,
+  module: ts.ModuleKind.NodeNext,
+  moduleResolution: ts.ModuleResolutionKind.NodeNext,
+  target: ts.ScriptTarget.ES2022,
+  allowSyntheticDefaultImports: true,
+};
+
+export interface ProgramContext {
+  program: ts.Program;
+  languageService: ts.LanguageService;
+  configPath?: string;
+  /** Why `configPath` was chosen for the requested file. */
+  selection: ProjectSelection;
+  getCanonicalFileName(fileName: string): string;
+}
+
+export interface ProjectSelection {
+  /**
+   * - `includes-file`: the nearest (or `--project`) tsconfig lists the file.
+   * - `referenced`: a project reachable through `references` lists the file.
+   * - `fallback`: no candidate lists the file; it was added as a root of the nearest (or `--project`) tsconfig.
+   * - `inferred`: no tsconfig was found; default compiler options are used.
+   */
+  reason: "includes-file" | "referenced" | "fallback" | "inferred";
+  /** Whether the search started from `--project` rather than the nearest tsconfig.json. */
+  explicit: boolean;
+  /** The tsconfig the search started from, when it differs from the chosen one. */
+  searchedFrom?: string;
+}
+
+interface ParsedProjectConfig {
+  fileNames: string[];
+  /** Canonical names of `fileNames`, for ownership checks. */
+  fileNameSet: Set<string>;
+  options: ts.CompilerOptions;
+  projectReferences?: readonly ts.ProjectReference[];
+}
+
+export interface ContextOptions {
+  /** Additional root files, such as a package's declaration entry point. */
+  extraRootFiles?: readonly string[];
+  /** Absolute file path → text used instead of the file's contents on disk. */
+  overlays?: ReadonlyMap<string, string>;
+}
+
+interface CachedSnapshot {
+  version: string;
+  snapshot: ts.IScriptSnapshot;
+}
+
+const INFERRED_PROJECT_KEY = "<inferred>";
+/** File times come from a coarse clock (whole seconds on some file systems) and can trail `Date.now()`. */
+const FILE_TIME_SLACK_MS = 2000;
+
+/**
+ * Keeps one language service per resolved tsconfig so repeated queries reuse
+ * the previous program. Script versions are derived from file mtimes, which
+ * makes the language service pick up edits on disk without explicit watchers.
+ * A file is served by the project that lists it: the nearest tsconfig.json, or
+ * one reachable through its `references` (e.g. below a solution-style root).
+ */
+export class ProjectRegistry {
+  private readonly projects = new Map<string, Project>();
+  private readonly documentRegistry = ts.createDocumentRegistry(ts.sys.useCaseSensitiveFileNames);
+
+  /**
+   * Returns the warm program for the project owning `filePath`, adding the file
+   * (and any extra root files) as roots when the config does not already
+   * include them. Overlays apply to this call only; the next call without them
+   * sees the files on disk again.
+   */
+  getContext(filePath: string, project?: string, options: ContextOptions = {}): ProgramContext {
+    const { entry, selection } = this.selectProject(filePath, project);
+
+    entry.setOverlays(options.overlays ?? new Map());
+    entry.addRootFile(filePath);
+    for (const extraRootFile of options.extraRootFiles ?? []) {
+      entry.addRootFile(extraRootFile);
+    }
+    return { ...entry.getContext(), selection };
+  }
+
+  /**
+   * Lists the files of the tsconfig found from `directory` (or named by
+   * `project`) and of every project it references, without declaration files.
+   */
+  listProjectFiles(directory: string, project?: string): string[] {
+    const configPath = resolveProjectConfig(path.join(directory, "tsconfig.json"), project);
+    if (!configPath) {
+      throw new ProjectNotFoundError(`No tsconfig.json found from ${directory}`, directory);
+    }
+
+    const files = new Set<string>();
+    const visited = new Set<string>();
+    const queue = [configPath];
+    while (queue.length > 0) {
+      const current = queue.shift()!;
+      if (visited.has(current) || !fs.existsSync(current)) {
+        continue;
+      }
+      visited.add(current);
+
+      const entry = this.getProject(current);
+      for (const fileName of entry.getConfigFileNames()) {
+        if (!fileName.endsWith(".d.ts") && !fileName.endsWith(".d.mts") && !fileName.endsWith(".d.cts")) {
+          files.add(path.normalize(fileName));
+        }
+      }
+      queue.push(...entry.getReferencedConfigPaths());
+    }
+    return Array.from(files).sort();
+  }
+
+  /**
+   * Returns the programs of the projects reachable from `root` (a
+   * solution-style tsconfig) that reference `configPath`, directly or through
+   * other references. Their programs see its files as sources, so they hold the
+   * code that builds on it. Overlays apply as for `getContext`.
+   */
+  getReferencingContexts(configPath: string, root: string, options: ContextOptions = {}): Omit<ProgramContext, "selection">[] {
+    const references = new Map<string, string[]>();
+    const queue = [root];
+    while (queue.length > 0) {
+      const current = queue.shift()!;
+      if (references.has(current) || !fs.existsSync(current)) {
+        continue;
+      }
+      const referenced = this.getProject(current).getReferencedConfigPaths();
+      references.set(current, referenced);
+      queue.push(...referenced);
+    }
+
+    // Grow the set from `configPath` until no other project references one in it.
+    const dependents = new Set<string>([configPath]);
+    for (let grew = true; grew; ) {
+      grew = false;
+      for (const [current, referenced] of references) {
+        if (!dependents.has(current) && referenced.some((reference) => dependents.has(reference))) {
+          dependents.add(current);
+          grew = true;
+        }
+      }
+    }
+    dependents.delete(configPath);
+
+    return Array.from(dependents, (dependent) => {
+      const entry = this.getProject(dependent);
+      entry.setOverlays(options.overlays ?? new Map());
+      return entry.getContext();
+    });
+  }
+
+  get size(): number {
+    return this.projects.size;
+  }
+
+  private selectProject(filePath: string, project?: string): { entry: Project; selection: ProjectSelection } {
+    const explicit = project !== undefined;
+    const configPath = resolveProjectConfig(filePath, project);
+    const root = this.getProject(configPath);
+    if (!configPath) {
+      return { entry: root, selection: { reason: "inferred", explicit } };
+    }
+    if (root.includesFile(filePath)) {
+      return { entry: root, selection: { reason: "includes-file", explicit } };
+    }
+
+    // Breadth-first through `references`, so the closest owning project wins.
+    const visited = new Set<string>([configPath]);
+    const queue = root.getReferencedConfigPaths();
+    while (queue.length > 0) {
+      const referencePath = queue.shift()!;
+      if (visited.has(referencePath) || !fs.existsSync(referencePath)) {
+        continue;
+      }
+      visited.add(referencePath);
+
+      const referenced = this.getProject(referencePath);
+      if (referenced.includesFile(filePath)) {
+        return { entry: referenced, selection: { reason: "referenced", explicit, searchedFrom: configPath } };
+      }
+      queue.push(...referenced.getReferencedConfigPaths());
+    }
+
+    return { entry: root, selection: { reason: "fallback", explicit } };
+  }
+
+  private getProject(configPath: string | undefined): Project {
+    const key = configPath ?? INFERRED_PROJECT_KEY;
+    let entry = this.projects.get(key);
+    if (!entry) {
+      entry = new Project(configPath, this.documentRegistry);
+      this.projects.set(key, entry);
+    }
+    return entry;
+  }
+
+  dispose(): void {
+    for (const project of this.projects.values()) {
+      project.dispose();
+    }
+    this.projects.clear();
+  }
+}
+
+class Project {
+  private readonly languageService: ts.LanguageService;
+  private readonly snapshots = new Map<string, CachedSnapshot>();
+  private readonly extraRootFiles = new Set<string>();
+  private overlays = new Map<string, { text: string; version: string }>();
+  private config: ParsedProjectConfig;
+  private configStamp?: string;
+  /** When the config was last parsed, so files created since can be matched against `include` again. */
+  private configLoadedAt = 0;
+  /** The error of the last parse, rethrown until the tsconfig changes again. */
+  private configError?: unknown;
+
+  constructor(
+    readonly configPath: string | undefined,
+    documentRegistry: ts.DocumentRegistry,
+  ) {
+    this.config = this.loadConfig();
+    this.languageService = ts.createLanguageService(this.createHost(), documentRegistry);
+  }
+
+  addRootFile(filePath: string): void {
+    if (this.config.fileNameSet.has(getCanonicalFileName(filePath)) || this.extraRootFiles.has(filePath)) {
+      return;
+    }
+    this.extraRootFiles.add(filePath);
+  }
+
+  setOverlays(overlays: ReadonlyMap<string, string>): void {
+    const next = new Map<string, { text: string; version: string }>();
+    for (const [fileName, text] of overlays) {
+      next.set(fileName, { text, version: `overlay:${createHash("sha1").update(text).digest("hex")}` });
+    }
+
+    const unchanged = next.size === this.overlays.size &&
+      Array.from(next).every(([fileName, overlay]) => this.overlays.get(fileName)?.version === overlay.version);
+    if (unchanged) {
+      return;
+    }
+
+    this.overlays = next;
+  }
+
+  includesFile(filePath: string): boolean {
+    this.refreshConfig();
+    if (this.config.fileNameSet.has(getCanonicalFileName(filePath))) {
+      return true;
+    }
+    // A file created after the config was parsed is only listed once `include` is matched again.
+    if (this.configPath && (readFileChangeTime(filePath) ?? 0) > this.configLoadedAt - FILE_TIME_SLACK_MS) {
+      this.reloadConfig();
+      return this.config.fileNameSet.has(getCanonicalFileName(filePath));
+    }
+    return false;
+  }
+
+  getConfigFileNames(): readonly string[] {
+    this.refreshConfig();
+    return this.config.fileNames;
+  }
+
+  getReferencedConfigPaths(): string[] {
+    this.refreshConfig();
+    return (this.config.projectReferences ?? []).map((reference) => ts.resolveProjectReferencePath(reference));
+  }
+
+  getContext(): Omit<ProgramContext, "selection"> {
+    this.refreshConfig();
+    const program = this.languageService.getProgram();
+    if (!program) {
+      throw new Error(`Failed to create program for ${this.configPath ?? "inferred project"}`);
+    }
+
+    return {
+      program,
+      languageService: this.languageService,
+      configPath: this.configPath,
+      getCanonicalFileName,
+    };
+  }
+
+  dispose(): void {
+    this.languageService.dispose();
+    this.snapshots.clear();
+  }
+
+  private refreshConfig(): void {
+    if (!this.configPath) {
+      return;
+    }
+    if (readFileStamp(this.configPath) !== this.configStamp) {
+      this.reloadConfig();
+    } else if (this.configError !== undefined) {
+      throw this.configError;
+    }
+  }
+
+  private reloadConfig(): void {
+    try {
+      this.config = this.loadConfig();
+      this.configError = undefined;
+    } catch (error) {
+      this.configError = error;
+      throw error;
+    }
+  }
+
+  private loadConfig(): ParsedProjectConfig {
+    if (!this.configPath) {
+      return { fileNames: [], fileNameSet: new Set(), options: DEFAULT_COMPILER_OPTIONS };
+    }
+
+    // Stamped before parsing, so an edit made while parsing is seen by the next query.
+    this.configStamp = readFileStamp(this.configPath);
+    this.configLoadedAt = Date.now();
+    return parseProjectConfig(this.configPath);
+  }
+
+  private getRootFileNames(): string[] {
+    const rootNames = [...this.config.fileNames];
+    for (const fileName of this.extraRootFiles) {
+      if (!rootNames.includes(fileName)) {
+        rootNames.push(fileName);
+      }
+    }
+    return rootNames;
+  }
+
+  private getScriptVersion(fileName: string): string {
+    return this.overlays.get(fileName)?.version ?? readFileStamp(fileName) ?? "missing";
+  }
+
+  private getScriptSnapshot(fileName: string): ts.IScriptSnapshot | undefined {
+    const version = this.getScriptVersion(fileName);
+    const cached = this.snapshots.get(fileName);
+    if (cached && cached.version === version) {
+      return cached.snapshot;
+    }
+
+    const text = this.readFile(fileName);
+    if (text === undefined) {
+      this.snapshots.delete(fileName);
+      return undefined;
+    }
+
+    const snapshot = ts.ScriptSnapshot.fromString(text);
+    this.snapshots.set(fileName, { version, snapshot });
+    return snapshot;
+  }
+
+  private readFile(fileName: string): string | undefined {
+    return this.overlays.get(fileName)?.text ?? ts.sys.readFile(fileName);
+  }
+
+  private fileExists(fileName: string): boolean {
+    return this.overlays.has(fileName) || ts.sys.fileExists(fileName);
+  }
+
+  private createHost(): ts.LanguageServiceHost {
+    const currentDirectory = this.configPath ? path.dirname(this.configPath) : process.cwd();
+
+    // Not part of the public host type, but honored by the language service: like
+    // editors, resolve imports of referenced projects to their sources rather than
+    // their (possibly stale or unbuilt) declaration outputs. Projects can opt out
+    // with `disableSourceOfProjectReferenceRedirect`.
+    const host: ts.LanguageServiceHost & { useSourceOfProjectReferenceRedirect(): boolean } = {
+      useSourceOfProjectReferenceRedirect: () => true,
+      getCompilationSettings: () => this.config.options,
+      getProjectReferences: () => this.config.projectReferences,
+      getScriptFileNames: () => this.getRootFileNames(),
+      getScriptVersion: (fileName) => this.getScriptVersion(fileName),
+      getScriptSnapshot: (fileName) => this.getScriptSnapshot(fileName),
+      getCurrentDirectory: () => currentDirectory,
+      getDefaultLibFileName: (options) => ts.getDefaultLibFilePath(options),
+      useCaseSensitiveFileNames: () => ts.sys.useCaseSensitiveFileNames,
+      fileExists: (fileName) => this.fileExists(fileName),
+      readFile: (fileName) => this.readFile(fileName),
+      readDirectory: ts.sys.readDirectory,
+      directoryExists: ts.sys.directoryExists,
+      getDirectories: ts.sys.getDirectories,
+      realpath: ts.sys.realpath,
+    };
+    return host;
+  }
+}
+
+export function resolveProjectConfig(filePath: string, project?: string): string | undefined {
+  if (project) {
+    const resolvedProject = path.resolve(project);
+    if (!fs.existsSync(resolvedProject)) {
+      throw new ProjectNotFoundError(`Project path does not exist: ${resolvedProject}`, resolvedProject);
+    }
+
+    const stat = fs.statSync(resolvedProject);
+    if (stat.isDirectory()) {
+      const candidate = path.join(resolvedProject, "tsconfig.json");
+      if (!fs.existsSync(candidate)) {
+        throw new ProjectNotFoundError(`No tsconfig.json found in ${resolvedProject}`, resolvedProject);
+      }
+      return candidate;
+    }
+
+    const ext = path.extname(resolvedProject);
+    if (ext !== ".json") {
+      throw new ProjectNotFoundError(`Project file must be a tsconfig.json, got: ${resolvedProject}`, resolvedProject);
+    }
+    return resolvedProject;
+  }
+
+  const directory = path.dirname(filePath);
+  return ts.findConfigFile(directory, ts.sys.fileExists, "tsconfig.json");
+}
+
+function parseProjectConfig(configPath: string): ParsedProjectConfig {
+  const configFile = ts.readConfigFile(configPath, ts.sys.readFile);
+  if (configFile.error) {
+    const message = ts.flattenDiagnosticMessageText(configFile.error.messageText, "\n");
+    throw new ConfigError(`Failed to read tsconfig at ${configPath}: ${message}`, configPath, [message]);
+  }
+
+  const parsed = ts.parseJsonConfigFileContent(
+    configFile.config,
+    ts.sys,
+    path.dirname(configPath),
+    undefined,
+    configPath,
+  );
+
+  if (parsed.errors.length > 0) {
+    const messages = parsed.errors.map((diag) => ts.flattenDiagnosticMessageText(diag.messageText, "\n"));
+    throw new ConfigError(`Failed to parse tsconfig at ${configPath}: ${messages.join("\n")}`, configPath, messages);
+  }
+
+  return {
+    fileNames: parsed.fileNames,
+    fileNameSet: new Set(parsed.fileNames.map((fileName) => getCanonicalFileName(path.resolve(fileName)))),
+    options: parsed.options,
+    projectReferences: parsed.projectReferences,
+  };
+}
+
+function readFileStamp(fileName: string): string | undefined {
+  try {
+    const stat = fs.statSync(fileName);
+    return `${stat.mtimeMs}:${stat.size}`;
+  } catch {
+    return undefined;
+  }
+}
+
+/** The later of a file's mtime and ctime; a file copied or moved into place can keep an old mtime. */
+function readFileChangeTime(fileName: string): number | undefined {
+  try {
+    const stat = fs.statSync(fileName);
+    return Math.max(stat.mtimeMs, stat.ctimeMs);
+  } catch {
+    return undefined;
+  }
+}
+
+function getCanonicalFileName(fileName: string): string {
+  return ts.sys.useCaseSensitiveFileNames ? fileName : fileName.toLowerCase();
+}
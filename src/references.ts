@@ -0,0 +1,148 @@
+import path from "node:path";
+import ts from "typescript";
+
+import { condenseSnippet } from "./picker.js";
+import { ProgramContext } from "./project.js";
+
+export interface ReferenceInfo {
+  file: string;
+  line: number;
+  column: number;
+  access: "read" | "write" | "import";
+  isDefinition: boolean;
+  /** Qualified name of the closest named declaration containing the reference, e.g. `UserService.save`. */
+  enclosing?: string;
+  snippet: string;
+}
+
+/**
+ * Lists every reference to the symbol at `node` across the project's program,
+ * sorted by file and position. Uses the language service's find-all-references,
+ * so aliases, re-exports and shorthand properties are followed like in an editor.
+ */
+export function collectReferences(context: ProgramContext, node: ts.Node): ReferenceInfo[] {
+  const { program, languageService } = context;
+  const sourceFile = node.getSourceFile();
+  const referencedSymbols = languageService.findReferences(sourceFile.fileName, node.getStart(sourceFile)) ?? [];
+
+  const seen = new Set<string>();
+  const references: ReferenceInfo[] = [];
+
+  for (const referenced of referencedSymbols) {
+    for (const entry of referenced.references) {
+      const key = `${entry.fileName}:${entry.textSpan.start}`;
+      if (seen.has(key)) {
+        continue;
+      }
+      seen.add(key);
+
+      const referenceFile = program.getSourceFile(entry.fileName);
+      if (!referenceFile) {
+        continue;
+      }
+
+      const referenceNode = findTokenAt(referenceFile, entry.textSpan.start);
+      const { line, character } = referenceFile.getLineAndCharacterOfPosition(entry.textSpan.start);
+      const lineStart = referenceFile.getPositionOfLineAndCharacter(line, 0);
+      const lineEnd = referenceFile.getLineEndOfPosition(entry.textSpan.start);
+
+      references.push({
+        file: path.normalize(entry.fileName),
+        line: line + 1,
+        column: character + 1,
+        access: isImportReference(referenceNode) ? "import" : entry.isWriteAccess ? "write" : "read",
+        isDefinition: entry.isDefinition ?? false,
+        enclosing: describeEnclosingDeclaration(referenceNode),
+        snippet: condenseSnippet(referenceFile.text.slice(lineStart, lineEnd)),
+      });
+    }
+  }
+
+  return references.sort((a, b) => a.file.localeCompare(b.file) || a.line - b.line || a.column - b.column);
+}
+
+function findTokenAt(sourceFile: ts.SourceFile, position: number): ts.Node {
+  let found: ts.Node = sourceFile;
+  const visit = (node: ts.Node) => {
+    if (position >= node.getStart(sourceFile) && position < node.getEnd()) {
+      found = node;
+      node.forEachChild(visit);
+    }
+  };
+  sourceFile.forEachChild(visit);
+  return found;
+}
+
+function isImportReference(node: ts.Node): boolean {
+  for (let current: ts.Node | undefined = node; current; current = current.parent) {
+    if (
+      ts.isImportDeclaration(current) ||
+      ts.isImportEqualsDeclaration(current) ||
+      (ts.isExportDeclaration(current) && current.moduleSpecifier !== undefined) ||
+      ts.isImportTypeNode(current)
+    ) {
+      return true;
+    }
+    if (ts.isStatement(current) || ts.isSourceFile(current)) {
+      return false;
+    }
+  }
+  return false;
+}
+
+function describeEnclosingDeclaration(node: ts.Node): string | undefined {
+  const names: string[] = [];
+  // Skip the declaration the reference names itself so definitions report their container.
+  let current = isDeclarationName(node) ? node.parent.parent : node.parent;
+
+  for (; current && !ts.isSourceFile(current); current = current.parent) {
+    const name = getDeclarationName(current);
+    if (name) {
+      names.unshift(name);
+    }
+  }
+
+  return names.length > 0 ? names.join(".") : undefined;
+}
+
+function isDeclarationName(node: ts.Node): boolean {
+  const parent = node.parent;
+  return parent !== undefined && ts.getNameOfDeclaration(parent as ts.Declaration) === node;
+}
+
+function getDeclarationName(node: ts.Node): string | undefined {
+  if (
+    ts.isFunctionDeclaration(node) ||
+    ts.isClassDeclaration(node) ||
+    ts.isClassExpression(node) ||
+    ts.isInterfaceDeclaration(node) ||
+    ts.isModuleDeclaration(node) ||
+    ts.isMethodDeclaration(node) ||
+    ts.isPropertyDeclaration(node) ||
+    ts.isGetAccessorDeclaration(node) ||
+    ts.isSetAccessorDeclaration(node) ||
+    ts.isEnumDeclaration(node) ||
+    ts.isTypeAliasDeclaration(node)
+  ) {
+    return node.name?.getText();
+  }
+
+  if (ts.isConstructorDeclaration(node)) {
+    return "constructor";
+  }
+
+  // Locals inside function bodies are noise; keep module-level variables and named function values.
+  if (ts.isVariableDeclaration(node) && ts.isIdentifier(node.name)) {
+    const statementContainer = node.parent.parent.parent;
+    const isModuleLevel = ts.isSourceFile(statementContainer) || ts.isModuleBlock(statementContainer);
+    const isFunctionValue = node.initializer !== undefined &&
+      (ts.isFunctionExpression(node.initializer) || ts.isArrowFunction(node.initializer));
+    return isModuleLevel || isFunctionValue ? node.name.text : undefined;
+  }
+
+  if (ts.isPropertyAssignment(node) && (ts.isFunctionExpression(node.initializer) || ts.isArrowFunction(node.initializer))) {
+    return node.name.getText();
+  }
+
+  return undefined;
+}
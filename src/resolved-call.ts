@@ -0,0 +1,212 @@
+import path from "node:path";
+import ts from "typescript";
+
+import { findArgumentIndex } from "./expected-type.js";
+import { TYPE_STRING_FORMAT_FLAGS } from "./picker.js";
+
+export interface ResolvedParameterInfo {
+  name: string;
+  type: string;
+  optional: boolean;
+  rest: boolean;
+}
+
+export interface ResolvedCallInfo {
+  kind: "call" | "new" | "taggedTemplate" | "jsx" | "decorator";
+  callee: string;
+  /** The overload the checker picked, instantiated with the inferred type arguments. */
+  signature: string;
+  /** Index of the picked overload among `overloadCount` candidates, when it could be matched. */
+  overloadIndex?: number;
+  overloadCount: number;
+  declaration?: {
+    file: string;
+    line: number;
+    column: number;
+  };
+  typeArguments: Record<string, string>;
+  parameters: ResolvedParameterInfo[];
+  returnType: string;
+  /** Zero-based argument slot holding the queried position, for call and new expressions. */
+  argumentIndex?: number;
+  /** Overload resolution or argument errors reported for this call. */
+  errors: string[];
+}
+
+type CallSite =
+  | ts.CallExpression
+  | ts.NewExpression
+  | ts.TaggedTemplateExpression
+  | ts.Decorator
+  | ts.JsxOpeningLikeElement;
+
+/**
+ * Describes the call-like expression that is, or most closely encloses, `node`:
+ * which overload was chosen, the inferred type arguments, and each parameter's
+ * instantiated type. The search stops at the enclosing statement block.
+ */
+export function collectResolvedCall(
+  node: ts.Node,
+  position: number,
+  program: ts.Program,
+): ResolvedCallInfo | undefined {
+  const call = findEnclosingCall(node);
+  if (!call) {
+    return undefined;
+  }
+
+  const checker = program.getTypeChecker();
+  const candidates: ts.Signature[] = [];
+  const signature = checker.getResolvedSignature(call, candidates);
+  if (!signature) {
+    return undefined;
+  }
+
+  const declaration = signature.getDeclaration() as ts.SignatureDeclaration | undefined;
+  const overloadIndex = declaration
+    ? candidates.findIndex((candidate) => candidate.getDeclaration() === declaration)
+    : -1;
+
+  return {
+    kind: describeCallKind(call),
+    callee: ts.isDecorator(call) ? call.expression.getText() : getCallee(call).getText(),
+    signature: checker.signatureToString(signature, call),
+    overloadIndex: overloadIndex >= 0 ? overloadIndex : undefined,
+    overloadCount: candidates.length,
+    declaration: declaration ? describeLocation(declaration) : undefined,
+    typeArguments: collectTypeArguments(signature, declaration, checker, call),
+    parameters: signature.getParameters().map((parameter) => describeParameter(parameter, checker, call)),
+    returnType: checker.typeToString(checker.getReturnTypeOfSignature(signature), call, TYPE_STRING_FORMAT_FLAGS),
+    argumentIndex: ts.isCallExpression(call) || ts.isNewExpression(call) ? findArgumentIndex(call, position) : undefined,
+    errors: collectCallErrors(call, program),
+  };
+}
+
+function findEnclosingCall(node: ts.Node): CallSite | undefined {
+  for (let current: ts.Node | undefined = node; current; current = current.parent) {
+    if (isCallLike(current)) {
+      return current;
+    }
+    if (ts.isBlock(current) || ts.isSourceFile(current) || ts.isModuleBlock(current)) {
+      return undefined;
+    }
+  }
+  return undefined;
+}
+
+function isCallLike(node: ts.Node): node is CallSite {
+  return (
+    ts.isCallExpression(node) ||
+    ts.isNewExpression(node) ||
+    ts.isTaggedTemplateExpression(node) ||
+    ts.isDecorator(node) ||
+    ts.isJsxOpeningElement(node) ||
+    ts.isJsxSelfClosingElement(node)
+  );
+}
+
+function describeCallKind(call: CallSite): ResolvedCallInfo["kind"] {
+  if (ts.isNewExpression(call)) {
+    return "new";
+  }
+  if (ts.isTaggedTemplateExpression(call)) {
+    return "taggedTemplate";
+  }
+  if (ts.isDecorator(call)) {
+    return "decorator";
+  }
+  if (ts.isJsxOpeningElement(call) || ts.isJsxSelfClosingElement(call)) {
+    return "jsx";
+  }
+  return "call";
+}
+
+function getCallee(call: Exclude<CallSite, ts.Decorator>): ts.Node {
+  if (ts.isTaggedTemplateExpression(call)) {
+    return call.tag;
+  }
+  if (ts.isJsxOpeningElement(call) || ts.isJsxSelfClosingElement(call)) {
+    return call.tagName;
+  }
+  return call.expression;
+}
+
+function collectTypeArguments(
+  signature: ts.Signature,
+  declaration: ts.SignatureDeclaration | undefined,
+  checker: ts.TypeChecker,
+  call: ts.Node,
+): Record<string, string> {
+  const typeArguments: Record<string, string> = {};
+  if (!declaration) {
+    return typeArguments;
+  }
+
+  // The resolved signature is an instantiation; its declaration's signature holds the type parameter names.
+  const typeParameters = checker.getSignatureFromDeclaration(declaration)?.getTypeParameters() ?? [];
+  const inferred = checker.getTypeArgumentsForResolvedSignature(signature) ?? [];
+  typeParameters.forEach((typeParameter, index) => {
+    const argument = inferred[index];
+    if (argument) {
+      typeArguments[typeParameter.symbol.getName()] = checker.typeToString(argument, call, TYPE_STRING_FORMAT_FLAGS);
+    }
+  });
+
+  return typeArguments;
+}
+
+function describeParameter(parameter: ts.Symbol, checker: ts.TypeChecker, call: ts.Node): ResolvedParameterInfo {
+  const declaration = parameter.valueDeclaration;
+  const isParameter = declaration !== undefined && ts.isParameter(declaration);
+  return {
+    name: parameter.getName(),
+    type: checker.typeToString(checker.getTypeOfSymbolAtLocation(parameter, call), call, TYPE_STRING_FORMAT_FLAGS),
+    optional: isParameter && (declaration.questionToken !== undefined || declaration.initializer !== undefined),
+    rest: isParameter && declaration.dotDotDotToken !== undefined,
+  };
+}
+
+function describeLocation(declaration: ts.Node): ResolvedCallInfo["declaration"] {
+  const source = declaration.getSourceFile();
+  const { line, character } = source.getLineAndCharacterOfPosition(declaration.getStart(source, false));
+  return {
+    file: path.normalize(source.fileName),
+    line: line + 1,
+    column: character + 1,
+  };
+}
+
+function collectCallErrors(call: CallSite, program: ts.Program): string[] {
+  const sourceFile = call.getSourceFile();
+  const start = call.getStart(sourceFile);
+  const end = call.getEnd();
+
+  return program
+    .getSemanticDiagnostics(sourceFile)
+    .filter((diagnostic) => {
+      if (diagnostic.category !== ts.DiagnosticCategory.Error || typeof diagnostic.start !== "number") {
+        return false;
+      }
+      if (diagnostic.start < start || diagnostic.start >= end) {
+        return false;
+      }
+      // Errors inside a nested call or callback body belong to that call or callback.
+      return findInnermostOwner(call, diagnostic.start) === call;
+    })
+    .map((diagnostic) => ts.flattenDiagnosticMessageText(diagnostic.messageText, "\n"));
+}
+
+function findInnermostOwner(root: CallSite, position: number): ts.Node {
+  let innermost: ts.Node = root;
+  const visit = (node: ts.Node) => {
+    if (position < node.getStart() || position >= node.getEnd()) {
+      return;
+    }
+    if (isCallLike(node) || ts.isFunctionLike(node)) {
+      innermost = node;
+    }
+    node.forEachChild(visit);
+  };
+  root.forEachChild(visit);
+  return innermost;
+}
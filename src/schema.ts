@@ -0,0 +1,7 @@
+// Kept free of compiler imports so the CLI can stamp error output without loading TypeScript.
+
+/**
+ * Version of the result shape described by `schema/type-info.schema.json`. Bumped
+ * when a field is removed, renamed or changes meaning; new optional fields do not bump it.
+ */
+export const SCHEMA_VERSION = 1;
@@ -0,0 +1,233 @@
+import fs from "node:fs";
+import path from "node:path";
+import process from "node:process";
+import ts from "typescript";
+
+import {
+  compileQueryRegex,
+  condenseSnippet,
+  findClosestNode,
+  resolveOverlays,
+  TYPE_STRING_FORMAT_FLAGS,
+} from "./picker.js";
+import { ProjectRegistry } from "./project.js";
+
+export interface SearchQuery {
+  regex: string;
+  regexFlags?: string;
+  project?: string;
+  /**
+   * Glob selecting the files to search, relative to `directory`
+   * (e.g. `src/**\/*.ts`). Defaults to every file of the project and the
+   * projects it references.
+   */
+  include?: string;
+  /** Directory the tsconfig.json search starts from and `include` is relative to. Defaults to the working directory. */
+  directory?: string;
+  overlays?: Record<string, string>;
+}
+
+export interface SearchOptions {
+  /** Ignore matches that start inside a comment. */
+  skipComments?: boolean;
+  /** Ignore matches that start inside a string or template literal. */
+  skipStrings?: boolean;
+  /** Maximum number of matches to describe (default 100). `total` still counts every match. */
+  limit?: number;
+}
+
+export interface SearchMatchInfo {
+  file: string;
+  line: number;
+  column: number;
+  offset: number;
+  matchedText: string;
+  /** Where the match starts: code, a comment, or a string or template literal. */
+  region: "code" | "comment" | "string";
+  nodeKind: string;
+  /** Absent for matches in comments, which have no type. */
+  typeString?: string;
+  symbol?: string;
+  snippet: string;
+}
+
+export interface SearchResult {
+  project?: string;
+  regex: string;
+  flags: string;
+  filesSearched: number;
+  total: number;
+  matches: SearchMatchInfo[];
+}
+
+const DEFAULT_SEARCH_LIMIT = 100;
+/** Overlays that can join the search without a file on disk: sources, not declarations. */
+const SOURCE_FILE = /(?<!\.d)\.[cm]?[jt]sx?$/;
+
+/**
+ * Runs `query.regex` over every project file (or those matching
+ * `query.include`) and every overlay without a file on disk, and returns the
+ * type at each match, like a `pickType` summary. Files are searched in path order; each keeps the program of the
+ * project that owns it, so one tsconfig is built once however many files match.
+ */
+export function searchProject(
+  query: SearchQuery,
+  projects = new ProjectRegistry(),
+  options: SearchOptions = {},
+): SearchResult {
+  const matcher = compileQueryRegex(query.regex, query.regexFlags);
+  const limit = options.limit ?? DEFAULT_SEARCH_LIMIT;
+  const overlays = resolveOverlays(query.overlays);
+  const include = query.include ? globToRegExp(query.include) : undefined;
+  const directory = path.resolve(query.directory ?? process.cwd());
+
+  const projectFiles = projects.listProjectFiles(directory, query.project);
+  // A file that only exists as an overlay is not matched by any tsconfig `include` yet.
+  const overlayFiles = Array.from(overlays.keys()).filter((file) => SOURCE_FILE.test(file) && !fs.existsSync(file));
+  const files = [...projectFiles, ...overlayFiles]
+    .sort()
+    .filter((file) => !include || include.test(toGlobPath(file, query.include!, directory)));
+
+  const matches: SearchMatchInfo[] = [];
+  let total = 0;
+  let project: string | undefined;
+
+  for (const file of files) {
+    const context = projects.getContext(file, query.project, { overlays });
+    project ??= context.configPath;
+    const sourceFile = context.program.getSourceFile(file);
+    if (!sourceFile) {
+      continue;
+    }
+    const checker = context.program.getTypeChecker();
+    const text = sourceFile.getFullText();
+
+    matcher.lastIndex = 0;
+    let match: RegExpExecArray | null;
+    while ((match = matcher.exec(text)) !== null) {
+      if (match[0].length === 0) {
+        matcher.lastIndex += 1;
+      }
+      const position = match.index;
+      const region = classifyPosition(sourceFile, position);
+      if ((region === "comment" && options.skipComments) || (region === "string" && options.skipStrings)) {
+        continue;
+      }
+
+      total += 1;
+      if (matches.length < limit) {
+        matches.push(describeMatch(sourceFile, checker, position, match[0], region));
+      }
+    }
+  }
+
+  return {
+    project,
+    regex: query.regex,
+    flags: matcher.flags,
+    filesSearched: files.length,
+    total,
+    matches,
+  };
+}
+
+function describeMatch(
+  sourceFile: ts.SourceFile,
+  checker: ts.TypeChecker,
+  position: number,
+  matchedText: string,
+  region: SearchMatchInfo["region"],
+): SearchMatchInfo {
+  const node = findClosestNode(sourceFile, position);
+  const { line, character } = sourceFile.getLineAndCharacterOfPosition(position);
+  const lineStart = sourceFile.getPositionOfLineAndCharacter(line, 0);
+  const info: SearchMatchInfo = {
+    file: path.normalize(sourceFile.fileName),
+    line: line + 1,
+    column: character + 1,
+    offset: position,
+    matchedText,
+    region,
+    nodeKind: ts.SyntaxKind[node.kind],
+    snippet: condenseSnippet(sourceFile.text.slice(lineStart, sourceFile.getLineEndOfPosition(position))),
+  };
+  if (region === "comment" || ts.isSourceFile(node)) {
+    return info;
+  }
+
+  // Template parts have no type of their own; report the whole template expression.
+  const typed = ts.isTemplateHead(node) ? node.parent : ts.isTemplateMiddle(node) || ts.isTemplateTail(node) ? node.parent.parent : node;
+  const type = checker.getTypeAtLocation(typed);
+  const symbol = checker.getSymbolAtLocation(typed) ?? type.getSymbol();
+  info.typeString = checker.typeToString(type, typed, TYPE_STRING_FORMAT_FLAGS);
+  if (symbol) {
+    info.symbol = checker.symbolToString(symbol, typed);
+  }
+  return info;
+}
+
+/** Whether `position` lies in a comment, a string or template literal, or code. */
+function classifyPosition(sourceFile: ts.SourceFile, position: number): "comment" | "string" | "code" {
+  let node: ts.Node = sourceFile;
+  for (;;) {
+    if (node.kind >= ts.SyntaxKind.FirstJSDocNode && node.kind <= ts.SyntaxKind.LastJSDocNode) {
+      return "comment";
+    }
+    const child = node.getChildren(sourceFile).find((candidate) => candidate.pos <= position && position < candidate.end);
+    if (!child) {
+      break;
+    }
+    node = child;
+  }
+
+  if (position < node.getStart(sourceFile) || node.kind === ts.SyntaxKind.EndOfFileToken) {
+    const comments = ts.getLeadingCommentRanges(sourceFile.text, node.pos) ?? [];
+    return comments.some((comment) => comment.pos <= position && position < comment.end) ? "comment" : "code";
+  }
+  switch (node.kind) {
+    case ts.SyntaxKind.StringLiteral:
+    case ts.SyntaxKind.NoSubstitutionTemplateLiteral:
+    case ts.SyntaxKind.TemplateHead:
+    case ts.SyntaxKind.TemplateMiddle:
+    case ts.SyntaxKind.TemplateTail:
+      return "string";
+    default:
+      return "code";
+  }
+}
+
+/** Paths are matched relative to `directory` unless the glob is absolute. */
+function toGlobPath(file: string, glob: string, directory: string): string {
+  const relative = path.isAbsolute(glob) ? file : path.relative(directory, file);
+  return relative.split(path.sep).join("/");
+}
+
+/** Supports `**`, `*`, `?` and `{a,b}`; a leading `./` is ignored. */
+function globToRegExp(glob: string): RegExp {
+  let source = "";
+  let braceDepth = 0;
+  const pattern = glob.replace(/\\/g, "/").replace(/^\.\//, "");
+  for (let i = 0; i < pattern.length; i += 1) {
+    const char = pattern[i];
+    if (char === "*" && pattern[i + 1] === "*") {
+      const slash = pattern[i + 2] === "/";
+      source += slash ? "(?:.*/)?" : ".*";
+      i += slash ? 2 : 1;
+    } else if (char === "*") {
+      source += "[^/]*";
+    } else if (char === "?") {
+      source += "[^/]";
+    } else if (char === "{") {
+      braceDepth += 1;
+      source += "(?:";
+    } else if (char === "}" && braceDepth > 0) {
+      braceDepth -= 1;
+      source += ")";
+    } else if (char === "," && braceDepth > 0) {
+      source += "|";
+    } else {
+      source += char.replace(/[.+^$(){}|[\]\\]/g, "\\$&");
+    }
+  }
+  return new RegExp(`^${source}$`);
+}
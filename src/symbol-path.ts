@@ -0,0 +1,196 @@
+import path from "node:path";
+import ts from "typescript";
+
+import { AmbiguousSymbolError, InvalidQueryError, SymbolNotFoundError } from "./errors.js";
+
+export interface ResolvedSymbolPath {
+  symbol: ts.Symbol;
+  declaration: ts.Declaration;
+}
+
+interface SymbolPathSegment {
+  name: string;
+  /** `.` walks exports and static members, `#` walks instance members (JSDoc namepath style). */
+  separator: "." | "#" | "";
+}
+
+const MAX_LISTED_CANDIDATES = 40;
+
+/**
+ * Resolves a path such as `UserService.create`, `UserService#save` or
+ * `default#options.timeout` against the exports and top-level declarations of
+ * `sourceFile`, walking namespace exports, class members, interface properties
+ * and object literal members through the checker.
+ */
+export function resolveSymbolPath(
+  sourceFile: ts.SourceFile,
+  checker: ts.TypeChecker,
+  symbolPath: string,
+): ResolvedSymbolPath {
+  const segments = parseSymbolPath(symbolPath);
+
+  let current: ts.Symbol | undefined;
+  let walked = "";
+  for (const segment of segments) {
+    const candidates = current
+      ? collectMemberCandidates(current, segment.separator, checker)
+      : collectRootCandidates(sourceFile, checker);
+    const matches = candidates.get(segment.name) ?? [];
+    const owner = walked.length > 0 ? `"${walked}"` : sourceFile.fileName;
+
+    if (matches.length === 0) {
+      const available = Array.from(candidates.keys()).sort();
+      throw new SymbolNotFoundError(
+        `Symbol path "${symbolPath}" not found: no "${segment.name}" in ${owner}. ` +
+          `Candidates: ${formatCandidateNames(available)}`,
+        { symbol: symbolPath, segment: segment.name, candidates: available },
+      );
+    }
+
+    if (matches.length > 1) {
+      const described = matches.map((match) => describeSymbol(segment.name, match));
+      throw new AmbiguousSymbolError(
+        `Symbol path "${symbolPath}" is ambiguous: "${segment.name}" in ${owner} matches ${matches.length} symbols: ${described.join(", ")}`,
+        { symbol: symbolPath, segment: segment.name, matches: described },
+      );
+    }
+
+    current = matches[0];
+    walked += `${segment.separator}${segment.name}`;
+  }
+
+  const symbol = current!;
+  const declaration = symbol.valueDeclaration ?? symbol.getDeclarations()?.[0];
+  if (!declaration) {
+    throw new SymbolNotFoundError(
+      `Symbol path "${symbolPath}" resolved to "${symbol.getName()}", which has no declaration`,
+      { symbol: symbolPath, segment: segments[segments.length - 1].name, candidates: [] },
+    );
+  }
+
+  return { symbol, declaration };
+}
+
+export function parseSymbolPath(symbolPath: string): SymbolPathSegment[] {
+  const segments: SymbolPathSegment[] = [];
+  const pattern = /([.#]?)([^.#]*)/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(symbolPath)) !== null && match[0].length > 0) {
+    const separator = match[1] as SymbolPathSegment["separator"];
+    const name = match[2];
+    if (name.length === 0 || (segments.length === 0 && separator !== "")) {
+      throw new InvalidQueryError(`Invalid symbol path: "${symbolPath}"`, { symbol: symbolPath });
+    }
+    segments.push({ name, separator });
+  }
+
+  if (segments.length === 0) {
+    throw new InvalidQueryError("Symbol path must not be empty", { symbol: symbolPath });
+  }
+
+  return segments;
+}
+
+function collectRootCandidates(sourceFile: ts.SourceFile, checker: ts.TypeChecker): Map<string, ts.Symbol[]> {
+  const candidates = new Map<string, ts.Symbol[]>();
+
+  const moduleSymbol = checker.getSymbolAtLocation(sourceFile);
+  if (moduleSymbol) {
+    for (const exported of checker.getExportsOfModule(moduleSymbol)) {
+      addCandidate(candidates, exported.getName(), exported, checker);
+    }
+  }
+
+  const topLevel = checker.getSymbolsInScope(
+    sourceFile,
+    ts.SymbolFlags.Value | ts.SymbolFlags.Type | ts.SymbolFlags.Namespace | ts.SymbolFlags.Alias,
+  );
+  for (const symbol of topLevel) {
+    const declaredHere = symbol.getDeclarations()?.some((declaration) => declaration.getSourceFile() === sourceFile);
+    if (declaredHere) {
+      addCandidate(candidates, symbol.getName(), symbol, checker);
+    }
+  }
+
+  return candidates;
+}
+
+function collectMemberCandidates(
+  owner: ts.Symbol,
+  separator: SymbolPathSegment["separator"],
+  checker: ts.TypeChecker,
+): Map<string, ts.Symbol[]> {
+  const candidates = new Map<string, ts.Symbol[]>();
+  const flags = owner.getFlags();
+  const isClass = (flags & ts.SymbolFlags.Class) !== 0;
+
+  if (separator === "#" && isClass) {
+    for (const member of checker.getPropertiesOfType(checker.getDeclaredTypeOfSymbol(owner))) {
+      addCandidate(candidates, member.getName(), member, checker);
+    }
+    return candidates;
+  }
+
+  if ((flags & ts.SymbolFlags.Module) !== 0) {
+    for (const exported of checker.getExportsOfModule(owner)) {
+      addCandidate(candidates, exported.getName(), exported, checker);
+    }
+  }
+
+  if ((flags & ts.SymbolFlags.Value) !== 0) {
+    const valueType = checker.getNonNullableType(checker.getTypeOfSymbol(owner));
+    for (const member of checker.getPropertiesOfType(checker.getApparentType(valueType))) {
+      addCandidate(candidates, member.getName(), member, checker);
+    }
+  }
+
+  const isTypeOnly = (flags & ts.SymbolFlags.Type) !== 0 && (flags & ts.SymbolFlags.Value) === 0;
+  if (isTypeOnly) {
+    const declaredType = checker.getNonNullableType(checker.getDeclaredTypeOfSymbol(owner));
+    for (const member of checker.getPropertiesOfType(checker.getApparentType(declaredType))) {
+      addCandidate(candidates, member.getName(), member, checker);
+    }
+  }
+
+  return candidates;
+}
+
+function addCandidate(
+  candidates: Map<string, ts.Symbol[]>,
+  name: string,
+  symbol: ts.Symbol,
+  checker: ts.TypeChecker,
+): void {
+  // Exported declarations have a separate local symbol; normalize both to one identity.
+  const target = (symbol.getFlags() & ts.SymbolFlags.Alias) !== 0
+    ? checker.getAliasedSymbol(symbol)
+    : checker.getExportSymbolOfSymbol(symbol);
+  const existing = candidates.get(name);
+  if (!existing) {
+    candidates.set(name, [target]);
+    return;
+  }
+  if (!existing.includes(target)) {
+    existing.push(target);
+  }
+}
+
+function describeSymbol(name: string, symbol: ts.Symbol): string {
+  const declaration = symbol.getDeclarations()?.[0];
+  if (!declaration) {
+    return name;
+  }
+  const source = declaration.getSourceFile();
+  const { line } = source.getLineAndCharacterOfPosition(declaration.getStart(source, false));
+  return `${name} (${ts.SyntaxKind[declaration.kind]} at ${path.normalize(source.fileName)}:${line + 1})`;
+}
+
+function formatCandidateNames(names: string[]): string {
+  if (names.length === 0) {
+    return "(none)";
+  }
+  const listed = names.slice(0, MAX_LISTED_CANDIDATES).join(", ");
+  const remaining = names.length - MAX_LISTED_CANDIDATES;
+  return remaining > 0 ? `${listed}, … ${remaining} more` : listed;
+}
@@ -0,0 +1,364 @@
+import path from "node:path";
+import ts from "typescript";
+
+import { NoMatchError, SymbolNotFoundError } from "./errors.js";
+import { collectProperties, PropertyInfo, resolveQueryTarget, TYPE_STRING_FORMAT_FLAGS, TypeQuery } from "./picker.js";
+import { ProjectRegistry } from "./project.js";
+
+export interface TypeDiffQuery {
+  /** The symbol in the old version, e.g. the file at a git revision through `overlays`. */
+  before: TypeQuery;
+  after: TypeQuery;
+}
+
+export type TypeChangeKind =
+  | "added"
+  | "removed"
+  | "type"
+  | "union-member-added"
+  | "union-member-removed"
+  | "property-added"
+  | "property-removed"
+  | "property-optionality"
+  | "property-type"
+  | "signature-added"
+  | "signature-removed"
+  | "parameter-added"
+  | "parameter-removed"
+  | "parameter-renamed"
+  | "parameter-optionality"
+  | "parameter-type"
+  | "return-type";
+
+export interface TypeChangeInfo {
+  kind: TypeChangeKind;
+  /** What changed: a property name, `call[0]` for a signature, `call[0](options)` for a parameter, `call[0]:return`. */
+  path: string;
+  before?: string;
+  after?: string;
+  /** Union members a `parameter-type` or `return-type` change gained, e.g. when an alias named the same on both sides grew. */
+  added?: string[];
+  removed?: string[];
+  breaking: boolean;
+}
+
+export interface TypeVersionInfo {
+  file: string;
+  project?: string;
+  /** Absent when the symbol does not exist in this version. */
+  typeString?: string;
+  line?: number;
+  column?: number;
+}
+
+export interface TypeDiffResult {
+  before: TypeVersionInfo;
+  after: TypeVersionInfo;
+  changed: boolean;
+  breaking: boolean;
+  changes: TypeChangeInfo[];
+}
+
+interface TypeShape {
+  typeString: string;
+  unionMembers?: string[];
+  /** Only for object types; the properties of a primitive's apparent type are not part of its shape. */
+  properties?: PropertyInfo[];
+  signatures: SignatureShape[];
+}
+
+interface SignatureShape {
+  kind: "call" | "construct";
+  text: string;
+  parameters: ParameterShape[];
+  returnType: string;
+  returnMembers: string[];
+}
+
+interface ParameterShape {
+  name: string;
+  type: string;
+  /** Union constituents, without the `undefined` an optional parameter adds. */
+  members: string[];
+  optional: boolean;
+}
+
+/**
+ * Compares the type of the same symbol in two versions of the code: union
+ * members, properties (as in `TypeInfo.properties`) and call and construct
+ * signatures down to each parameter and return type. Changes are classified
+ * for a type that callers both read and construct: removals, new required
+ * members and any property type change are breaking; new optional members,
+ * new overloads, widened parameters and narrowed return types are not.
+ */
+export function diffTypes(query: TypeDiffQuery, projects = new ProjectRegistry()): TypeDiffResult {
+  const before = snapshotType(query.before, projects);
+  const after = snapshotType(query.after, projects);
+  if (!before.shape && !after.shape) {
+    throw after.error;
+  }
+
+  const changes: TypeChangeInfo[] = [];
+  if (!after.shape) {
+    changes.push({ kind: "removed", path: "", before: before.shape!.typeString, breaking: true });
+  } else if (!before.shape) {
+    changes.push({ kind: "added", path: "", after: after.shape.typeString, breaking: false });
+  } else {
+    changes.push(...compareShapes(before.shape, after.shape));
+  }
+
+  return {
+    before: before.info,
+    after: after.info,
+    changed: changes.length > 0,
+    breaking: changes.some((change) => change.breaking),
+    changes,
+  };
+}
+
+function snapshotType(
+  query: TypeQuery,
+  projects: ProjectRegistry,
+): { info: TypeVersionInfo; shape?: TypeShape; error?: unknown } {
+  let target: ReturnType<typeof resolveQueryTarget>;
+  try {
+    target = resolveQueryTarget(query, projects);
+  } catch (error) {
+    if (error instanceof SymbolNotFoundError || error instanceof NoMatchError) {
+      return { info: { file: path.resolve(query.file) }, error };
+    }
+    throw error;
+  }
+
+  const { context, checker, sourceFile, node, resolution } = target;
+  const type = checker.getTypeAtLocation(node);
+  const print = (member: ts.Type) => checker.typeToString(member, node, TYPE_STRING_FORMAT_FLAGS);
+  const shape: TypeShape = {
+    typeString: print(type),
+    signatures: collectSignatureShapes(type, checker, node, print),
+  };
+  if (type.isUnion()) {
+    shape.unionMembers = type.types.map(print);
+  }
+  if (isObjectShaped(type, checker)) {
+    shape.properties = collectProperties(type, checker, node, Number.POSITIVE_INFINITY);
+  }
+
+  return {
+    info: {
+      file: path.normalize(sourceFile.fileName),
+      project: context.configPath,
+      typeString: shape.typeString,
+      line: resolution.line,
+      column: resolution.column,
+    },
+    shape,
+  };
+}
+
+function collectSignatureShapes(
+  type: ts.Type,
+  checker: ts.TypeChecker,
+  node: ts.Node,
+  print: (type: ts.Type) => string,
+): SignatureShape[] {
+  const kinds = [
+    ["call", ts.SignatureKind.Call],
+    ["construct", ts.SignatureKind.Construct],
+  ] as const;
+
+  return kinds.flatMap(([kind, signatureKind]) =>
+    checker.getSignaturesOfType(type, signatureKind).map((signature) => {
+      const returnType = checker.getReturnTypeOfSignature(signature);
+      return {
+        kind,
+        text: checker.signatureToString(signature, node),
+        parameters: signature.getParameters().map((parameter) => {
+          const declaration = parameter.valueDeclaration;
+          const parameterType = checker.getTypeOfSymbolAtLocation(parameter, node);
+          const optional = declaration !== undefined && ts.isParameter(declaration) &&
+            (checker.isOptionalParameter(declaration) || declaration.dotDotDotToken !== undefined);
+          const members = parameterType.isUnion() ? parameterType.types.map(print) : [print(parameterType)];
+          return {
+            name: parameter.getName(),
+            type: print(parameterType),
+            members: optional ? members.filter((member) => member !== "undefined") : members,
+            optional,
+          };
+        }),
+        returnType: print(returnType),
+        returnMembers: returnType.isUnion() ? returnType.types.map(print) : [print(returnType)],
+      };
+    }),
+  );
+}
+
+function compareShapes(before: TypeShape, after: TypeShape): TypeChangeInfo[] {
+  const changes: TypeChangeInfo[] = [];
+
+  if (before.unionMembers || after.unionMembers) {
+    const beforeMembers = before.unionMembers ?? [before.typeString];
+    const afterMembers = after.unionMembers ?? [after.typeString];
+    for (const member of afterMembers.filter((candidate) => !beforeMembers.includes(candidate))) {
+      changes.push({ kind: "union-member-added", path: "", after: member, breaking: true });
+    }
+    for (const member of beforeMembers.filter((candidate) => !afterMembers.includes(candidate))) {
+      changes.push({ kind: "union-member-removed", path: "", before: member, breaking: true });
+    }
+  }
+
+  if (before.properties && after.properties) {
+    changes.push(...compareProperties(before.properties, after.properties));
+  }
+  changes.push(...compareSignatures(before.signatures, after.signatures));
+
+  if (changes.length === 0 && before.typeString !== after.typeString) {
+    changes.push({ kind: "type", path: "", before: before.typeString, after: after.typeString, breaking: true });
+  }
+  return changes;
+}
+
+function compareProperties(before: PropertyInfo[], after: PropertyInfo[]): TypeChangeInfo[] {
+  const changes: TypeChangeInfo[] = [];
+  const afterByName = new Map(after.map((property) => [property.name, property]));
+  const beforeByName = new Map(before.map((property) => [property.name, property]));
+
+  for (const property of before) {
+    const next = afterByName.get(property.name);
+    if (!next) {
+      changes.push({ kind: "property-removed", path: property.name, before: property.type, breaking: true });
+      continue;
+    }
+    if (property.optional !== next.optional) {
+      changes.push({
+        kind: "property-optionality",
+        path: property.name,
+        before: property.optional ? "optional" : "required",
+        after: next.optional ? "optional" : "required",
+        breaking: true,
+      });
+    }
+    if (withoutUndefined(property.type) !== withoutUndefined(next.type)) {
+      changes.push({ kind: "property-type", path: property.name, before: property.type, after: next.type, breaking: true });
+    }
+  }
+
+  for (const property of after) {
+    if (!beforeByName.has(property.name)) {
+      changes.push({ kind: "property-added", path: property.name, after: property.type, breaking: !property.optional });
+    }
+  }
+  return changes;
+}
+
+/** Signatures are matched by kind and overload order. */
+function compareSignatures(before: SignatureShape[], after: SignatureShape[]): TypeChangeInfo[] {
+  const changes: TypeChangeInfo[] = [];
+  for (const kind of ["call", "construct"] as const) {
+    const previous = before.filter((signature) => signature.kind === kind);
+    const next = after.filter((signature) => signature.kind === kind);
+    for (let index = 0; index < Math.max(previous.length, next.length); index += 1) {
+      const path = `${kind}[${index}]`;
+      const old = previous[index];
+      const current = next[index];
+      if (!old) {
+        changes.push({ kind: "signature-added", path, after: current.text, breaking: false });
+      } else if (!current) {
+        changes.push({ kind: "signature-removed", path, before: old.text, breaking: true });
+      } else {
+        changes.push(...compareSignature(path, old, current));
+      }
+    }
+  }
+  return changes;
+}
+
+function compareSignature(signaturePath: string, before: SignatureShape, after: SignatureShape): TypeChangeInfo[] {
+  const changes: TypeChangeInfo[] = [];
+
+  for (let index = 0; index < Math.max(before.parameters.length, after.parameters.length); index += 1) {
+    const old = before.parameters[index];
+    const current = after.parameters[index];
+    if (!old) {
+      changes.push({
+        kind: "parameter-added",
+        path: `${signaturePath}(${current.name})`,
+        after: current.type,
+        breaking: !current.optional,
+      });
+      continue;
+    }
+    if (!current) {
+      // Callers that still pass the argument get "Expected n arguments".
+      changes.push({ kind: "parameter-removed", path: `${signaturePath}(${old.name})`, before: old.type, breaking: true });
+      continue;
+    }
+
+    const parameterPath = `${signaturePath}(${current.name})`;
+    if (old.name !== current.name) {
+      changes.push({ kind: "parameter-renamed", path: parameterPath, before: old.name, after: current.name, breaking: false });
+    }
+    if (old.optional !== current.optional) {
+      changes.push({
+        kind: "parameter-optionality",
+        path: parameterPath,
+        before: old.optional ? "optional" : "required",
+        after: current.optional ? "optional" : "required",
+        breaking: old.optional,
+      });
+    }
+    if (!sameMembers(old.members, current.members)) {
+      // Accepting more than before keeps every existing call valid.
+      const widened = old.members.every((member) => current.members.includes(member));
+      changes.push({
+        kind: "parameter-type",
+        path: parameterPath,
+        ...describeMemberChange(old.type, old.members, current.type, current.members),
+        breaking: !widened,
+      });
+    }
+  }
+
+  if (!sameMembers(before.returnMembers, after.returnMembers)) {
+    // Returning a subset of what was returned keeps every existing caller's handling valid.
+    const narrowed = after.returnMembers.every((member) => before.returnMembers.includes(member));
+    changes.push({
+      kind: "return-type",
+      path: `${signaturePath}:return`,
+      ...describeMemberChange(before.returnType, before.returnMembers, after.returnType, after.returnMembers),
+      breaking: !narrowed,
+    });
+  }
+  return changes;
+}
+
+/** An alias that prints the same on both sides is spelled out as its members, so `before` and `after` differ. */
+function describeMemberChange(
+  beforeType: string,
+  beforeMembers: string[],
+  afterType: string,
+  afterMembers: string[],
+): Pick<TypeChangeInfo, "before" | "after" | "added" | "removed"> {
+  const sameName = beforeType === afterType;
+  return {
+    before: sameName ? beforeMembers.join(" | ") : beforeType,
+    after: sameName ? afterMembers.join(" | ") : afterType,
+    added: afterMembers.filter((member) => !beforeMembers.includes(member)),
+    removed: beforeMembers.filter((member) => !afterMembers.includes(member)),
+  };
+}
+
+function isObjectShaped(type: ts.Type, checker: ts.TypeChecker): boolean {
+  const nonNullable = checker.getNonNullableType(type);
+  const members = nonNullable.isUnion() ? nonNullable.types : [nonNullable];
+  return members.every((member) => (member.flags & (ts.TypeFlags.Object | ts.TypeFlags.Intersection)) !== 0);
+}
+
+function sameMembers(a: string[], b: string[]): boolean {
+  return a.length === b.length && a.every((member) => b.includes(member));
+}
+
+/** Optional properties print with `| undefined`; optionality changes are reported on their own. */
+function withoutUndefined(typeString: string): string {
+  return typeString.replace(/ \| undefined$/, "");
+}
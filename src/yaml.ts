@@ -0,0 +1,334 @@
+import { InvalidQueryError } from "./errors.js";
+
+/**
+ * The YAML subset assertion files need, so tsp keeps TypeScript as its only
+ * dependency: block mappings and sequences, plain, single- and double-quoted
+ * scalars, flow sequences of scalars, and `#` comments. Anchors, tags,
+ * multi-document streams and block scalars (`|`, `>`) are rejected.
+ */
+export function parseYaml(text: string): unknown {
+  const lines = tokenizeLines(text);
+  if (lines.length === 0) {
+    return null;
+  }
+  const state = { index: 0 };
+  const value = parseBlock(lines, state, lines[0].indent);
+  if (state.index < lines.length) {
+    throw yamlError(lines[state.index], "unexpected indentation");
+  }
+  return value;
+}
+
+/** Writes `value` as block-style YAML that `parseYaml` reads back unchanged. */
+export function stringifyYaml(value: unknown): string {
+  if (Array.isArray(value) || isPlainObject(value)) {
+    const lines = writeBlock(value, 0);
+    return `${lines.join("\n")}\n`;
+  }
+  return `${formatScalar(value)}\n`;
+}
+
+interface YamlLine {
+  /** 1-based line number in the source, for error messages. */
+  number: number;
+  indent: number;
+  content: string;
+}
+
+function tokenizeLines(text: string): YamlLine[] {
+  const lines: YamlLine[] = [];
+  text.split(/\r?\n/).forEach((raw, index) => {
+    const content = stripComment(raw).trimEnd();
+    const trimmed = content.trimStart();
+    if (trimmed.length === 0 || (index === 0 && trimmed === "---")) {
+      return;
+    }
+    if (content.slice(0, content.length - trimmed.length).includes("\t")) {
+      throw yamlError({ number: index + 1, indent: 0, content }, "tabs cannot be used for indentation");
+    }
+    lines.push({ number: index + 1, indent: content.length - trimmed.length, content: trimmed });
+  });
+  return lines;
+}
+
+function parseBlock(lines: YamlLine[], state: { index: number }, indent: number): unknown {
+  const first = lines[state.index];
+  return isSequenceItem(first.content) ? parseSequence(lines, state, indent) : parseMapping(lines, state, indent);
+}
+
+function parseSequence(lines: YamlLine[], state: { index: number }, indent: number): unknown[] {
+  const items: unknown[] = [];
+  while (state.index < lines.length) {
+    const line = lines[state.index];
+    if (line.indent < indent) {
+      break;
+    }
+    if (line.indent > indent || !isSequenceItem(line.content)) {
+      throw yamlError(line, "expected a sequence item");
+    }
+
+    const rest = line.content.slice(1).trimStart();
+    if (rest.length === 0) {
+      state.index += 1;
+      items.push(parseNested(lines, state, indent));
+    } else if (isSequenceItem(rest) || findMappingColon(rest) !== -1) {
+      // `- key: value` starts a mapping (or `- - x` a sequence) indented past the dash.
+      const itemIndent = line.indent + line.content.length - rest.length;
+      lines[state.index] = { number: line.number, indent: itemIndent, content: rest };
+      items.push(parseBlock(lines, state, itemIndent));
+    } else {
+      state.index += 1;
+      items.push(parseScalar(rest, line));
+    }
+  }
+  return items;
+}
+
+function parseMapping(lines: YamlLine[], state: { index: number }, indent: number): Record<string, unknown> {
+  const mapping: Record<string, unknown> = {};
+  while (state.index < lines.length) {
+    const line = lines[state.index];
+    if (line.indent < indent) {
+      break;
+    }
+    if (line.indent > indent) {
+      throw yamlError(line, "unexpected indentation");
+    }
+    const colon = findMappingColon(line.content);
+    if (colon === -1 || isSequenceItem(line.content)) {
+      throw yamlError(line, "expected `key: value`");
+    }
+
+    const key = parseKey(line.content.slice(0, colon).trim(), line);
+    if (Object.prototype.hasOwnProperty.call(mapping, key)) {
+      throw yamlError(line, `duplicate key "${key}"`);
+    }
+    const rest = line.content.slice(colon + 1).trim();
+    state.index += 1;
+    mapping[key] = rest.length > 0 ? parseScalar(rest, line) : parseNested(lines, state, indent, true);
+  }
+  return mapping;
+}
+
+/** The block under `key:` or `-`; a sequence may sit at the key's own indentation. */
+function parseNested(
+  lines: YamlLine[],
+  state: { index: number },
+  parentIndent: number,
+  allowSameIndentSequence = false,
+): unknown {
+  const next = lines[state.index];
+  if (!next) {
+    return null;
+  }
+  if (next.indent > parentIndent) {
+    return parseBlock(lines, state, next.indent);
+  }
+  if (allowSameIndentSequence && next.indent === parentIndent && isSequenceItem(next.content)) {
+    return parseSequence(lines, state, parentIndent);
+  }
+  return null;
+}
+
+function parseKey(raw: string, line: YamlLine): string {
+  if (raw.startsWith('"') || raw.startsWith("'")) {
+    const key = parseScalar(raw, line);
+    if (typeof key !== "string") {
+      throw yamlError(line, "invalid key");
+    }
+    return key;
+  }
+  return raw;
+}
+
+function parseScalar(raw: string, line: YamlLine): unknown {
+  if (raw.startsWith('"')) {
+    try {
+      return JSON.parse(raw) as string;
+    } catch {
+      throw yamlError(line, "invalid double-quoted string");
+    }
+  }
+  if (raw.startsWith("'")) {
+    if (!raw.endsWith("'") || raw.length < 2) {
+      throw yamlError(line, "unterminated single-quoted string");
+    }
+    return raw.slice(1, -1).replace(/''/g, "'");
+  }
+  if (raw.startsWith("[")) {
+    if (!raw.endsWith("]")) {
+      throw yamlError(line, "unterminated flow sequence");
+    }
+    const inner = raw.slice(1, -1).trim();
+    return inner.length === 0 ? [] : splitFlowItems(inner, line).map((item) => parseScalar(item, line));
+  }
+  if (raw === "{}") {
+    return {};
+  }
+  if (/^[{&*!|>%@`]/.test(raw)) {
+    throw yamlError(line, `unsupported YAML syntax "${raw[0]}"`);
+  }
+  if (raw === "null" || raw === "~") {
+    return null;
+  }
+  if (raw === "true" || raw === "false") {
+    return raw === "true";
+  }
+  if (/^[-+]?(?:\d+\.?\d*|\.\d+)(?:e[-+]?\d+)?$/i.test(raw)) {
+    return Number(raw);
+  }
+  return raw;
+}
+
+function splitFlowItems(inner: string, line: YamlLine): string[] {
+  const items: string[] = [];
+  let quote: string | undefined;
+  let start = 0;
+  for (let index = 0; index < inner.length; index += 1) {
+    const char = inner[index];
+    if (quote) {
+      if (char === "\\" && quote === '"') {
+        index += 1;
+      } else if (char === quote) {
+        quote = undefined;
+      }
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === "[" || char === "{") {
+      throw yamlError(line, "nested flow collections are not supported");
+    } else if (char === ",") {
+      items.push(inner.slice(start, index).trim());
+      start = index + 1;
+    }
+  }
+  items.push(inner.slice(start).trim());
+  return items;
+}
+
+function isSequenceItem(content: string): boolean {
+  return content === "-" || content.startsWith("- ");
+}
+
+/** Index of the `:` that separates key and value, ignoring colons inside quotes or not followed by a space. */
+function findMappingColon(content: string): number {
+  let quote: string | undefined;
+  for (let index = 0; index < content.length; index += 1) {
+    const char = content[index];
+    if (quote) {
+      if (char === "\\" && quote === '"') {
+        index += 1;
+      } else if (char === quote) {
+        quote = undefined;
+      }
+      continue;
+    }
+    if ((char === '"' || char === "'") && index === 0) {
+      quote = char;
+    } else if (char === ":" && (index === content.length - 1 || content[index + 1] === " ")) {
+      return index;
+    }
+  }
+  return -1;
+}
+
+function stripComment(raw: string): string {
+  let quote: string | undefined;
+  for (let index = 0; index < raw.length; index += 1) {
+    const char = raw[index];
+    if (quote) {
+      if (char === "\\" && quote === '"') {
+        index += 1;
+      } else if (char === quote) {
+        quote = undefined;
+      }
+    } else if (char === '"' || char === "'") {
+      const previous = raw[index - 1];
+      // Quotes only open a string at the start of a scalar, not inside a plain one like `it's`.
+      if (previous === undefined || /[\s:,[-]/.test(previous)) {
+        quote = char;
+      }
+    } else if (char === "#" && (index === 0 || /\s/.test(raw[index - 1]))) {
+      return raw.slice(0, index);
+    }
+  }
+  return raw;
+}
+
+function writeBlock(value: unknown[] | Record<string, unknown>, indent: number): string[] {
+  const pad = " ".repeat(indent);
+  const lines: string[] = [];
+
+  if (Array.isArray(value)) {
+    for (const item of value) {
+      if (isNonEmptyCollection(item)) {
+        const [first, ...rest] = writeBlock(item, indent + 2);
+        lines.push(`${pad}- ${first.trimStart()}`, ...rest);
+      } else {
+        lines.push(`${pad}- ${formatInline(item)}`);
+      }
+    }
+    return lines;
+  }
+
+  for (const [key, item] of Object.entries(value)) {
+    if (item === undefined) {
+      continue;
+    }
+    if (isNonEmptyCollection(item) && !isScalarList(item)) {
+      lines.push(`${pad}${formatKey(key)}:`, ...writeBlock(item, indent + 2));
+    } else {
+      lines.push(`${pad}${formatKey(key)}: ${formatInline(item)}`);
+    }
+  }
+  return lines;
+}
+
+/** Scalars, empty collections and lists of scalars, which fit on one line. */
+function formatInline(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(formatScalar).join(", ")}]`;
+  }
+  if (isPlainObject(value)) {
+    return "{}";
+  }
+  return formatScalar(value);
+}
+
+function formatScalar(value: unknown): string {
+  if (value === null || value === undefined) {
+    return "null";
+  }
+  if (typeof value === "number" || typeof value === "boolean") {
+    return String(value);
+  }
+  const text = String(value);
+  return isPlainSafe(text) ? text : JSON.stringify(text);
+}
+
+function formatKey(key: string): string {
+  return /^[A-Za-z_$][\w$-]*$/.test(key) ? key : JSON.stringify(key);
+}
+
+/** Strings that read back as the same string without quotes. */
+function isPlainSafe(text: string): boolean {
+  return /^[A-Za-z_$./][\w$ ./-]*$/.test(text) &&
+    !/\s$/.test(text) &&
+    !/^(?:true|false|null|~)$/.test(text) &&
+    parseScalar(text, { number: 0, indent: 0, content: text }) === text;
+}
+
+function isNonEmptyCollection(value: unknown): value is unknown[] | Record<string, unknown> {
+  return Array.isArray(value) ? value.length > 0 : isPlainObject(value) && Object.keys(value).length > 0;
+}
+
+function isScalarList(value: unknown): boolean {
+  return Array.isArray(value) && value.every((item) => !Array.isArray(item) && !isPlainObject(item));
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function yamlError(line: YamlLine, reason: string): InvalidQueryError {
+  return new InvalidQueryError(`Invalid YAML on line ${line.number}: ${reason}`, { line: line.number });
+}
@@ -0,0 +1,59 @@
+import path from "node:path";
+import { afterAll, describe, expect, test } from "bun:test";
+
+import { AnnotateResult, annotateFile } from "../src/annotate.js";
+import { ProjectRegistry } from "../src/project.js";
+import { FIXTURE_FILE, FIXTURES, runCli, TIMEOUT } from "./helpers.js";
+
+function summarize(result: AnnotateResult): string[] {
+  return result.annotations.map(({ line, column, kind, text, typeString, annotated }) =>
+    `${line}:${column} ${kind} ${text}: ${typeString}${annotated ? " (annotated)" : ""}`,
+  );
+}
+
+describe("tsp annotate", () => {
+  const projects = new ProjectRegistry();
+  afterAll(() => projects.dispose());
+
+  test("lists declarations, parameters, calls and return types in a line range", () => {
+    const result = annotateFile({ file: FIXTURE_FILE, range: { startLine: 9, endLine: 15 } }, projects);
+    expect(result.range).toEqual({ startLine: 9, endLine: 15 });
+    expect(summarize(result)).toEqual([
+      "9:17 return greet: string (annotated)",
+      "9:23 parameter user: User (annotated)",
+      "9:35 parameter greeting: string",
+      "13:14 variable ada: User (annotated)",
+      "15:14 variable message: string",
+      "15:24 call greet(ada): string",
+    ]);
+  }, TIMEOUT);
+
+  test("annotates one symbol's declaration", () => {
+    const result = annotateFile({ file: path.join(FIXTURES, "symbols.ts"), symbol: "UserService.create" }, projects);
+    expect(result.range).toEqual({ startLine: 8, endLine: 10 });
+    expect(summarize(result)).toEqual([
+      "8:10 return create: UserService (annotated)",
+      "8:17 parameter name: string (annotated)",
+      "9:12 call new UserService(name): UserService",
+    ]);
+  }, TIMEOUT);
+
+  test("rejects ranges outside the file and a range combined with a symbol", () => {
+    expect(() => annotateFile({ file: FIXTURE_FILE, range: { startLine: 40, endLine: 50 } }, projects)).toThrow(
+      "Line 40 is past the end",
+    );
+    expect(() => annotateFile({ file: FIXTURE_FILE, range: { startLine: 1, endLine: 2 }, symbol: "greet" }, projects)).toThrow(
+      "--range cannot be combined with --symbol",
+    );
+  }, TIMEOUT);
+
+  test("parses --range on the CLI", () => {
+    const run = runCli(["annotate", FIXTURE_FILE, "--range", "15"]);
+    expect(run.status).toBe(0);
+    expect(JSON.parse(run.stdout).annotations.map((annotation: { text: string }) => annotation.text)).toEqual(["message", "greet(ada)"]);
+
+    const invalid = runCli(["annotate", FIXTURE_FILE, "--range", "a:b"]);
+    expect(invalid.status).toBe(2);
+    expect(invalid.stderr).toContain("Invalid --range value: a:b (expected <startLine>:<endLine>)");
+  }, TIMEOUT);
+});
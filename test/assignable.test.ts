@@ -0,0 +1,63 @@
+import { afterAll, describe, expect, test } from "bun:test";
+
+import { AssignableOperand, checkAssignable } from "../src/assignable.js";
+import { ProjectRegistry } from "../src/project.js";
+import { FIXTURE_FILE, runCli, TIMEOUT } from "./helpers.js";
+
+describe("tsp assignable", () => {
+  const projects = new ProjectRegistry();
+  afterAll(() => projects.dispose());
+  const check = (source: AssignableOperand, target: AssignableOperand) =>
+    checkAssignable({ file: FIXTURE_FILE, source, target }, projects);
+
+  test("accepts assignable types with no errors", () => {
+    const result = check({ regex: "ada" }, { type: "Partial<User>" });
+    expect(result).toMatchObject({
+      assignable: true,
+      errors: [],
+      source: { kind: "position", text: "ada", typeString: "User", line: 13, column: 14 },
+      target: { kind: "type", text: "Partial<User>", typeString: "Partial<User>" },
+    });
+  }, TIMEOUT);
+
+  test("reports the elaborated error chain, outermost first", () => {
+    expect(check({ type: "{ id: number; name: string }" }, { type: "User" }).errors).toEqual([
+      { depth: 0, code: 2322, message: "Type '{ id: number; name: string; }' is not assignable to type 'User'." },
+      { depth: 1, code: 2326, message: "Types of property 'id' are incompatible." },
+      { depth: 2, code: 2322, message: "Type 'number' is not assignable to type 'string'." },
+    ]);
+    expect(check({ type: "{ profile: { id: number } }" }, { type: "{ profile: { id: string } }" }).errors.map((error) => error.code)).toEqual([
+      2322, 2200, 2322,
+    ]);
+  }, TIMEOUT);
+
+  test("ignores errors that unfinished code at the end of the file leaves in the probe", () => {
+    const overlays = { [FIXTURE_FILE]: "export interface User { id: string; }\nexport const total = [1, 2" };
+    const result = checkAssignable({ file: FIXTURE_FILE, source: { type: "{ id: number }" }, target: { type: "User" }, overlays }, projects);
+    expect(result.errors.map((error) => error.code)).toEqual([2322, 2326, 2322]);
+  }, TIMEOUT);
+
+  test("rejects type expressions that do not resolve", () => {
+    expect(() => check({ type: "Usr" }, { type: "User" })).toThrow(
+      "Invalid source type expression \"Usr\": Cannot find name 'Usr'. Did you mean 'User'?",
+    );
+  }, TIMEOUT);
+
+  test("takes one flag group per side on the CLI", () => {
+    const run = runCli(["assignable", FIXTURE_FILE, "--source-type", "{ id: string }", "--target-symbol", "User"]);
+    expect(run.status).toBe(0);
+    const result = JSON.parse(run.stdout);
+    expect(result.assignable).toBe(false);
+    expect(result.errors[0].message).toBe("Property 'name' is missing in type '{ id: string; }' but required in type 'User'.");
+  }, TIMEOUT);
+
+  test("rejects positions that are not 1-based integers", () => {
+    for (const [line, column] of [["0", "14"], ["13", "0"], ["13", "1.5"], ["-1", "14"]]) {
+      const run = runCli([
+        "assignable", FIXTURE_FILE, `--source-line=${line}`, `--source-column=${column}`, "--target-type", "User", "--no-daemon",
+      ]);
+      expect(run.status).toBe(2);
+      expect(run.stderr).toContain(`Invalid --source-${line === "13" ? "column" : "line"} value`);
+    }
+  }, TIMEOUT);
+});
@@ -0,0 +1,63 @@
+import fs from "node:fs";
+import path from "node:path";
+import { afterAll, describe, expect, test } from "bun:test";
+
+import { findImportCandidates } from "../src/auto-import.js";
+import { ProjectRegistry } from "../src/project.js";
+import { createTempProject, runCli, TIMEOUT } from "./helpers.js";
+
+const SLUGIFY = "export function slugify(text: string): string {\n  return text;\n}\n";
+
+describe("import candidates", () => {
+  const directory = createTempProject({
+    "package.json": JSON.stringify({ type: "module" }),
+    "tsconfig.json": JSON.stringify({ compilerOptions: { strict: true, module: "NodeNext", types: [] }, include: ["src"] }),
+    "src/util/strings.ts": SLUGIFY,
+    "src/index.ts": "export { slugify } from \"./util/strings.js\";\nexport const other = 1;\n",
+    "src/legacy.ts": `/** @deprecated Use the index export. */\n${SLUGIFY}`,
+    "src/main.ts": "import { other } from \"./index.js\";\nexport const x = other;\n",
+  });
+  const main = path.join(directory, "src", "main.ts");
+  const projects = new ProjectRegistry();
+  afterAll(() => {
+    projects.dispose();
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  test("rank deprecated exports last and extend an existing import", () => {
+    const result = findImportCandidates({ name: "slugify", from: main }, projects);
+    expect(result.project).toBe(path.join(directory, "tsconfig.json"));
+    expect(result.candidates.map((candidate) => [candidate.rank, candidate.moduleSpecifier, candidate.deprecated])).toEqual([
+      [1, "./index.js", false],
+      [2, "./legacy.js", true],
+    ]);
+    expect(result.candidates[0]).toMatchObject({
+      exportName: "slugify",
+      kind: "function",
+      origin: "project",
+      file: path.join(directory, "src", "util", "strings.ts"),
+      type: "(text: string) => string",
+      statement: "import { other, slugify } from \"./index.js\";",
+      edits: [{ file: main, line: 1, column: 15, endLine: 1, endColumn: 15, newText: ", slugify" }],
+    });
+    expect(result.candidates[1]).toMatchObject({
+      statement: "import { slugify } from \"./legacy.js\";",
+      edits: [{ file: main, line: 2, column: 1, endLine: 2, endColumn: 1, newText: "import { slugify } from \"./legacy.js\";\n" }],
+    });
+  }, TIMEOUT);
+
+  test("are empty for a name nothing exports", () => {
+    expect(findImportCandidates({ name: "missingHelper", from: main }, projects).candidates).toEqual([]);
+  }, TIMEOUT);
+
+  test("reject a name that is not an identifier", () => {
+    expect(() => findImportCandidates({ name: "not-a-name", from: main }, projects)).toThrow("\"not-a-name\" is not an identifier");
+  }, TIMEOUT);
+
+  test("are printed by tsp import", () => {
+    const run = runCli(["import", "slugify", "--from", main, "--no-daemon"]);
+    expect(run.status).toBe(0);
+    expect(JSON.parse(run.stdout).candidates[0].moduleSpecifier).toBe("./index.js");
+    expect(runCli(["import", "slugify"]).status).toBe(2);
+  }, TIMEOUT);
+});
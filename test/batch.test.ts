@@ -0,0 +1,65 @@
+import { describe, expect, test } from "bun:test";
+
+import { BatchResult, isBatchError, runBatch } from "../src/batch.js";
+import { FIXTURE_FILE, runCli, TIMEOUT } from "./helpers.js";
+
+async function collect(lines: string[]): Promise<BatchResult[]> {
+  async function* input() {
+    yield* lines;
+  }
+  const results: BatchResult[] = [];
+  for await (const result of runBatch(input())) {
+    results.push(result);
+  }
+  return results;
+}
+
+describe("runBatch", () => {
+  test("answers every line in order and turns failures into indexed error entries", async () => {
+    const results = await collect([
+      JSON.stringify({ file: FIXTURE_FILE, regex: "ada" }),
+      "",
+      "{not json",
+      "[1, 2]",
+      JSON.stringify({ regex: "ada" }),
+      JSON.stringify({ file: FIXTURE_FILE, line: 1 }),
+      JSON.stringify({ file: FIXTURE_FILE, regex: "notInTheFile" }),
+      JSON.stringify({ file: FIXTURE_FILE, line: 15, column: 14 }),
+    ]);
+
+    // The blank line is skipped without using up an index.
+    expect(results).toHaveLength(7);
+    expect(results.map((result) => (isBatchError(result) ? result.index : "ok"))).toEqual(["ok", 1, 2, 3, 4, 5, "ok"]);
+    expect(results[0]).toMatchObject({ matchedText: "ada", typeString: "User" });
+    expect(results[6]).toMatchObject({ matchedText: "message", typeString: "string" });
+
+    const messages = results.filter(isBatchError).map((result) => result.error.message);
+    expect(messages[0]).toStartWith("Invalid query JSON:");
+    expect(messages[1]).toBe("Query must be a JSON object");
+    expect(messages[2]).toBe("Query is missing a \"file\" string");
+    expect(messages[3]).toContain("integer \"line\" and \"column\"");
+    expect(messages[4]).toContain("notInTheFile");
+  }, TIMEOUT);
+});
+
+describe("tsp --batch", () => {
+  test("writes one compact line per query, applies --omit-* flags and exits non-zero when a query failed", () => {
+    const input = [
+      JSON.stringify({ file: FIXTURE_FILE, regex: "ada" }),
+      JSON.stringify({ file: FIXTURE_FILE, regex: "notInTheFile" }),
+    ].join("\n");
+    const run = runCli(["--batch", "--omit-project-diagnostics"], { input });
+    const lines = run.stdout.trim().split("\n").map((line) => JSON.parse(line));
+
+    expect(run.status).toBe(7);
+    expect(lines).toHaveLength(2);
+    expect(lines[0].typeString).toBe("User");
+    expect(lines[0].projectDiagnostics).toEqual([]);
+    expect(lines[1]).toMatchObject({ index: 1, error: { code: "NO_MATCH", message: expect.stringContaining("notInTheFile") } });
+  }, TIMEOUT);
+
+  test("exits 0 when every query succeeded", () => {
+    const run = runCli(["--batch"], { input: JSON.stringify({ file: FIXTURE_FILE, regex: "greet" }) });
+    expect(run.status).toBe(0);
+  }, TIMEOUT);
+});
@@ -0,0 +1,91 @@
+import fs from "node:fs";
+import path from "node:path";
+import { afterAll, describe, expect, test } from "bun:test";
+
+import { runAssertions } from "../src/check.js";
+import { ProjectRegistry } from "../src/project.js";
+import { parseYaml } from "../src/yaml.js";
+import { createTempProject, runCli, TIMEOUT } from "./helpers.js";
+
+const ASSERTIONS = [
+  "project: tsconfig.json",
+  "assertions:",
+  "  - name: user",
+  "    file: user.ts",
+  "    symbol: ada",
+  "    typeString: User",
+  "    properties: [id, email]",
+  "  - file: user.ts",
+  "    regex: count",
+  "    noDiagnostics: true",
+  "  - file: user.ts",
+  "    symbol: label",
+].join("\n");
+
+describe("check", () => {
+  const directory = createTempProject({
+    "tsconfig.json": JSON.stringify({ compilerOptions: { strict: true, types: [] }, include: ["*.ts"] }),
+    "user.ts": [
+      "export interface User { id: string; name: string; }",
+      "export const ada: User = { id: \"1\", name: \"Ada\" };",
+      "export const count: number = \"1\";",
+      "export const label = `${ada.name}!`;",
+    ].join("\n"),
+    "assertions.yaml": ASSERTIONS,
+    "assertions.json": JSON.stringify([{ file: "user.ts", symbol: "ada", typeString: "{ id: string; }" }]),
+    "literals.ts": "export const one = 1;\nexport const yes = true;\nexport const none = null;\n",
+    "literals.yaml": [
+      "assertions:",
+      "  - file: literals.ts",
+      "    symbol: one",
+      "    typeString: 1",
+      "  - file: literals.ts",
+      "    symbol: yes",
+      "    typeString: true",
+      "  - file: literals.ts",
+      "    symbol: none",
+      "    typeString: null",
+    ].join("\n"),
+  });
+  const assertionsFile = path.join(directory, "assertions.yaml");
+  afterAll(() => fs.rmSync(directory, { recursive: true, force: true }));
+
+  test("reports each failed expectation with expected and actual values", () => {
+    const result = runAssertions(assertionsFile, new ProjectRegistry());
+    expect(result).toMatchObject({ total: 3, passed: 0, failed: 3 });
+    expect(result.results[0]).toMatchObject({ name: "user", query: "symbol ada", passed: false });
+    expect(result.results[0].failures).toEqual([
+      { expectation: "properties", expected: ["id", "email"], actual: ["id", "name"], missing: ["email"], unexpected: ["name"] },
+    ]);
+    expect(result.results[1].failures[0]).toMatchObject({ expectation: "noDiagnostics", expected: true, actual: false });
+    expect(result.results[1].failures[0].diagnostics?.[0].code).toBe(2322);
+    expect(result.results[2].error?.message).toStartWith("Assertion has no typeString, properties or noDiagnostics expectation");
+  }, TIMEOUT);
+
+  test("--update rewrites the expectations so the next run passes", () => {
+    const updated = runAssertions(assertionsFile, new ProjectRegistry(), { update: true });
+    expect(updated).toMatchObject({ passed: 3, failed: 0, updated: 3 });
+
+    const document = parseYaml(fs.readFileSync(assertionsFile, "utf8")) as { assertions: Record<string, unknown>[] };
+    expect(document.assertions).toMatchObject([
+      { name: "user", properties: ["id", "name"], typeString: "User" },
+      { regex: "count", noDiagnostics: false },
+      { symbol: "label", typeString: "string" },
+    ]);
+    expect(runAssertions(assertionsFile, new ProjectRegistry())).toMatchObject({ passed: 3, failed: 0 });
+    expect(runAssertions(assertionsFile, new ProjectRegistry(), { update: true }).updated).toBe(0);
+  }, TIMEOUT);
+
+  test("reads literal types written as plain YAML scalars as type strings", () => {
+    const result = runAssertions(path.join(directory, "literals.yaml"), new ProjectRegistry());
+    expect(result).toMatchObject({ total: 3, passed: 3, failed: 0 });
+  }, TIMEOUT);
+
+  test("exits 8 when an assertion fails", () => {
+    const failing = runCli(["check", path.join(directory, "assertions.json")]);
+    expect(failing.status).toBe(8);
+    expect(JSON.parse(failing.stdout).results[0].failures[0].diff).toBe("- { id: string; }\n+ User");
+    expect(runCli(["check", assertionsFile]).status).toBe(0);
+    expect(runCli(["check", path.join(directory, "missing.yaml")]).status).toBe(3);
+  }, TIMEOUT);
+});
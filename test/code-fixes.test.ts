@@ -0,0 +1,61 @@
+import fs from "node:fs";
+import path from "node:path";
+import { afterAll, describe, expect, test } from "bun:test";
+
+import { listFileFixes } from "../src/code-fixes.js";
+import { pickType } from "../src/picker.js";
+import { ProjectRegistry } from "../src/project.js";
+import { createTempProject, FIXTURE_FILE, runCli, TIMEOUT } from "./helpers.js";
+
+const SPELLING_EDIT = { file: FIXTURE_FILE, line: 17, column: 30, endLine: 17, endColumn: 41, newText: "toUpperCase" };
+
+describe("code fixes", () => {
+  const projects = new ProjectRegistry();
+  afterAll(() => projects.dispose());
+
+  test("are listed per diagnostic with ranges and related information", () => {
+    const { fixes } = listFileFixes({ file: FIXTURE_FILE }, projects);
+    expect(fixes).toHaveLength(1);
+    expect(fixes[0].diagnostic).toMatchObject({ code: 2551, line: 17, column: 30, endLine: 17, endColumn: 41 });
+    expect(fixes[0].diagnostic.relatedInformation?.[0].message).toBe("'toUpperCase' is declared here.");
+    expect(fixes[0].fix).toEqual({ fixName: "spelling", description: "Change spelling to 'toUpperCase'", edits: [SPELLING_EDIT] });
+  }, TIMEOUT);
+
+  test("are filtered by code and line", () => {
+    expect(listFileFixes({ file: FIXTURE_FILE, code: 2304 }, projects).fixes).toEqual([]);
+    expect(listFileFixes({ file: FIXTURE_FILE, line: 16 }, projects).fixes).toEqual([]);
+    expect(listFileFixes({ file: FIXTURE_FILE, code: 2551, line: 17 }, projects).fixes).toHaveLength(1);
+  }, TIMEOUT);
+
+  test("are attached to diagnostics only with includeFixes", () => {
+    expect(pickType({ file: FIXTURE_FILE, regex: "shout" }, projects).diagnostics[0].fixes).toBeUndefined();
+    const { diagnostics } = pickType({ file: FIXTURE_FILE, regex: "shout" }, projects, { includeFixes: true });
+    expect(diagnostics[0].fixes?.[0].edits).toEqual([SPELLING_EDIT]);
+  }, TIMEOUT);
+});
+
+describe("tsp fix --apply", () => {
+  test("writes the chosen fix to disk", () => {
+    const directory = createTempProject({
+      "tsconfig.json": JSON.stringify({ compilerOptions: { strict: true, module: "NodeNext", types: [] }, include: ["*.ts"] }),
+      "package.json": JSON.stringify({ type: "module" }),
+      "lib.ts": "export function helper(): number {\n  return 1;\n}\n",
+      "main.ts": "export const value = helper();\n",
+    });
+    const main = path.join(directory, "main.ts");
+
+    const listed = runCli(["fix", main, "--code", "2304"]);
+    expect(listed.status).toBe(0);
+    expect(JSON.parse(listed.stdout).fixes.map((entry: { fix: { fixName: string } }) => entry.fix.fixName)).toContain("import");
+
+    const applied = runCli(["fix", main, "--code", "2304", "--apply", "0"]);
+    expect(applied.status).toBe(0);
+    expect(JSON.parse(applied.stdout).files).toEqual([main]);
+    expect(fs.readFileSync(main, "utf8")).toBe("import { helper } from \"./lib.js\";\n\nexport const value = helper();\n");
+
+    const missing = runCli(["fix", main, "--apply", "0"]);
+    expect(missing.status).toBe(2);
+    expect(missing.stderr).toContain("No fix with index 0; 0 fix(es) available");
+    fs.rmSync(directory, { recursive: true, force: true });
+  }, TIMEOUT);
+});
@@ -0,0 +1,63 @@
+import path from "node:path";
+import { afterAll, describe, expect, test } from "bun:test";
+
+import { listCompletions } from "../src/completions.js";
+import { handleDaemonRequest } from "../src/daemon.js";
+import { ProjectRegistry } from "../src/project.js";
+import { FIXTURES, runCli, TIMEOUT } from "./helpers.js";
+
+const DRAFT_FILE = path.join(FIXTURES, "draft.ts");
+const DRAFT = "import { ada } from \"./app.js\";\nada.\nconst g = gre\n";
+const overlays = { [DRAFT_FILE]: DRAFT };
+
+describe("listCompletions", () => {
+  const projects = new ProjectRegistry();
+  afterAll(() => projects.dispose());
+
+  test("lists members with their types at the end of the match", () => {
+    const result = listCompletions({ file: DRAFT_FILE, regex: "ada\\.", overlays }, projects);
+    expect(result).toMatchObject({ position: { line: 2, column: 5 }, isMemberCompletion: true, total: 3 });
+    expect(result.entries).toEqual([
+      { name: "id", kind: "property", type: "string", optional: false, deprecated: false },
+      { name: "name", kind: "property", type: "string", optional: false, deprecated: false },
+      { name: "nickname", kind: "property", type: "string | undefined", optional: true, deprecated: true },
+    ]);
+  }, TIMEOUT);
+
+  test("marks exports of other modules with the import they need", () => {
+    const result = listCompletions({ file: DRAFT_FILE, regex: "gre", overlays }, projects, { prefix: "GRE" });
+    expect(result.entries).toEqual([
+      { name: "greet", kind: "function", optional: false, deprecated: false, autoImport: { moduleSpecifier: "./app.js" } },
+    ]);
+    // Already imported, so there is nothing to add.
+    expect(listCompletions({ file: DRAFT_FILE, regex: "gre", overlays }, projects, { prefix: "ADA" }).entries).toEqual([
+      { name: "ada", kind: "alias", type: "User", optional: false, deprecated: false },
+    ]);
+  }, TIMEOUT);
+
+  test("counts every entry in total but returns at most limit", () => {
+    const result = listCompletions({ file: DRAFT_FILE, regex: "ada\\.", overlays }, projects, { limit: 1 });
+    expect(result.total).toBe(3);
+    expect(result.entries.map((entry) => entry.name)).toEqual(["id"]);
+  }, TIMEOUT);
+
+  test("are served by the daemon", () => {
+    const response = handleDaemonRequest(
+      { id: 1, method: "completions", params: { file: DRAFT_FILE, regex: "ada\\.", overlays, options: { prefix: "ni" } } },
+      projects,
+    );
+    expect(response).toMatchObject({ id: 1, result: { total: 1, entries: [{ name: "nickname" }] } });
+  }, TIMEOUT);
+});
+
+describe("tsp completions", () => {
+  test("reads the file from --stdin and validates --limit", () => {
+    const run = runCli(["completions", DRAFT_FILE, "--regex", "ada\\.", "--stdin"], { input: DRAFT });
+    expect(run.status).toBe(0);
+    expect(JSON.parse(run.stdout).entries.map((entry: { name: string }) => entry.name)).toEqual(["id", "name", "nickname"]);
+
+    const invalid = runCli(["completions", DRAFT_FILE, "--regex", "ada", "--limit", "all"]);
+    expect(invalid.status).toBe(2);
+    expect(invalid.stderr).toContain("Invalid --limit value: all");
+  }, TIMEOUT);
+});
@@ -0,0 +1,155 @@
+import fs from "node:fs";
+import path from "node:path";
+import { afterAll, describe, expect, test } from "bun:test";
+
+import { handleDaemonRequest } from "../src/daemon.js";
+import { ConfigError } from "../src/errors.js";
+import { pickType } from "../src/picker.js";
+import { ProjectRegistry } from "../src/project.js";
+import { createTempProject, FIXTURE_FILE, FIXTURES, runCli, TIMEOUT, touchLater } from "./helpers.js";
+
+describe("handleDaemonRequest", () => {
+  const projects = new ProjectRegistry();
+  afterAll(() => projects.dispose());
+
+  test("answers ping with the daemon's pid", () => {
+    expect(handleDaemonRequest({ id: 1, method: "ping" }, projects)).toEqual({ id: 1, result: { pid: process.pid } });
+  });
+
+  test("answers pickType like an in-process query", () => {
+    const response = handleDaemonRequest({ id: "a", method: "pickType", params: { file: FIXTURE_FILE, regex: "ada" } }, projects);
+    expect(response.error).toBeUndefined();
+    expect(response.result).toMatchObject({ matchedText: "ada", typeString: "User" });
+  }, TIMEOUT);
+
+  test("reports unknown methods and query failures as errors, not crashes", () => {
+    expect(handleDaemonRequest({ id: 2, method: "nope" }, projects).error?.message).toBe("Unknown method: nope");
+    const failed = handleDaemonRequest({ id: 3, method: "pickType", params: { file: FIXTURE_FILE, regex: "notInTheFile" } }, projects);
+    expect(failed.id).toBe(3);
+    expect(failed.error?.message).toContain("notInTheFile");
+  }, TIMEOUT);
+
+  test("answers exports, fixes and check for the CLI subcommands of the same name", () => {
+    const exports = handleDaemonRequest({ id: 4, method: "exports", params: { module: "./counter.js", from: path.join(FIXTURES, "tally.ts") } }, projects);
+    expect(exports.result).toMatchObject({ file: path.join(FIXTURES, "counter.ts"), exports: [{ name: "count" }, { name: "increment" }] });
+
+    const fixes = handleDaemonRequest({ id: 5, method: "fixes", params: { file: FIXTURE_FILE } }, projects);
+    expect(fixes.result).toMatchObject({ fixes: [{ diagnostic: { code: 2551 }, fix: { fixName: "spelling" } }] });
+
+    const directory = createTempProject({
+      "assertions.json": JSON.stringify([{ file: FIXTURE_FILE, symbol: "ada", typeString: "Person" }]),
+    });
+    const check = handleDaemonRequest({ id: 6, method: "check", params: { file: path.join(directory, "assertions.json") } }, projects);
+    expect(check.result).toMatchObject({ total: 1, failed: 1, results: [{ failures: [{ expectation: "typeString", actual: "User" }] }] });
+    fs.rmSync(directory, { recursive: true, force: true });
+  }, TIMEOUT);
+});
+
+describe("ProjectRegistry", () => {
+  test("keeps one warm project per tsconfig and reuses its program", () => {
+    const projects = new ProjectRegistry();
+    const first = projects.getContext(FIXTURE_FILE);
+    const second = projects.getContext(FIXTURE_FILE);
+    expect(first.configPath).toBe(path.join(FIXTURES, "tsconfig.json"));
+    expect(second.program).toBe(first.program);
+    expect(projects.size).toBe(1);
+    projects.dispose();
+  }, TIMEOUT);
+
+  test("reloads the tsconfig when it changes", () => {
+    const directory = createTempProject({
+      "tsconfig.json": JSON.stringify({ compilerOptions: { strict: true } }),
+      "main.ts": "export const value = 1;\n",
+    });
+    const file = path.join(directory, "main.ts");
+    const projects = new ProjectRegistry();
+    expect(pickType({ file, regex: "value" }, projects).typeString).toBe("1");
+
+    const config = path.join(directory, "tsconfig.json");
+    fs.writeFileSync(config, JSON.stringify({ compilerOptions: { strict: true, target: "ES5" } }));
+    touchLater(config);
+    expect(projects.getContext(file).program.getCompilerOptions().target).toBe(1);
+
+    projects.dispose();
+    fs.rmSync(directory, { recursive: true, force: true });
+  }, TIMEOUT);
+
+  test("sees edits to files on disk, including imported ones", () => {
+    const directory = createTempProject({
+      "tsconfig.json": JSON.stringify({ compilerOptions: { strict: true, types: [] }, include: ["*.ts"] }),
+      "main.ts": "import { count } from \"./count\";\nexport const value = count;\n",
+      "count.ts": "export const count = 1;\n",
+    });
+    const file = path.join(directory, "main.ts");
+    const projects = new ProjectRegistry();
+    expect(pickType({ file, regex: "value" }, projects).typeString).toBe("1");
+
+    const imported = path.join(directory, "count.ts");
+    fs.writeFileSync(imported, "export const count = \"one\";\n");
+    touchLater(imported);
+    expect(pickType({ file, regex: "value" }, projects).typeString).toBe("\"one\"");
+
+    projects.dispose();
+    fs.rmSync(directory, { recursive: true, force: true });
+  }, TIMEOUT);
+
+  test("keeps failing on a broken tsconfig until it changes again", () => {
+    const directory = createTempProject({
+      "tsconfig.json": JSON.stringify({ compilerOptions: { strict: true, types: [] } }),
+      "main.ts": "export const value = 1;\n",
+    });
+    const file = path.join(directory, "main.ts");
+    const config = path.join(directory, "tsconfig.json");
+    const projects = new ProjectRegistry();
+    expect(pickType({ file, regex: "value" }, projects).typeString).toBe("1");
+
+    fs.writeFileSync(config, "{ \"compilerOptions\": { \"strict\": tru } }");
+    touchLater(config);
+    expect(() => projects.getContext(file)).toThrow(ConfigError);
+    expect(() => projects.getContext(file)).toThrow(ConfigError);
+
+    fs.writeFileSync(config, JSON.stringify({ compilerOptions: { strict: true, types: [] } }));
+    touchLater(config, 4);
+    expect(pickType({ file, regex: "value" }, projects).typeString).toBe("1");
+
+    projects.dispose();
+    fs.rmSync(directory, { recursive: true, force: true });
+  }, TIMEOUT);
+
+  test("adds files created after loading once a query names them", () => {
+    const directory = createTempProject({
+      "tsconfig.json": JSON.stringify({ compilerOptions: { strict: true, types: [] }, include: ["*.ts"] }),
+      "main.ts": "export const value = 1;\n",
+    });
+    const projects = new ProjectRegistry();
+    expect(projects.listProjectFiles(directory)).toEqual([path.join(directory, "main.ts")]);
+
+    const created = path.join(directory, "created.ts");
+    fs.writeFileSync(created, "export const later = 2;\n");
+    expect(projects.getContext(created).selection.reason).toBe("includes-file");
+    expect(projects.listProjectFiles(directory)).toEqual([created, path.join(directory, "main.ts")]);
+
+    projects.dispose();
+    fs.rmSync(directory, { recursive: true, force: true });
+  }, TIMEOUT);
+});
+
+describe("tsp serve --stdio", () => {
+  test("answers newline-delimited requests in order and exits when stdin closes", () => {
+    const requests = [
+      { id: 1, method: "ping" },
+      "not json",
+      { id: 2, method: "pickType", params: { file: FIXTURE_FILE, line: 13, column: 14 } },
+    ];
+    const run = runCli(["serve", "--stdio"], {
+      input: requests.map((request) => (typeof request === "string" ? request : JSON.stringify(request))).join("\n") + "\n",
+    });
+    const responses = run.stdout.trim().split("\n").map((line) => JSON.parse(line));
+
+    expect(run.status).toBe(0);
+    expect(responses).toHaveLength(3);
+    expect(responses[0].result.pid).toBeNumber();
+    expect(responses[1]).toMatchObject({ id: null, error: { message: expect.stringContaining("Invalid request JSON") } });
+    expect(responses[2].result).toMatchObject({ matchedText: "ada", typeString: "User" });
+  }, TIMEOUT);
+});
@@ -0,0 +1,48 @@
+import path from "node:path";
+import { afterAll, describe, expect, test } from "bun:test";
+
+import { formatTypeInfo } from "../src/format.js";
+import { pickType } from "../src/picker.js";
+import { ProjectRegistry } from "../src/project.js";
+import { FIXTURE_FILE, FIXTURES, TIMEOUT } from "./helpers.js";
+
+const DOCS_FILE = path.join(FIXTURES, "docs.ts");
+
+describe("documentation", () => {
+  const projects = new ProjectRegistry();
+  afterAll(() => projects.dispose());
+
+  test("reads the doc comment, tags and deprecation message of the symbol", () => {
+    expect(pickType({ file: DOCS_FILE, symbol: "createUser" }, projects).documentation).toEqual({
+      text: "Creates a user record.",
+      tags: [{ name: "deprecated", text: "Use createAccount instead" }],
+      deprecated: true,
+      deprecationMessage: "Use createAccount instead",
+    });
+  }, TIMEOUT);
+
+  test("documents each overload separately and only deprecates a function when every overload is", () => {
+    const { documentation, signatures } = pickType({ file: DOCS_FILE, symbol: "format" }, projects);
+    expect(documentation?.deprecated).toBe(false);
+    expect(signatures.map((signature) => signature.documentation?.deprecated)).toEqual([false, true]);
+    expect(signatures[0].parameters).toEqual([{ name: "value", documentation: "The value to format." }]);
+    expect(signatures[0].documentation?.tags.map((tag) => tag.name)).toEqual(["param", "returns"]);
+    expect(signatures[1].documentation?.deprecationMessage).toBe("Pass a number instead.");
+  }, TIMEOUT);
+
+  test("flags deprecated properties", () => {
+    const { properties } = pickType({ file: FIXTURE_FILE, regex: "ada" }, projects);
+    expect(properties.map((property) => [property.name, property.deprecated])).toEqual([
+      ["id", false],
+      ["name", false],
+      ["nickname", true],
+    ]);
+  }, TIMEOUT);
+
+  test("shows deprecation in the text header and the documentation section", () => {
+    const text = formatTypeInfo(pickType({ file: DOCS_FILE, symbol: "createUser" }, projects), { format: "text" });
+    expect(text.split("\n").slice(1, 3)).toEqual(["type: (name: string) => { name: string; }", "deprecated: Use createAccount instead"]);
+    expect(text).toContain("documentation:\n  Creates a user record.\n  @deprecated Use createAccount instead\n");
+    expect(text).toContain("(name: string): { name: string; } (deprecated)");
+  }, TIMEOUT);
+});
@@ -0,0 +1,80 @@
+import fs from "node:fs";
+import path from "node:path";
+import { afterAll, describe, expect, test } from "bun:test";
+
+import { EXIT_CODES, NoMatchError, PositionOutOfRangeError, toErrorInfo, TspError } from "../src/errors.js";
+import { pickType } from "../src/picker.js";
+import { ProjectRegistry } from "../src/project.js";
+import { createTempProject, FIXTURE_FILE, FIXTURES, runCli, TIMEOUT } from "./helpers.js";
+import { schemaErrors } from "./schema-validator.js";
+
+describe("typed query errors", () => {
+  const projects = new ProjectRegistry();
+  afterAll(() => projects.dispose());
+
+  test("carry a stable code and machine-readable details", () => {
+    let caught: unknown;
+    try {
+      pickType({ file: FIXTURE_FILE, regex: "ada", matchIndex: 9 }, projects);
+    } catch (error) {
+      caught = error;
+    }
+    expect(caught).toBeInstanceOf(NoMatchError);
+    expect(toErrorInfo(caught)).toEqual({
+      code: "NO_MATCH",
+      message: `Regex "ada" did not match index 9 in ${FIXTURE_FILE} (2 matches found)`,
+      details: { regex: "ada", flags: "g", matchIndex: 9, matchCount: 2, file: FIXTURE_FILE },
+    });
+  }, TIMEOUT);
+
+  test("report how far a position is out of range", () => {
+    expect(() => pickType({ file: FIXTURE_FILE, line: 13, column: 80 }, projects)).toThrow(PositionOutOfRangeError);
+    expect(() => pickType({ file: FIXTURE_FILE, line: 13, column: 80 }, projects)).toThrow(
+      `Column 80 is past the end of line 13 in ${FIXTURE_FILE}, which ends at column 51`,
+    );
+  }, TIMEOUT);
+
+  test("fall back to INTERNAL for anything unexpected", () => {
+    expect(toErrorInfo(new Error("boom"))).toEqual({ code: "INTERNAL", message: "boom" });
+    expect(new TspError("DAEMON_ERROR", "gone").exitCode).toBe(EXIT_CODES.daemon);
+  });
+});
+
+describe("exit codes and --json-errors", () => {
+  const cases: [string, string[], number, string][] = [
+    ["an invalid regex", [FIXTURE_FILE, "--regex", "("], EXIT_CODES.invalidQuery, "INVALID_QUERY"],
+    ["a missing file", [path.join(FIXTURES, "missing.ts"), "--regex", "a"], EXIT_CODES.fileNotFound, "FILE_NOT_FOUND"],
+    ["a missing --project", [FIXTURE_FILE, "--regex", "ada", "--project", path.join(FIXTURES, "nope")], EXIT_CODES.project, "PROJECT_NOT_FOUND"],
+    ["a regex without a match", [FIXTURE_FILE, "--regex", "notInTheFile"], EXIT_CODES.targetNotFound, "NO_MATCH"],
+    ["an unknown symbol", [FIXTURE_FILE, "--symbol", "Nope"], EXIT_CODES.targetNotFound, "SYMBOL_NOT_FOUND"],
+  ];
+
+  for (const [name, args, status, code] of cases) {
+    test(`${name} exits ${status} with ${code}`, () => {
+      const plain = runCli(args);
+      expect(plain.status).toBe(status);
+      expect(plain.stdout).toBe("");
+      expect(plain.stderr).toStartWith("Error");
+
+      const json = runCli([...args, "--json-errors"]);
+      const output = JSON.parse(json.stdout);
+      expect(json.status).toBe(status);
+      expect(output).toMatchObject({ schemaVersion: 1, error: { code } });
+      expect(schemaErrors(output, "ErrorOutput")).toEqual([]);
+    }, TIMEOUT);
+  }
+
+  test("a tsconfig that does not parse exits 4 with CONFIG_ERROR", () => {
+    const directory = createTempProject({ "tsconfig.json": "{ \"compilerOptions\": { \"strict\": ", "main.ts": "export const a = 1;\n" });
+    const run = runCli([path.join(directory, "main.ts"), "--regex", "a", "--json-errors"]);
+    expect(run.status).toBe(EXIT_CODES.project);
+    expect(JSON.parse(run.stdout).error.code).toBe("CONFIG_ERROR");
+    fs.rmSync(directory, { recursive: true, force: true });
+  }, TIMEOUT);
+
+  test("subcommands report errors the same way", () => {
+    const run = runCli(["exports", "./missing.js", "--from", FIXTURE_FILE, "--json-errors"]);
+    expect(run.status).toBe(EXIT_CODES.fileNotFound);
+    expect(JSON.parse(run.stdout).error).toMatchObject({ code: "MODULE_NOT_FOUND", details: { module: "./missing.js" } });
+  }, TIMEOUT);
+});
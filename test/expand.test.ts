@@ -0,0 +1,52 @@
+import path from "node:path";
+import { afterAll, describe, expect, test } from "bun:test";
+
+import { ExpandOptions, TypeTreeNode } from "../src/expand.js";
+import { pickType } from "../src/picker.js";
+import { ProjectRegistry } from "../src/project.js";
+import { FIXTURES, runCli, TIMEOUT } from "./helpers.js";
+
+const TREE_FILE = path.join(FIXTURES, "tree.ts");
+
+/** `name: kind` for each property of an expanded object node. */
+function propertyKinds(node: TypeTreeNode | undefined): Record<string, string> {
+  return Object.fromEntries((node?.properties ?? []).map((property) => [property.name, property.type.kind]));
+}
+
+describe("--expand", () => {
+  const projects = new ProjectRegistry();
+  afterAll(() => projects.dispose());
+  const expand = (regex: string, options: ExpandOptions) =>
+    pickType({ file: TREE_FILE, regex }, projects, { expand: options }).expanded;
+
+  test("stops a recursive type at the first repeat with a cycle node", () => {
+    const children = expand("root", { depth: 5 })?.properties?.find((property) => property.name === "children");
+    expect(children?.type).toEqual({ kind: "array", text: "TreeNode[]", element: { kind: "cycle", text: "TreeNode" } });
+  }, TIMEOUT);
+
+  test("truncates below the requested depth and keeps library types opaque", () => {
+    expect(expand("defaults", { depth: 0 })).toEqual({ kind: "truncated", text: "Options", alias: "Options", truncatedBy: "depth" });
+    const node = expand("defaults", { depth: 1 });
+    expect(propertyKinds(node)).toEqual({ retries: "primitive", tags: "truncated", created: "library" });
+    expect(node?.properties?.[1].type.truncatedBy).toBe("depth");
+  }, TIMEOUT);
+
+  test("truncates every node after the node budget runs out", () => {
+    const node = expand("defaults", { depth: 5, maxNodes: 2 });
+    expect(propertyKinds(node)).toEqual({ retries: "primitive", tags: "truncated", created: "truncated" });
+    expect(node?.properties?.map((property) => property.type.truncatedBy)).toEqual([undefined, "nodes", "nodes"]);
+  }, TIMEOUT);
+
+  test("skips only the nodes whose text no longer fits the character budget", () => {
+    // "Options" + "number" is 13 characters; "string[]" would make 21, "Date" makes 17.
+    const node = expand("defaults", { depth: 5, maxChars: 20 });
+    expect(propertyKinds(node)).toEqual({ retries: "primitive", tags: "truncated", created: "library" });
+    expect(node?.properties?.[1].type.truncatedBy).toBe("chars");
+  }, TIMEOUT);
+
+  test("validates the CLI budgets", () => {
+    const run = runCli([TREE_FILE, "--regex", "defaults", "--expand", "1", "--expand-max-nodes", "lots"]);
+    expect(run.status).toBe(2);
+    expect(run.stderr).toContain("Invalid --expand-max-nodes value: lots");
+  }, TIMEOUT);
+});
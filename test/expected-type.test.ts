@@ -0,0 +1,55 @@
+import path from "node:path";
+import { afterAll, describe, expect, test } from "bun:test";
+
+import { pickType } from "../src/picker.js";
+import { ProjectRegistry } from "../src/project.js";
+import { FIXTURES, runCli, TIMEOUT } from "./helpers.js";
+
+// Half-written code only exists as an overlay, so the fixtures on disk stay valid.
+const DRAFT_FILE = path.join(FIXTURES, "slots.ts");
+const DRAFT = [
+  "import { ada, greet, User } from \"./app.js\";",
+  "greet(ada, );",
+  "export function make(): User {",
+  "  return ",
+  "}",
+  "const partial: User = { id: , name: \"x\" };",
+  "export const hi = greet(ada, \"Hi\");",
+].join("\n");
+
+describe("expectedType", () => {
+  const projects = new ProjectRegistry();
+  afterAll(() => projects.dispose());
+  const pick = (line: number, column: number) =>
+    pickType({ file: DRAFT_FILE, line, column, overlays: { [DRAFT_FILE]: DRAFT } }, projects).expectedType;
+
+  test("fills an empty argument slot from the resolved signature", () => {
+    expect(pick(2, 12)).toMatchObject({ source: "argument", typeString: "string" });
+  }, TIMEOUT);
+
+  test("uses the declared return type for a bare return", () => {
+    const expected = pick(4, 3);
+    expect(expected).toMatchObject({ source: "return", typeString: "User" });
+    expect(expected?.properties.map((property) => property.name)).toEqual(["id", "name", "nickname"]);
+  }, TIMEOUT);
+
+  test("looks up a member whose value is still missing on the literal's contextual type", () => {
+    expect(pick(6, 28)).toMatchObject({ source: "property", typeString: "string" });
+  }, TIMEOUT);
+
+  test("reports the contextual type of a written argument", () => {
+    expect(pick(7, 30)).toMatchObject({ source: "argument", typeString: "string | undefined" });
+  }, TIMEOUT);
+
+  test("is absent where nothing is expected", () => {
+    expect(pick(7, 18)).toBeUndefined();
+  }, TIMEOUT);
+
+  test("follows --omit-properties on the CLI", () => {
+    const run = runCli([DRAFT_FILE, "--line", "4", "--column", "3", "--stdin", "--omit-properties", "--omit-project-diagnostics"], {
+      input: DRAFT,
+    });
+    expect(run.status).toBe(0);
+    expect(JSON.parse(run.stdout).expectedType).toMatchObject({ source: "return", typeString: "User", properties: [] });
+  }, TIMEOUT);
+});
@@ -0,0 +1,55 @@
+import path from "node:path";
+import { afterAll, describe, expect, test } from "bun:test";
+
+import { listModuleExports } from "../src/exports.js";
+import { ProjectRegistry } from "../src/project.js";
+import { FIXTURES, runCli, TIMEOUT } from "./helpers.js";
+
+const BARREL_FILE = path.join(FIXTURES, "barrel.ts");
+
+describe("listModuleExports", () => {
+  const projects = new ProjectRegistry();
+  afterAll(() => projects.dispose());
+
+  test("reports each export's kind, type and where a re-export comes from", () => {
+    const { file, exports } = listModuleExports({ module: BARREL_FILE }, projects);
+    const summary = exports.map(({ name, kind, typeString, origin }) => ({
+      name,
+      kind,
+      typeString,
+      origin: origin && `${path.basename(origin.file)}#${origin.name}`,
+    }));
+
+    expect(file).toBe(BARREL_FILE);
+    expect(summary).toEqual([
+      { name: "currentCount", kind: "value", typeString: "number", origin: "counter.ts#count" },
+      { name: "increment", kind: "value", typeString: "() => number", origin: "counter.ts#increment" },
+      { name: "Tally", kind: "both", typeString: "typeof Tally", origin: "tally.ts#Tally" },
+      { name: "User", kind: "type", typeString: "User", origin: "app.ts#User" },
+      // Declared in the module itself under its own name, so it has no origin.
+      { name: "version", kind: "value", typeString: "\"1.0\"", origin: undefined },
+    ]);
+    expect(exports.find((entry) => entry.name === "increment")?.signatures).toHaveLength(1);
+  }, TIMEOUT);
+
+  test("resolves a specifier relative to --from", () => {
+    const result = listModuleExports({ module: "./counter.js", from: path.join(FIXTURES, "tally.ts") }, projects);
+    expect(result.file).toBe(path.join(FIXTURES, "counter.ts"));
+    expect(result.exports.map((entry) => entry.name)).toEqual(["count", "increment"]);
+  }, TIMEOUT);
+
+  test("needs --from for anything that is not a file, and a resolvable specifier", () => {
+    expect(() => listModuleExports({ module: "./counter.js" }, projects)).toThrow("pass --from <file>");
+    expect(() => listModuleExports({ module: "./missing.js", from: BARREL_FILE }, projects)).toThrow(
+      `Cannot resolve module "./missing.js" from ${BARREL_FILE}`,
+    );
+  }, TIMEOUT);
+});
+
+describe("tsp exports", () => {
+  test("prints the export surface as JSON", () => {
+    const run = runCli(["exports", "./counter.js", "--from", path.join(FIXTURES, "tally.ts")]);
+    expect(run.status).toBe(0);
+    expect(JSON.parse(run.stdout).exports.map((entry: { name: string }) => entry.name)).toEqual(["count", "increment"]);
+  }, TIMEOUT);
+});
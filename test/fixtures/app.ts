@@ -0,0 +1,17 @@
+export interface User {
+  id: string;
+  name: string;
+  /** @deprecated Use `name`. */
+  nickname?: string;
+}
+
+/** Greets a user by name. */
+export function greet(user: User, greeting = "Hello"): string {
+  return `${greeting}, ${user.name}`;
+}
+
+export const ada: User = { id: "1", name: "Ada" };
+
+export const message = greet(ada);
+
+export const shout = message.toUppercase();
@@ -0,0 +1,4 @@
+export { count as currentCount, increment } from "./counter.js";
+export type { User } from "./app.js";
+export { Tally } from "./tally.js";
+export const version = "1.0";
@@ -0,0 +1,6 @@
+export let count = 0;
+
+export function increment(): number {
+  count += 1;
+  return count;
+}
@@ -0,0 +1,21 @@
+/**
+ * Formats a value for display.
+ * @param value - The value to format.
+ * @returns The formatted text.
+ */
+export function format(value: number): string;
+/** @deprecated Pass a number instead. */
+export function format(value: string): string;
+export function format(value: number | string): string {
+  return String(value);
+}
+
+/**
+ * Creates a user record.
+ * @deprecated Use createAccount instead
+ */
+export function createUser(name: string): { name: string } {
+  return { name };
+}
+
+export const formatted = format(1);
@@ -0,0 +1,13 @@
+export function wrap<T>(value: T): { value: T } {
+  return { value };
+}
+
+export function parse(input: string): number;
+export function parse(input: number): string;
+export function parse(input: string | number): number | string {
+  return typeof input === "string" ? input.length : String(input);
+}
+
+export const wrapped = wrap("tsp");
+
+export const parsed = parse(7);
@@ -0,0 +1,23 @@
+type Shape = { kind: "circle"; radius: number } | { kind: "square"; size: number };
+
+export function describe(value: string | number | null, shape: Shape): string {
+  if (!value) {
+    return "empty";
+  }
+  if (typeof value === "number") {
+    return value.toFixed(2);
+  }
+  if (shape.kind === "circle") {
+    return `${value} ${shape.radius}`;
+  }
+  let label: string | undefined;
+  label = value.trim();
+  return label;
+}
+
+export function area(shape: Shape | Error): number {
+  if (shape instanceof Error) {
+    throw shape;
+  }
+  return "radius" in shape ? shape.radius : shape.size;
+}
@@ -0,0 +1,25 @@
+export namespace Shapes {
+  export function area(width: number, height: number): number {
+    return width * height;
+  }
+}
+
+export class UserService {
+  static create(name: string): UserService {
+    return new UserService(name);
+  }
+
+  constructor(readonly name: string) {}
+
+  save(): boolean {
+    return true;
+  }
+}
+
+export default { options: { timeout: 30 } };
+
+// A local and an export alias share the name `config`, so `--symbol config` is ambiguous.
+const config = { local: true };
+const settings = { timeout: 1 };
+export { settings as config };
+export const usesLocal = config.local;
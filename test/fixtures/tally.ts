@@ -0,0 +1,8 @@
+import { count, increment } from "./counter.js";
+
+export class Tally {
+  record(): number {
+    increment();
+    return count;
+  }
+}
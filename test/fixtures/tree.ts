@@ -0,0 +1,10 @@
+export interface TreeNode {
+  label: string;
+  children: TreeNode[];
+}
+
+export const root: TreeNode = { label: "root", children: [] };
+
+export type Options = { retries: number; tags: string[]; created: Date };
+
+export const defaults: Options = { retries: 3, tags: [], created: new Date(0) };
@@ -0,0 +1,20 @@
+export interface Named {
+  name: string;
+}
+
+export interface Animal extends Named {
+  legs: number;
+}
+
+export type Pet = Animal & { owner: string };
+
+export class Dog implements Animal {
+  name = "Rex";
+  legs = 4;
+}
+
+export class Puppy extends Dog {
+  age = 1;
+}
+
+export const cat: Animal = { name: "Tom", legs: 4 };
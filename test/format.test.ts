@@ -0,0 +1,91 @@
+import { afterAll, describe, expect, test } from "bun:test";
+
+import { formatTypeInfo } from "../src/format.js";
+import { pickType, TypeInfo } from "../src/picker.js";
+import { ProjectRegistry } from "../src/project.js";
+import { FIXTURE_FILE, runCli, TIMEOUT } from "./helpers.js";
+
+describe("formatTypeInfo", () => {
+  const projects = new ProjectRegistry();
+  afterAll(() => projects.dispose());
+  // Collected once while tests are gathered; the cases below only format it.
+  const info = pickType({ file: FIXTURE_FILE, regex: "ada" }, projects);
+  const withProperties = (count: number): TypeInfo => ({
+    ...info,
+    properties: Array.from({ length: count }, (_, index) => ({ name: `field${index}`, type: "string", optional: false, deprecated: false })),
+  });
+
+  test("renders every section without a budget", () => {
+    const text = formatTypeInfo(info, { format: "text" });
+    expect(text.split("\n").slice(0, 2)).toEqual(["ada at test/fixtures/app.ts:13:14 (Identifier)", "type: User"]);
+    expect(text).toContain("properties:\n  id: string\n  name: string\n  nickname?: string | undefined (deprecated)\n");
+    expect(text).not.toContain("omitted");
+
+    const markdown = formatTypeInfo(info, { format: "markdown" });
+    expect(markdown).toStartWith("## `ada` at test/fixtures/app.ts:13:14 (Identifier)\n\n```ts\nUser\n```");
+    expect(markdown).toContain("\n### Properties\n- `id`: `string`");
+  });
+
+  test("stops at the first entry that does not fit and marks everything after it", () => {
+    const text = formatTypeInfo(withProperties(40), { format: "text", maxChars: 400 });
+    expect(text.length).toBeLessThanOrEqual(400);
+    expect(text).toContain("  field4: string\n… 35 more properties omitted\n… 1 more diagnostics omitted\n… 1 more project diagnostics omitted");
+    expect(formatTypeInfo(withProperties(40), { format: "text", maxChars: 400 })).toBe(text);
+  });
+
+  test("cuts an oversized type string but keeps the header", () => {
+    const markdown = formatTypeInfo({ ...info, typeString: "x".repeat(2000) }, { format: "markdown", maxChars: 300 });
+    expect(markdown.length).toBeLessThanOrEqual(300);
+    expect(markdown).toMatch(/^## `ada` at .*\n\n```ts\nx+… \(\d+ more characters omitted\)\n```/);
+  });
+
+  test("keeps a short type string whole and counts what a cut one lost", () => {
+    const text = formatTypeInfo(info, { format: "text", maxChars: 200 });
+    expect(text.length).toBeLessThanOrEqual(200);
+    expect(text.split("\n")[1]).toBe("type: User");
+
+    const cut = formatTypeInfo({ ...info, typeString: "x".repeat(2000) }, { format: "text", maxChars: 300 });
+    const [, kept, omitted] = /^type: (x+)… \((\d+) more characters omitted\)$/m.exec(cut) ?? [];
+    expect(kept.length + Number(omitted)).toBe(2000);
+  });
+
+  test("cuts without a marker when there is no room for one", () => {
+    // Leave about 20 characters for the type string, less than its marker needs.
+    const empty = formatTypeInfo({ ...info, typeString: "" }, { format: "json", maxChars: 0 }).length;
+    const json = formatTypeInfo({ ...info, typeString: "x".repeat(2000) }, { format: "json", maxChars: empty + 20 });
+    expect(json.length).toBeLessThanOrEqual(empty + 20);
+    expect(JSON.parse(json).typeString).toMatch(/^x{10,20}$/);
+  });
+
+  test("keeps room for the markers of sections after the signatures", () => {
+    const call = pickType({ file: FIXTURE_FILE, regex: "greet\\(" }, projects);
+    const text = formatTypeInfo({ ...call, typeString: "y".repeat(250) }, { format: "text", maxChars: 450 });
+    expect(text.length).toBeLessThanOrEqual(450);
+    expect(text).toContain("… 1 more signatures omitted\n… documentation omitted\n");
+  });
+
+  test("shortens JSON lists and records what each lost", () => {
+    const json = formatTypeInfo(withProperties(40), { format: "json", maxChars: 900 });
+    const budgeted = JSON.parse(json);
+    expect(json.length).toBeLessThanOrEqual(900);
+    expect(budgeted.properties).toHaveLength(2);
+    expect(budgeted.omitted).toEqual({ properties: 38, diagnostics: 1, projectDiagnostics: 1 });
+    expect(budgeted.diagnostics).toEqual([]);
+    const presentKeys = Object.keys(info).filter((key) => info[key as keyof TypeInfo] !== undefined);
+    expect(Object.keys(budgeted)).toEqual([...presentKeys, "omitted"]);
+  });
+});
+
+describe("--format and --max-tokens", () => {
+  test("render the CLI result for prompts", () => {
+    const run = runCli([FIXTURE_FILE, "--regex", "ada", "--format", "text", "--max-tokens", "60"]);
+    expect(run.status).toBe(0);
+    expect(run.stdout.length).toBeLessThanOrEqual(241);
+    expect(run.stdout).toStartWith("ada at ");
+    expect(run.stdout).toContain("omitted");
+
+    const invalid = runCli([FIXTURE_FILE, "--regex", "ada", "--format", "yaml"]);
+    expect(invalid.status).toBe(2);
+    expect(invalid.stderr).toContain("Invalid --format value: yaml (expected json, markdown, text)");
+  }, TIMEOUT);
+});
@@ -0,0 +1,47 @@
+import { spawnSync, SpawnSyncOptions } from "node:child_process";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+
+export const REPO_ROOT = path.resolve(path.dirname(fileURLToPath(import.meta.url)), "..");
+export const FIXTURES = path.join(REPO_ROOT, "test/fixtures");
+export const FIXTURE_FILE = path.join(FIXTURES, "app.ts");
+
+/** Building a program takes a few seconds on a cold cache. */
+export const TIMEOUT = 60_000;
+
+export interface CliRun {
+  status: number | null;
+  stdout: string;
+  stderr: string;
+}
+
+/** Runs `src/cli.ts` in-process (no daemon) with the runtime running the tests. */
+export function runCli(args: string[], options: Pick<SpawnSyncOptions, "cwd" | "input"> = {}): CliRun {
+  const run = spawnSync(process.execPath, [path.join(REPO_ROOT, "src/cli.ts"), ...args], {
+    cwd: options.cwd ?? REPO_ROOT,
+    input: options.input,
+    encoding: "utf8",
+    env: { ...process.env, TSP_NO_DAEMON: "1" },
+    timeout: TIMEOUT,
+  });
+  return { status: run.status, stdout: run.stdout, stderr: run.stderr };
+}
+
+/** Writes `files` (relative path → content) into a fresh temporary directory, for tests that edit projects. */
+export function createTempProject(files: Record<string, string>): string {
+  const directory = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), "tsp-test-")));
+  for (const [name, content] of Object.entries(files)) {
+    const file = path.join(directory, name);
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    fs.writeFileSync(file, content);
+  }
+  return directory;
+}
+
+/** Sets a file's mtime forward so mtime-based script versions see the edit even within the same millisecond. */
+export function touchLater(file: string, seconds = 2): void {
+  const time = new Date(Date.now() + seconds * 1000);
+  fs.utimesSync(file, time, time);
+}
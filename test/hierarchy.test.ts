@@ -0,0 +1,79 @@
+import fs from "node:fs";
+import path from "node:path";
+import { afterAll, describe, expect, test } from "bun:test";
+
+import { HierarchyEntryInfo, traceHierarchy } from "../src/hierarchy.js";
+import { ProjectRegistry } from "../src/project.js";
+import { createTempProject, FIXTURES, runCli, TIMEOUT } from "./helpers.js";
+
+const ZOO_FILE = path.join(FIXTURES, "zoo.ts");
+
+const summarize = (entries: HierarchyEntryInfo[]) =>
+  entries.map(({ name, relation, depth, from, line }) => ({ name, relation, depth, from, line }));
+
+describe("hierarchy", () => {
+  const projects = new ProjectRegistry();
+  afterAll(() => projects.dispose());
+
+  test("walks subtypes transitively, including typed object literals", () => {
+    const result = traceHierarchy({ file: ZOO_FILE, symbol: "Named" }, projects);
+    expect(result).toMatchObject({ symbol: "Named", kind: "interface", supertypes: [] });
+    expect(summarize(result.subtypes)).toEqual([
+      { name: "Animal", relation: "extends", depth: 1, from: "Named", line: 5 },
+      { name: "Dog", relation: "implements", depth: 2, from: "Animal", line: 11 },
+      { name: "cat", relation: "typed-as", depth: 2, from: "Animal", line: 20 },
+      { name: "Puppy", relation: "extends", depth: 3, from: "Dog", line: 16 },
+    ]);
+  }, TIMEOUT);
+
+  test("walks supertypes through extends and implements clauses", () => {
+    const result = traceHierarchy({ file: ZOO_FILE, symbol: "Puppy" }, projects);
+    expect(result.kind).toBe("class");
+    expect(summarize(result.supertypes)).toEqual([
+      { name: "Dog", relation: "extends", depth: 1, from: "Puppy", line: 11 },
+      { name: "Animal", relation: "implements", depth: 2, from: "Dog", line: 5 },
+      { name: "Named", relation: "extends", depth: 3, from: "Animal", line: 1 },
+    ]);
+    expect(result.subtypes).toEqual([]);
+  }, TIMEOUT);
+
+  test("rejects a target that is not a type", () => {
+    expect(traceHierarchy({ file: ZOO_FILE, symbol: "Pet" }, projects).kind).toBe("type-alias");
+    expect(() => traceHierarchy({ file: ZOO_FILE, symbol: "cat" }, projects)).toThrow(
+      "Hierarchy needs a class, interface or type alias, found Identifier \"cat\"",
+    );
+  }, TIMEOUT);
+
+  test("is printed by tsp hierarchy", () => {
+    const run = runCli(["hierarchy", ZOO_FILE, "--symbol", "Dog", "--no-daemon"]);
+    expect(run.status).toBe(0);
+    expect(JSON.parse(run.stdout).subtypes.map((entry: HierarchyEntryInfo) => entry.name)).toEqual(["Puppy"]);
+  }, TIMEOUT);
+});
+
+describe("hierarchy across project references", () => {
+  const compilerOptions = { strict: true, composite: true, types: [] };
+  const directory = createTempProject({
+    "tsconfig.json": JSON.stringify({ files: [], references: [{ path: "./core" }, { path: "./app" }] }),
+    "core/tsconfig.json": JSON.stringify({ compilerOptions, include: ["*.ts"] }),
+    "core/shape.ts": "export interface Shape { area(): number; }\nexport class Square implements Shape { area() { return 1; } }\n",
+    "app/tsconfig.json": JSON.stringify({ compilerOptions, include: ["*.ts"], references: [{ path: "../core" }] }),
+    "app/circle.ts": "import { Shape } from \"../core/shape\";\nexport class Circle implements Shape { area() { return 3; } }\n",
+  });
+  const shapeFile = path.join(directory, "core/shape.ts");
+  const projects = new ProjectRegistry();
+  afterAll(() => {
+    projects.dispose();
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  test("finds subtypes in the projects that reference the owning one", () => {
+    const fromRoot = traceHierarchy({ file: shapeFile, symbol: "Shape", project: path.join(directory, "tsconfig.json") }, projects);
+    expect(fromRoot.subtypes.map(({ name, file }) => `${name} ${path.relative(directory, file)}`)).toEqual([
+      "Circle app/circle.ts",
+      "Square core/shape.ts",
+    ]);
+    // Without the solution root, only the owning project is known.
+    expect(traceHierarchy({ file: shapeFile, symbol: "Shape" }, projects).subtypes.map(({ name }) => name)).toEqual(["Square"]);
+  }, TIMEOUT);
+});
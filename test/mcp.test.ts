@@ -0,0 +1,109 @@
+import { spawnSync } from "node:child_process";
+import { describe, expect, test } from "bun:test";
+
+import { FIXTURE_FILE, REPO_ROOT } from "./helpers.js";
+
+interface ToolResult {
+  content: { type: string; text: string }[];
+  structuredContent?: Record<string, unknown>;
+  isError?: boolean;
+}
+
+// Drives `tsp mcp` as a client would: one newline-delimited JSON-RPC message per line, then EOF.
+const MESSAGES = [
+  { jsonrpc: "2.0", id: 1, method: "initialize", params: { protocolVersion: "2025-06-18", capabilities: {} } },
+  { jsonrpc: "2.0", method: "notifications/initialized" },
+  { jsonrpc: "2.0", id: 2, method: "tools/list" },
+  {
+    jsonrpc: "2.0",
+    id: 3,
+    method: "tools/call",
+    params: { name: "pick_type_at_position", arguments: { file: FIXTURE_FILE, line: 13, column: 14 } },
+  },
+  {
+    jsonrpc: "2.0",
+    id: 4,
+    method: "tools/call",
+    params: { name: "pick_type_by_regex", arguments: { file: FIXTURE_FILE, regex: "greet\\(ada", includeFixes: true } },
+  },
+  { jsonrpc: "2.0", id: 5, method: "tools/call", params: { name: "project_diagnostics", arguments: { file: FIXTURE_FILE } } },
+  {
+    jsonrpc: "2.0",
+    id: 6,
+    method: "tools/call",
+    params: { name: "pick_type_by_regex", arguments: { file: FIXTURE_FILE, regex: "notInTheFile" } },
+  },
+  { jsonrpc: "2.0", id: 7, method: "tools/call", params: { name: "rename_symbol", arguments: {} } },
+];
+
+describe("tsp mcp over stdio", () => {
+  // The session runs once, while tests are collected, so building the program is not subject to the test timeout.
+  const run = spawnSync(process.execPath, ["src/cli.ts", "mcp"], {
+    cwd: REPO_ROOT,
+    input: MESSAGES.map((message) => JSON.stringify(message)).join("\n") + "\n",
+    encoding: "utf8",
+    timeout: 60_000,
+  });
+  const status = run.status;
+  const responses = new Map<unknown, { result?: unknown; error?: { code: number; message: string } }>();
+  for (const line of run.stdout.split("\n").filter((text) => text.length > 0)) {
+    const response = JSON.parse(line);
+    responses.set(response.id, response);
+  }
+
+  const toolResult = (id: number) => responses.get(id)?.result as ToolResult;
+
+  test("exits when stdin closes and answers every request but the notification", () => {
+    expect(status).toBe(0);
+    expect([...responses.keys()].sort()).toEqual([1, 2, 3, 4, 5, 6, 7]);
+  });
+
+  test("initialize negotiates the requested protocol version", () => {
+    expect(responses.get(1)?.result).toMatchObject({
+      protocolVersion: "2025-06-18",
+      capabilities: { tools: {} },
+      serverInfo: { name: "tsp" },
+    });
+  });
+
+  test("tools/list names the three tools", () => {
+    const { tools } = responses.get(2)?.result as { tools: { name: string; inputSchema: unknown }[] };
+    expect(tools.map((tool) => tool.name)).toEqual(["pick_type_at_position", "pick_type_by_regex", "project_diagnostics"]);
+    expect(tools.every((tool) => typeof tool.inputSchema === "object")).toBe(true);
+  });
+
+  test("pick_type_at_position returns a TypeInfo", () => {
+    const result = toolResult(3);
+    expect(result.isError).toBeUndefined();
+    expect(result.structuredContent).toMatchObject({ matchedText: "ada", typeString: "User", projectSelection: { reason: "includes-file" } });
+    expect(JSON.parse(result.content[0].text)).toEqual(result.structuredContent!);
+  });
+
+  test("pick_type_by_regex passes the pick options through", () => {
+    const result = toolResult(4);
+    expect(result.isError).toBeUndefined();
+    expect(result.structuredContent).toMatchObject({ matchedText: "greet(ada", resolvedCall: { callee: "greet" } });
+    const [diagnostic] = result.structuredContent!.diagnostics as { fixes?: { fixName: string }[] }[];
+    expect(diagnostic.fixes?.map((fix) => fix.fixName)).toEqual(["spelling"]);
+  });
+
+  test("project_diagnostics returns file and project diagnostics", () => {
+    const result = toolResult(5);
+    expect(result.isError).toBeUndefined();
+    expect(Object.keys(result.structuredContent!).sort()).toEqual([
+      "diagnostics",
+      "file",
+      "project",
+      "projectDiagnostics",
+      "projectSelection",
+    ]);
+    expect(result.structuredContent!.diagnostics).toEqual([expect.objectContaining({ code: 2551, line: 17 })]);
+  });
+
+  test("query errors come back as tool results and unknown tools as protocol errors", () => {
+    const result = toolResult(6);
+    expect(result.isError).toBe(true);
+    expect(result.content[0].text).toStartWith("Error [NO_MATCH]: Regex \"notInTheFile\" did not match");
+    expect(responses.get(7)?.error).toMatchObject({ message: "Unknown tool: rename_symbol" });
+  });
+});
@@ -0,0 +1,76 @@
+import path from "node:path";
+import { afterAll, describe, expect, test } from "bun:test";
+
+import { handleDaemonRequest } from "../src/daemon.js";
+import { NarrowingResult, traceNarrowing } from "../src/narrowing.js";
+import { ProjectRegistry } from "../src/project.js";
+import { FIXTURES, runCli, TIMEOUT } from "./helpers.js";
+
+const NARROWING_FILE = path.join(FIXTURES, "narrowing.ts");
+
+/** `line:column type [guard kind/via/branch]` per reference, to keep expectations readable. */
+function summarize(result: NarrowingResult): string[] {
+  return result.references.map(({ line, column, typeString, guard }) => {
+    const explained = guard ? ` [${guard.kind}/${guard.via}${guard.branch === undefined ? "" : `/${guard.branch}`}]` : "";
+    return `${line}:${column} ${typeString}${explained}`;
+  });
+}
+
+describe("tsp narrowing", () => {
+  const projects = new ProjectRegistry();
+  afterAll(() => projects.dispose());
+  const trace = (regex: string) => traceNarrowing({ file: NARROWING_FILE, regex }, projects);
+
+  test("explains truthiness and typeof guards from branches and early exits", () => {
+    const result = trace("value(?=:)");
+    expect(result).toMatchObject({
+      symbol: "value",
+      declaredType: "string | number | null",
+      scope: { kind: "FunctionDeclaration", name: "describe", line: 3, endLine: 16 },
+    });
+    expect(summarize(result)).toEqual([
+      "3:26 string | number | null",
+      "4:8 string | number | null",
+      "7:14 string | number [truthiness/early-exit/false]",
+      "8:12 number [typeof/branch/true]",
+      "11:15 string [typeof/early-exit/false]",
+      "14:11 string [typeof/early-exit/false]",
+    ]);
+    expect(result.references.map((reference) => reference.changed)).toEqual([false, false, true, true, true, false]);
+    expect(result.references[2].guard).toMatchObject({ text: "!value", line: 4, column: 7 });
+  }, TIMEOUT);
+
+  test("explains discriminant checks and assignments", () => {
+    expect(summarize(trace("shape(?=: Shape\\))"))).toEqual([
+      "3:57 Shape",
+      "10:7 Shape",
+      "11:24 { kind: \"circle\"; radius: number; } [discriminant/branch/true]",
+    ]);
+    const label = trace("label");
+    expect(label.references.map((reference) => reference.access)).toEqual(["declaration", "write", "read"]);
+    expect(label.references[2].guard).toMatchObject({ kind: "assignment", via: "assignment", text: "label = value.trim()" });
+  }, TIMEOUT);
+
+  test("explains instanceof and in guards", () => {
+    expect(summarize(trace("shape(?=: Shape \\|)")).slice(2)).toEqual([
+      "20:11 Error [instanceof/branch/true]",
+      "22:22 Shape [instanceof/early-exit/false]",
+      "22:30 { kind: \"circle\"; radius: number; } [in/branch/true]",
+      "22:45 { kind: \"square\"; size: number; } [in/branch/false]",
+    ]);
+  }, TIMEOUT);
+
+  test("needs a variable or parameter", () => {
+    expect(() => traceNarrowing({ file: NARROWING_FILE, symbol: "area" }, projects)).toThrow(
+      "Narrowing needs a variable or parameter, found Identifier \"area\"",
+    );
+    const response = handleDaemonRequest({ id: 1, method: "narrowing", params: { file: NARROWING_FILE, regex: "label" } }, projects);
+    expect(response.result).toMatchObject({ symbol: "label", declaredType: "string | undefined" });
+  }, TIMEOUT);
+
+  test("is available on the CLI", () => {
+    const run = runCli(["narrowing", NARROWING_FILE, "--regex", "label"]);
+    expect(run.status).toBe(0);
+    expect(JSON.parse(run.stdout).references).toHaveLength(3);
+  }, TIMEOUT);
+});
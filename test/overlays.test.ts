@@ -0,0 +1,58 @@
+import fs from "node:fs";
+import path from "node:path";
+import { afterAll, describe, expect, test } from "bun:test";
+
+import { pickType } from "../src/picker.js";
+import { ProjectRegistry } from "../src/project.js";
+import { createTempProject, FIXTURE_FILE, FIXTURES, runCli, TIMEOUT } from "./helpers.js";
+
+const COUNTER_FILE = path.join(FIXTURES, "counter.ts");
+const TALLY_FILE = path.join(FIXTURES, "tally.ts");
+
+describe("overlays", () => {
+  const projects = new ProjectRegistry();
+  afterAll(() => projects.dispose());
+
+  test("replace the queried file's text without touching the disk", () => {
+    const text = fs.readFileSync(FIXTURE_FILE, "utf8").replace("export const ada: User =", "export const ada =");
+    const result = pickType({ file: FIXTURE_FILE, regex: "ada", overlays: { [FIXTURE_FILE]: text } }, projects);
+    expect(result.typeString).toBe("{ id: string; name: string; }");
+  }, TIMEOUT);
+
+  test("replace the files it imports", () => {
+    const overlays = { [COUNTER_FILE]: "export let count = \"none\";\nexport function increment(): number { return 0; }\n" };
+    expect(pickType({ file: TALLY_FILE, regex: "count;", overlays }, projects).typeString).toBe("string");
+  }, TIMEOUT);
+
+  test("can add files that do not exist on disk", () => {
+    const draft = path.join(FIXTURES, "draft.ts");
+    const overlays = { [draft]: "import { ada } from \"./app.js\";\nexport const draftName = ada.name;\n" };
+    expect(pickType({ file: draft, regex: "draftName", overlays }, projects).typeString).toBe("string");
+    expect(() => pickType({ file: draft, regex: "draftName" }, projects)).toThrow();
+  }, TIMEOUT);
+
+  test("are dropped by the next query that does not pass them", () => {
+    expect(pickType({ file: TALLY_FILE, regex: "count;" }, projects).typeString).toBe("number");
+    expect(pickType({ file: FIXTURE_FILE, regex: "ada" }, projects).typeString).toBe("User");
+  }, TIMEOUT);
+});
+
+describe("--stdin and --overlays", () => {
+  test("--stdin type-checks the text read from stdin as <file>", () => {
+    const run = runCli([FIXTURE_FILE, "--regex", "ada", "--stdin", "--omit-project-diagnostics"], {
+      input: "export const ada = [1, 2];\n",
+    });
+    expect(run.status).toBe(0);
+    expect(JSON.parse(run.stdout).typeString).toBe("number[]");
+  }, TIMEOUT);
+
+  test("--overlays reads a JSON map of path → text", () => {
+    const directory = createTempProject({
+      "overlays.json": JSON.stringify({ [COUNTER_FILE]: "export let count = true;\nexport function increment() { return 1; }\n" }),
+    });
+    const run = runCli([TALLY_FILE, "--regex", "count;", "--overlays", path.join(directory, "overlays.json"), "--omit-project-diagnostics"]);
+    expect(run.status).toBe(0);
+    expect(JSON.parse(run.stdout).typeString).toBe("boolean");
+    fs.rmSync(directory, { recursive: true, force: true });
+  }, TIMEOUT);
+});
@@ -0,0 +1,66 @@
+import fs from "node:fs";
+import path from "node:path";
+import { afterAll, describe, expect, test } from "bun:test";
+
+import { pickType } from "../src/picker.js";
+import { ProjectRegistry } from "../src/project.js";
+import { createTempProject, FIXTURE_FILE, FIXTURES, TIMEOUT } from "./helpers.js";
+
+const compilerOptions = { strict: true, module: "NodeNext", types: [] };
+
+describe("project selection", () => {
+  const projects = new ProjectRegistry();
+  // A solution-style root that lists no files itself, over two packages.
+  const directory = createTempProject({
+    "package.json": JSON.stringify({ type: "module" }),
+    "tsconfig.json": JSON.stringify({ files: [], references: [{ path: "packages/app" }] }),
+    "scratch.ts": "export const scratch = 1;\n",
+    "packages/core/tsconfig.json": JSON.stringify({ compilerOptions: { ...compilerOptions, composite: true }, include: ["src"] }),
+    "packages/core/src/index.ts": "export function coreVersion(): string {\n  return \"1\";\n}\n",
+    "packages/app/tsconfig.json": JSON.stringify({
+      compilerOptions,
+      include: ["src"],
+      references: [{ path: "../core" }],
+    }),
+    "packages/app/src/main.ts": "import { coreVersion } from \"../../core/src/index.js\";\nexport const version = coreVersion();\n",
+  });
+  const rootConfig = path.join(directory, "tsconfig.json");
+  const pick = (file: string, project?: string) => pickType({ file: path.join(directory, file), regex: "version|scratch", project }, projects);
+
+  afterAll(() => {
+    projects.dispose();
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  test("uses the nearest tsconfig when it lists the file", () => {
+    const result = pickType({ file: FIXTURE_FILE, regex: "ada" }, projects);
+    expect(result.project).toBe(path.join(FIXTURES, "tsconfig.json"));
+    expect(result.projectSelection).toEqual({ reason: "includes-file", explicit: false });
+  }, TIMEOUT);
+
+  test("follows references breadth-first from a solution-style root", () => {
+    const result = pick("packages/app/src/main.ts", rootConfig);
+    expect(result.project).toBe(path.join(directory, "packages/app/tsconfig.json"));
+    expect(result.projectSelection).toEqual({ reason: "referenced", explicit: true, searchedFrom: rootConfig });
+    expect(result.typeString).toBe("string");
+
+    // core is only reachable through app's references.
+    const core = pickType({ file: path.join(directory, "packages/core/src/index.ts"), regex: "coreVersion", project: rootConfig }, projects);
+    expect(core.project).toBe(path.join(directory, "packages/core/tsconfig.json"));
+    expect(core.projectSelection.reason).toBe("referenced");
+  }, TIMEOUT);
+
+  test("falls back to the starting config when no project lists the file", () => {
+    const result = pick("scratch.ts");
+    expect(result.project).toBe(rootConfig);
+    expect(result.projectSelection).toEqual({ reason: "fallback", explicit: false });
+  }, TIMEOUT);
+
+  test("infers a project when there is no tsconfig", () => {
+    const loose = createTempProject({ "loose.ts": "export const loose = [1];\n" });
+    const result = pickType({ file: path.join(loose, "loose.ts"), regex: "loose" }, projects);
+    expect(result.project).toBeUndefined();
+    expect(result.projectSelection).toEqual({ reason: "inferred", explicit: false });
+    fs.rmSync(loose, { recursive: true, force: true });
+  }, TIMEOUT);
+});
@@ -0,0 +1,55 @@
+import path from "node:path";
+import { afterAll, describe, expect, test } from "bun:test";
+
+import { pickType } from "../src/picker.js";
+import { ProjectRegistry } from "../src/project.js";
+import { ReferenceInfo } from "../src/references.js";
+import { FIXTURES, runCli, TIMEOUT } from "./helpers.js";
+
+const COUNTER_FILE = path.join(FIXTURES, "counter.ts");
+const TALLY_FILE = path.join(FIXTURES, "tally.ts");
+
+// Other fixtures re-export these symbols; only the two files written for this test are checked.
+function inCounterFiles(references: ReferenceInfo[] | undefined): ReferenceInfo[] {
+  return (references ?? []).filter((reference) => [COUNTER_FILE, TALLY_FILE].includes(reference.file));
+}
+
+describe("--references", () => {
+  const projects = new ProjectRegistry();
+  afterAll(() => projects.dispose());
+
+  test("classifies each reference as a write, read or import, across files", () => {
+    const { references } = pickType({ file: COUNTER_FILE, symbol: "count" }, projects, { includeReferences: true });
+    const summary = inCounterFiles(references).map(({ file, line, access, isDefinition, enclosing }) => ({
+      file: path.basename(file),
+      line,
+      access,
+      isDefinition,
+      enclosing,
+    }));
+
+    expect(summary).toEqual([
+      { file: "counter.ts", line: 1, access: "write", isDefinition: true, enclosing: undefined },
+      { file: "counter.ts", line: 4, access: "write", isDefinition: false, enclosing: "increment" },
+      { file: "counter.ts", line: 5, access: "read", isDefinition: false, enclosing: "increment" },
+      { file: "tally.ts", line: 1, access: "import", isDefinition: false, enclosing: undefined },
+      { file: "tally.ts", line: 6, access: "read", isDefinition: false, enclosing: "Tally.record" },
+    ]);
+    expect(inCounterFiles(references)[1].snippet).toBe("count += 1;");
+  }, TIMEOUT);
+
+  test("follows an imported binding back to the declaration's references", () => {
+    const { references } = pickType({ file: TALLY_FILE, regex: "increment\\(\\)" }, projects, { includeReferences: true });
+    expect(inCounterFiles(references).map((reference) => `${path.basename(reference.file)}:${reference.line}:${reference.access}`)).toEqual([
+      "counter.ts:3:write",
+      "tally.ts:1:import",
+      "tally.ts:5:read",
+    ]);
+  }, TIMEOUT);
+
+  test("are only attached when requested", () => {
+    expect(pickType({ file: COUNTER_FILE, symbol: "count" }, projects).references).toBeUndefined();
+    const run = runCli([COUNTER_FILE, "--symbol", "increment", "--references", "--omit-project-diagnostics"]);
+    expect(inCounterFiles(JSON.parse(run.stdout).references)).toHaveLength(3);
+  }, TIMEOUT);
+});
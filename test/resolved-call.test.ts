@@ -0,0 +1,52 @@
+import fs from "node:fs";
+import path from "node:path";
+import { afterAll, describe, expect, test } from "bun:test";
+
+import { pickType } from "../src/picker.js";
+import { ProjectRegistry } from "../src/project.js";
+import { FIXTURES, runCli, TIMEOUT } from "./helpers.js";
+
+const GENERICS_FILE = path.join(FIXTURES, "generics.ts");
+
+describe("resolvedCall", () => {
+  const projects = new ProjectRegistry();
+  afterAll(() => projects.dispose());
+  const pick = (regex: string, overlays?: Record<string, string>) =>
+    pickType({ file: GENERICS_FILE, regex, overlays }, projects).resolvedCall;
+
+  test("reports the inferred type arguments and instantiated parameters", () => {
+    expect(pick("\"tsp\"")).toMatchObject({
+      kind: "call",
+      callee: "wrap",
+      signature: "(value: string): { value: string; }",
+      typeArguments: { T: "string" },
+      parameters: [{ name: "value", type: "string", optional: false, rest: false }],
+      returnType: "{ value: string; }",
+      argumentIndex: 0,
+      errors: [],
+    });
+  }, TIMEOUT);
+
+  test("names the overload the checker picked", () => {
+    expect(pick("7\\)")).toMatchObject({
+      signature: "(input: number): string",
+      overloadIndex: 1,
+      overloadCount: 2,
+      declaration: { file: GENERICS_FILE, line: 6, column: 1 },
+      typeArguments: {},
+    });
+  }, TIMEOUT);
+
+  test("carries the overload resolution errors of a call that does not type-check", () => {
+    const text = `${fs.readFileSync(GENERICS_FILE, "utf8")}\nparse(true);\n`;
+    const errors = pick("true", { [GENERICS_FILE]: text })?.errors ?? [];
+    expect(errors).toHaveLength(1);
+    expect(errors[0]).toStartWith("No overload matches this call.");
+  }, TIMEOUT);
+
+  test("is absent outside a call", () => {
+    expect(pick("wrapped")).toBeUndefined();
+    const run = runCli([GENERICS_FILE, "--regex", "\"tsp\"", "--omit-project-diagnostics"]);
+    expect(JSON.parse(run.stdout).resolvedCall.typeArguments).toEqual({ T: "string" });
+  }, TIMEOUT);
+});
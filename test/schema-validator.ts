@@ -0,0 +1,20 @@
+import { readFileSync } from "node:fs";
+import path from "node:path";
+
+import { Ajv2020 } from "ajv/dist/2020.js";
+
+import { REPO_ROOT } from "./helpers.js";
+
+export const SCHEMA_FILE = path.join(REPO_ROOT, "schema/type-info.schema.json");
+
+const ajv = new Ajv2020({ allErrors: true });
+ajv.addSchema(JSON.parse(readFileSync(SCHEMA_FILE, "utf8")), "tsp");
+
+/** Errors from validating `value` against the shipped schema, or one of its `$defs`; empty when it conforms. */
+export function schemaErrors(value: unknown, definition?: string): string[] {
+  const validate = ajv.getSchema(definition ? `tsp#/$defs/${definition}` : "tsp");
+  if (!validate) {
+    throw new Error(`Unknown schema definition: ${definition}`);
+  }
+  return validate(value) ? [] : (validate.errors ?? []).map((error) => `${error.instancePath || "/"} ${error.message}`);
+}
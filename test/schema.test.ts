@@ -0,0 +1,65 @@
+import { readFileSync } from "node:fs";
+import { afterAll, describe, expect, test } from "bun:test";
+
+import { runBatch } from "../src/batch.js";
+import { formatTypeInfo } from "../src/format.js";
+import { PickOptions, pickType, TypeInfo, TypeQuery } from "../src/picker.js";
+import { ProjectRegistry } from "../src/project.js";
+import { SCHEMA_VERSION } from "../src/schema.js";
+import { FIXTURE_FILE, runCli, TIMEOUT } from "./helpers.js";
+import { SCHEMA_FILE, schemaErrors } from "./schema-validator.js";
+
+describe("schema/type-info.schema.json", () => {
+  const projects = new ProjectRegistry();
+  afterAll(() => projects.dispose());
+
+  // Each case names the optional field it exercises, so the schema is checked against real content.
+  const cases: [keyof TypeInfo, TypeQuery, PickOptions][] = [
+    ["references", { file: FIXTURE_FILE, symbol: "User" }, { includeReferences: true }],
+    ["documentation", { file: FIXTURE_FILE, symbol: "User.nickname" }, {}],
+    ["resolvedCall", { file: FIXTURE_FILE, regex: "greet\\(ada" }, {}],
+    ["expectedType", { file: FIXTURE_FILE, regex: "\"Ada\"" }, {}],
+    ["expanded", { file: FIXTURE_FILE, symbol: "ada" }, { expand: { depth: 2 } }],
+    ["diagnostics", { file: FIXTURE_FILE, regex: "toUppercase" }, { includeFixes: true }],
+  ];
+
+  for (const [field, query, options] of cases) {
+    test(`pickType result with ${field}`, () => {
+      const result = pickType(query, projects, options);
+      expect(result.schemaVersion).toBe(SCHEMA_VERSION);
+      expect(result[field]).toBeDefined();
+      expect(result[field]).not.toEqual([]);
+      expect(schemaErrors(result)).toEqual([]);
+    }, TIMEOUT);
+  }
+
+  test("budgeted JSON with omitted counts", () => {
+    const result = pickType({ file: FIXTURE_FILE, symbol: "ada" }, projects);
+    const budgeted = JSON.parse(formatTypeInfo(result, { format: "json", maxChars: 700 }));
+    expect(budgeted.omitted).toBeDefined();
+    expect(schemaErrors(budgeted)).toEqual([]);
+  }, TIMEOUT);
+
+  test("--batch results and errors", async () => {
+    async function* lines() {
+      yield JSON.stringify({ file: FIXTURE_FILE, symbol: "greet" });
+      yield JSON.stringify({ file: FIXTURE_FILE, regex: "notInTheFile" });
+    }
+
+    const results = [];
+    for await (const result of runBatch(lines())) {
+      results.push(result);
+    }
+
+    expect(results).toHaveLength(2);
+    expect(schemaErrors(results[0])).toEqual([]);
+    expect(schemaErrors(results[1], "BatchError")).toEqual([]);
+    expect(schemaErrors(results[1])).not.toEqual([]);
+  }, TIMEOUT);
+
+  test("is what tsp schema prints", () => {
+    const run = runCli(["schema"]);
+    expect(run.status).toBe(0);
+    expect(run.stdout).toBe(readFileSync(SCHEMA_FILE, "utf8"));
+  }, TIMEOUT);
+});
@@ -0,0 +1,63 @@
+import path from "node:path";
+import { afterAll, describe, expect, test } from "bun:test";
+
+import { ProjectRegistry } from "../src/project.js";
+import { SearchResult, searchProject } from "../src/search.js";
+import { FIXTURES, runCli, TIMEOUT } from "./helpers.js";
+
+/** `file:line:column region matchedText type` per match, relative to the fixtures. */
+function summarize(result: SearchResult): string[] {
+  return result.matches.map(({ file, line, column, region, matchedText, typeString }) =>
+    `${file.slice(FIXTURES.length + 1)}:${line}:${column} ${region} ${matchedText} ${typeString ?? "-"}`,
+  );
+}
+
+describe("tsp search", () => {
+  const projects = new ProjectRegistry();
+  afterAll(() => projects.dispose());
+
+  test("classifies matches in code, comments and strings", () => {
+    const result = searchProject({ regex: "\\bname\\b|Ada", include: "app.ts", directory: FIXTURES }, projects);
+    expect(result).toMatchObject({ filesSearched: 1, total: 6, flags: "g" });
+    expect(summarize(result)).toEqual([
+      "app.ts:3:3 code name string",
+      "app.ts:4:24 comment name -",
+      "app.ts:8:22 comment name -",
+      "app.ts:10:31 code name string",
+      "app.ts:13:37 code name string",
+      "app.ts:13:44 string Ada \"Ada\"",
+    ]);
+  }, TIMEOUT);
+
+  test("can skip comments and strings", () => {
+    const result = searchProject(
+      { regex: "\\bname\\b|Ada", include: "app.ts", directory: FIXTURES },
+      projects,
+      { skipComments: true, skipStrings: true },
+    );
+    expect(result.total).toBe(3);
+    expect(result.matches.every((match) => match.region === "code")).toBe(true);
+  }, TIMEOUT);
+
+  test("selects files with brace globs and counts past the limit", () => {
+    expect(searchProject({ regex: "Hello", include: "{app,docs}.ts", directory: FIXTURES }, projects).filesSearched).toBe(2);
+
+    const limited = searchProject({ regex: "\\bcount\\b", include: "**/*.ts", directory: FIXTURES }, projects, { limit: 2 });
+    expect(limited.matches).toHaveLength(2);
+    expect(limited.total).toBeGreaterThan(2);
+  }, TIMEOUT);
+
+  test("searches overlays of files that do not exist on disk", () => {
+    const draft = path.join(FIXTURES, "draft.ts");
+    const overlays = { [draft]: "export const draftName = \"draft\";\n", [path.join(FIXTURES, "notes.md")]: "draftName" };
+    const result = searchProject({ regex: "draftName", directory: FIXTURES, overlays }, projects);
+    expect(summarize(result)).toEqual(["draft.ts:1:14 code draftName \"draft\""]);
+    expect(searchProject({ regex: "draftName", include: "app.ts", directory: FIXTURES, overlays }, projects).total).toBe(0);
+  }, TIMEOUT);
+
+  test("takes the regex as its argument on the CLI", () => {
+    const run = runCli(["search", "toUppercase", "--include", "*.ts", "--skip-comments"], { cwd: FIXTURES });
+    expect(run.status).toBe(0);
+    expect(JSON.parse(run.stdout)).toMatchObject({ total: 1, matches: [{ line: 17, region: "code", typeString: "any" }] });
+  }, TIMEOUT);
+});
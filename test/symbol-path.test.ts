@@ -0,0 +1,58 @@
+import path from "node:path";
+import { afterAll, describe, expect, test } from "bun:test";
+
+import { pickType } from "../src/picker.js";
+import { ProjectRegistry } from "../src/project.js";
+import { parseSymbolPath } from "../src/symbol-path.js";
+import { FIXTURES, runCli, TIMEOUT } from "./helpers.js";
+
+const SYMBOLS_FILE = path.join(FIXTURES, "symbols.ts");
+
+describe("parseSymbolPath", () => {
+  test("splits JSDoc-style namepaths into segments", () => {
+    expect(parseSymbolPath("default#options.timeout")).toEqual([
+      { name: "default", separator: "" },
+      { name: "options", separator: "#" },
+      { name: "timeout", separator: "." },
+    ]);
+  });
+
+  test("rejects empty segments and leading separators", () => {
+    expect(() => parseSymbolPath("a..b")).toThrow("Invalid symbol path: \"a..b\"");
+    expect(() => parseSymbolPath("#a")).toThrow("Invalid symbol path: \"#a\"");
+    expect(() => parseSymbolPath("")).toThrow("Symbol path must not be empty");
+  });
+});
+
+describe("--symbol queries", () => {
+  const projects = new ProjectRegistry();
+  afterAll(() => projects.dispose());
+  const pick = (symbol: string) => pickType({ file: SYMBOLS_FILE, symbol }, projects);
+
+  test("walk namespace exports, static and instance members and object literal properties", () => {
+    expect(pick("Shapes.area")).toMatchObject({ matchedText: "area", typeString: "(width: number, height: number) => number" });
+    expect(pick("UserService.create")).toMatchObject({ matchedText: "create", typeString: "(name: string) => UserService" });
+    expect(pick("UserService#save")).toMatchObject({ matchedText: "save", position: { line: 14 } });
+    expect(pick("default.options.timeout")).toMatchObject({ matchedText: "timeout", typeString: "number" });
+  }, TIMEOUT);
+
+  test("list the candidates at the level where a segment is missing", () => {
+    expect(() => pick("Nope")).toThrow(
+      `Symbol path "Nope" not found: no "Nope" in ${SYMBOLS_FILE}. Candidates: Shapes, UserService, config, default, settings, usesLocal`,
+    );
+    // `#` only walks instance members, so the static `create` is not a candidate.
+    expect(() => pick("UserService#nope")).toThrow(
+      "Symbol path \"UserService#nope\" not found: no \"nope\" in \"UserService\". Candidates: name, save",
+    );
+  }, TIMEOUT);
+
+  test("report every symbol an ambiguous segment matches", () => {
+    expect(() => pick("config")).toThrow(/"config" in .* matches 2 symbols: config \(VariableDeclaration at .*symbols\.ts:2[23]\), config/);
+  }, TIMEOUT);
+
+  test("are accepted by the CLI", () => {
+    const run = runCli([SYMBOLS_FILE, "--symbol", "UserService#save", "--omit-project-diagnostics"]);
+    expect(run.status).toBe(0);
+    expect(JSON.parse(run.stdout)).toMatchObject({ matchedText: "save", typeString: "() => boolean" });
+  }, TIMEOUT);
+});
@@ -0,0 +1,119 @@
+import { execFileSync } from "node:child_process";
+import fs from "node:fs";
+import path from "node:path";
+import { afterAll, describe, expect, test } from "bun:test";
+
+import { diffTypes } from "../src/type-diff.js";
+import { ProjectRegistry } from "../src/project.js";
+import { createTempProject, FIXTURES, runCli, TIMEOUT } from "./helpers.js";
+
+// Both versions are overlays of a file that does not exist on disk.
+const API_FILE = path.join(FIXTURES, "api.ts");
+const BEFORE = [
+  "export interface Options { retries: number; label?: string; mode: \"fast\" | \"slow\"; }",
+  "export function load(path: string, options?: Options): string | undefined { return undefined; }",
+  "export function save(path: string, data?: string): void {}",
+  "export type Id = string;",
+].join("\n");
+const AFTER = [
+  "export interface Options { retries: string; verbose?: boolean; mode: \"fast\" | \"slow\" | \"safe\"; timeout: number; }",
+  "export function load(file: string | URL, options?: Options): string { return \"\"; }",
+  "export function save(path: \"a\" | \"b\", data: string): void {}",
+  "export type Id = string;",
+].join("\n");
+
+describe("diff", () => {
+  const projects = new ProjectRegistry();
+  afterAll(() => projects.dispose());
+  const diff = (symbol: string, after = AFTER) =>
+    diffTypes(
+      { before: { file: API_FILE, symbol, overlays: { [API_FILE]: BEFORE } }, after: { file: API_FILE, symbol, overlays: { [API_FILE]: after } } },
+      projects,
+    );
+
+  test("classifies property changes of a type callers read and construct", () => {
+    const result = diff("Options");
+    expect(result).toMatchObject({ changed: true, breaking: true });
+    expect(result.changes.map(({ kind, path, breaking }) => ({ kind, path, breaking }))).toEqual([
+      { kind: "property-removed", path: "label", breaking: true },
+      { kind: "property-type", path: "mode", breaking: true },
+      { kind: "property-type", path: "retries", breaking: true },
+      { kind: "property-added", path: "timeout", breaking: true },
+      { kind: "property-added", path: "verbose", breaking: false },
+    ]);
+  }, TIMEOUT);
+
+  test("treats widened parameters and narrowed returns as compatible", () => {
+    const result = diff("load");
+    expect(result.breaking).toBe(false);
+    expect(result.changes).toMatchObject([
+      { kind: "parameter-renamed", path: "call[0](file)", before: "path", after: "file", breaking: false },
+      { kind: "parameter-type", path: "call[0](file)", before: "string", after: "string | URL", breaking: false },
+      { kind: "return-type", path: "call[0]:return", before: "string | undefined", after: "string", breaking: false },
+    ]);
+  }, TIMEOUT);
+
+  test("treats narrowed and newly required parameters as breaking", () => {
+    const result = diff("save");
+    expect(result.breaking).toBe(true);
+    expect(result.changes.map(({ kind, breaking }) => ({ kind, breaking }))).toEqual([
+      { kind: "parameter-type", breaking: true },
+      { kind: "parameter-optionality", breaking: true },
+    ]);
+  }, TIMEOUT);
+
+  test("spells out the members of an alias whose name did not change", () => {
+    const version = (members: string) => `export type Mode = ${members};\nexport function run(mode: Mode): Mode { return mode; }\n`;
+    const aliased = diffTypes(
+      {
+        before: { file: API_FILE, symbol: "run", overlays: { [API_FILE]: version("\"a\" | \"b\"") } },
+        after: { file: API_FILE, symbol: "run", overlays: { [API_FILE]: version("\"a\" | \"c\"") } },
+      },
+      projects,
+    );
+    expect(aliased.changes).toEqual([
+      { kind: "parameter-type", path: "call[0](mode)", before: "\"a\" | \"b\"", after: "\"a\" | \"c\"", added: ["\"c\""], removed: ["\"b\""], breaking: true },
+      { kind: "return-type", path: "call[0]:return", before: "\"a\" | \"b\"", after: "\"a\" | \"c\"", added: ["\"c\""], removed: ["\"b\""], breaking: true },
+    ]);
+  }, TIMEOUT);
+
+  test("reports unchanged and removed symbols", () => {
+    expect(diff("Id")).toMatchObject({ changed: false, breaking: false, changes: [] });
+    const removed = diff("Id", "export const x = 1;\n");
+    expect(removed.after).toEqual({ file: API_FILE });
+    expect(removed.changes).toEqual([{ kind: "removed", path: "", before: "string", breaking: true }]);
+  }, TIMEOUT);
+});
+
+describe("tsp diff", () => {
+  const directory = createTempProject({
+    "tsconfig.json": JSON.stringify({ compilerOptions: { strict: true, types: [] }, include: ["*.ts"] }),
+    "user.ts": "export interface User { id: string; }\n",
+  });
+  const file = path.join(directory, "user.ts");
+  const git = (...args: string[]) => execFileSync("git", args, { cwd: directory, stdio: "ignore" });
+  git("init", "-q");
+  git("-c", "user.name=tsp", "-c", "user.email=tsp@example.com", "commit", "-q", "--allow-empty", "-m", "empty");
+  git("add", ".");
+  git("-c", "user.name=tsp", "-c", "user.email=tsp@example.com", "commit", "-q", "-m", "user");
+  fs.writeFileSync(file, "export interface User { id: number; }\n");
+  afterAll(() => fs.rmSync(directory, { recursive: true, force: true }));
+
+  test("compares the working tree with a git revision", () => {
+    const run = runCli(["diff", file, "--symbol", "User", "--no-daemon"]);
+    expect(run.status).toBe(0);
+    expect(JSON.parse(run.stdout).changes).toEqual([
+      { kind: "property-type", path: "id", before: "string", after: "number", breaking: true },
+    ]);
+    expect(runCli(["diff", file, "--symbol", "User", "--rev", "HEAD~1", "--no-daemon"]).status).toBe(3);
+    expect(runCli(["diff", file, "--symbol", "User", "--rev", "nope", "--no-daemon"]).status).toBe(2);
+  }, TIMEOUT);
+
+  test("compares two files", () => {
+    const older = path.join(directory, "older.ts");
+    fs.writeFileSync(older, "export interface User { id: number; name?: string; }\n");
+    const run = runCli(["diff", older, file, "--symbol", "User", "--no-daemon"]);
+    expect(JSON.parse(run.stdout)).toMatchObject({ breaking: true, changes: [{ kind: "property-removed", path: "name" }] });
+    expect(runCli(["diff", older, file, "--symbol", "User", "--rev", "HEAD"]).status).toBe(2);
+  }, TIMEOUT);
+});
@@ -0,0 +1,63 @@
+import { describe, expect, test } from "bun:test";
+
+import { parseYaml, stringifyYaml } from "../src/yaml.js";
+
+const ASSERTIONS = [
+  "# assertions",
+  "project: ./tsconfig.json",
+  "assertions:",
+  "  - name: \"ada: the user\"",
+  "    file: app.ts",
+  "    symbol: ada",
+  "    typeString: 'Record<string, \"a\" | \"b\">'",
+  "    properties: [id, name, \"a, b\"]",
+  "  - file: app.ts # the fixture",
+  "    regex: a#b",
+  "    note: it's fine",
+  "    noDiagnostics: false",
+  "    line: 3",
+].join("\n");
+
+describe("parseYaml", () => {
+  test("reads quoted type strings, flow lists and comments", () => {
+    expect(parseYaml(ASSERTIONS)).toEqual({
+      project: "./tsconfig.json",
+      assertions: [
+        {
+          name: "ada: the user",
+          file: "app.ts",
+          symbol: "ada",
+          typeString: "Record<string, \"a\" | \"b\">",
+          properties: ["id", "name", "a, b"],
+        },
+        { file: "app.ts", regex: "a#b", note: "it's fine", noDiagnostics: false, line: 3 },
+      ],
+    });
+  });
+
+  test("rejects syntax outside the supported subset", () => {
+    expect(() => parseYaml("a: &anchor 1")).toThrow("Invalid YAML on line 1: unsupported YAML syntax \"&\"");
+    expect(() => parseYaml("a: |\n  text")).toThrow("unsupported YAML syntax \"|\"");
+    expect(() => parseYaml("a: {x: 1}")).toThrow("unsupported YAML syntax \"{\"");
+    expect(() => parseYaml("a: [1, [2]]")).toThrow("nested flow collections are not supported");
+    expect(() => parseYaml("a: 1\na: 2")).toThrow("Invalid YAML on line 2: duplicate key \"a\"");
+    expect(() => parseYaml("a:\n\t- 1")).toThrow("tabs cannot be used for indentation");
+    expect(() => parseYaml("a: 'open")).toThrow("unterminated single-quoted string");
+  });
+});
+
+describe("stringifyYaml", () => {
+  test("round-trips through parseYaml, quoting what would not read back", () => {
+    const value = parseYaml(ASSERTIONS);
+    const text = stringifyYaml(value);
+    expect(text).toContain("    typeString: \"Record<string, \\\"a\\\" | \\\"b\\\">\"\n");
+    expect(text).toContain("    regex: \"a#b\"\n");
+    expect(parseYaml(text)).toEqual(value);
+    expect(parseYaml(stringifyYaml({ flag: "true", count: "3", empty: [], nested: [[1]] }))).toEqual({
+      flag: "true",
+      count: "3",
+      empty: [],
+      nested: [[1]],
+    });
+  });
+});